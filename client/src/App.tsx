@@ -7,6 +7,9 @@ import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import ProfilePage from "@/pages/profile-page";
 import PaymentPage from "@/pages/payment-page";
+import CheckInPage from "@/pages/check-in-page";
+import AdminAnalyticsPage from "@/pages/admin-analytics-page";
+import ManageBookingPage from "@/pages/manage-booking-page";
 import { AuthProvider } from "@/hooks/use-auth";
 import { ProtectedRoute } from "@/lib/protected-route";
 import ErrorBoundary from "@/components/ErrorBoundary";
@@ -17,9 +20,21 @@ function Router() {
   console.log("Router component rendering");
   return (
     <Switch>
-      <ProtectedRoute path="/" component={Home} />
+      {/* Anyone can browse rooms and book as a guest */}
+      <Route path="/">
+        <ErrorBoundary>
+          <Home />
+        </ErrorBoundary>
+      </Route>
       <ProtectedRoute path="/profile" component={ProfilePage} />
       <ProtectedRoute path="/payment/:reservationId" component={PaymentPage} />
+      <ProtectedRoute path="/check-in" component={CheckInPage} />
+      <ProtectedRoute path="/admin/analytics" component={AdminAnalyticsPage} />
+      <Route path="/manage-booking">
+        <ErrorBoundary>
+          <ManageBookingPage />
+        </ErrorBoundary>
+      </Route>
       <Route path="/auth">
         <ErrorBoundary>
           <AuthPage />
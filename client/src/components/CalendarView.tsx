@@ -6,8 +6,21 @@ import { Calendar } from "@/components/ui/calendar";
 import { format, addDays, isToday, isSameDay, startOfDay, addMonths, subDays } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { useOpeningHours } from "@/hooks/use-opening-hours";
+import { findClosure, getOpeningWindow, getWeeklyHourRange } from "@shared/opening-hours";
 import RoomList from "./RoomList";
 import FilterControls from "./FilterControls";
+import RoomFinder from "./RoomFinder";
+
+// All rooms shown in the grid currently belong to the South Boulevard branch
+export const GRID_LOCATION_ID = 1;
+
+// Format minutes after midnight as e.g. "5:00 PM"
+const formatMinutes = (minutes: number) => {
+  const date = new Date();
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return format(date, "h:mm a");
+};
 
 export default function CalendarView() {
   const { toast } = useToast();
@@ -17,6 +30,12 @@ export default function CalendarView() {
   const [showingWeek, setShowingWeek] = useState(true);
   const weekEndDate = addDays(selectedDate, 6);
   const [capacityFilter, setCapacityFilter] = useState("all-spaces");
+  const { hours, closures, timeZone } = useOpeningHours(GRID_LOCATION_ID);
+  const selectedDateKey = format(selectedDate, "yyyy-MM-dd");
+  const closure = findClosure(closures, selectedDateKey);
+  const openingWindow = getOpeningWindow(hours, closures, selectedDateKey, selectedDate.getDay());
+  const gridHours = getWeeklyHourRange(hours);
+  const gridEndMinutes = gridHours.length > 0 ? (gridHours[gridHours.length - 1] + 1) * 60 : 0;
   const handlePrevious = () => {
     // The text in the button is reversed from the state:
     // When showingWeek=true, button says "Day", and we should move by 1 day
@@ -114,6 +133,7 @@ export default function CalendarView() {
   
   return (
     <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-5 mb-8">
+      <RoomFinder />
       {/* ✅ Render the filter ABOVE the table, outside <tbody> */}
       <FilterControls
         capacityFilter={capacityFilter}
@@ -189,10 +209,23 @@ export default function CalendarView() {
 
       {/* Calendar Grid */}
       {/* Library Hours Notice */}
-      {[0, 6].includes(selectedDate.getDay()) && (
+      {closure ? (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          <p className="font-medium">Library Closed</p>
+          <p>The library is closed on this day{closure.reason ? ` for ${closure.reason}` : ""}. Rooms cannot be booked.</p>
+        </div>
+      ) : !openingWindow ? (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          <p className="font-medium">Library Closed</p>
+          <p>The library is closed on {format(selectedDate, "EEEE")}s. Rooms cannot be booked.</p>
+        </div>
+      ) : openingWindow.closeMinutes < gridEndMinutes && (
         <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800">
-          <p className="font-medium">Weekend Hours Notice</p>
-          <p>The library closes at 5:00 PM on weekends. Rooms cannot be booked after closing time.</p>
+          <p className="font-medium">Library Hours Notice</p>
+          <p>
+            The library is open from {formatMinutes(openingWindow.openMinutes)} to {formatMinutes(openingWindow.closeMinutes)} on this day.
+            Rooms cannot be booked after closing time.
+          </p>
         </div>
       )}
       
@@ -201,30 +234,26 @@ export default function CalendarView() {
           <thead>
             <tr>
               <th className="border border-gray-200 p-3 text-left w-72 bg-gray-50">Space</th>
-              <th className="border border-gray-200 p-3 text-center bg-gray-50" colSpan={12}>
+              <th className="border border-gray-200 p-3 text-center bg-gray-50" colSpan={gridHours.length}>
                 {format(selectedDate, "EEEE, MMMM d, yyyy")}
               </th>
             </tr>
             <tr>
               <th className="border border-gray-200 bg-gray-50 p-2"></th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">9:00am</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">10:00am</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">11:00am</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">12:00pm</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">1:00pm</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">2:00pm</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">3:00pm</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">4:00pm</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">5:00pm</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">6:00pm</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">7:00pm</th>
-              <th className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">8:00pm</th>
+              {gridHours.map(hour => (
+                <th key={hour} className="border border-gray-200 bg-gray-50 p-2 text-sm text-center w-20 time-header">
+                  {format(new Date(2000, 0, 1, hour), "h:mmaaa")}
+                </th>
+              ))}
             </tr>
           </thead>
           <tbody>
             <RoomList
               selectedDate={selectedDate}
               capacityFilter={capacityFilter}
+              gridHours={gridHours}
+              locationId={GRID_LOCATION_ID}
+              timeZone={timeZone}
             />
           </tbody>
         </table>
@@ -237,6 +266,18 @@ export default function CalendarView() {
             <div className="w-4 h-4 bg-[#e0e0e0] rounded-sm mr-2"></div>
             <span className="text-gray-600">Occupied</span>
           </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 buffer-time rounded-sm mr-2"></div>
+            <span className="text-gray-600">Setup / cleanup</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 blackout-time rounded-sm mr-2"></div>
+            <span className="text-gray-600">Unavailable</span>
+          </div>
+          <div className="flex items-center">
+            <div className="w-4 h-4 closed-hours rounded-sm mr-2"></div>
+            <span className="text-gray-600">Closed</span>
+          </div>
         </div>
       </div>
     </div>
@@ -8,6 +8,7 @@ import {
   DropdownMenuSeparator, 
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
+import { can, isStaff } from "@shared/roles";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "wouter";
@@ -51,8 +52,13 @@ export default function Header() {
                   <Link href="/profile">
                     <DropdownMenuItem className="cursor-pointer">My Reservations</DropdownMenuItem>
                   </Link>
-                  {user.isAdmin && (
-                    <DropdownMenuItem className="cursor-pointer">Admin Dashboard</DropdownMenuItem>
+                  <Link href="/check-in">
+                    <DropdownMenuItem className="cursor-pointer">{isStaff(user) ? "Desk Check-in" : "Check In"}</DropdownMenuItem>
+                  </Link>
+                  {can(user, "view_reports") && (
+                    <Link href="/admin/analytics">
+                      <DropdownMenuItem className="cursor-pointer">Admin Dashboard</DropdownMenuItem>
+                    </Link>
                   )}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={handleLogout} className="cursor-pointer text-red-600">
@@ -62,12 +68,19 @@ export default function Header() {
                 </DropdownMenuContent>
               </DropdownMenu>
             ) : (
-              <Link href="/auth">
-                <Button size="sm" className="bg-blue-600 hover:bg-blue-700 text-white">
-                  <LogIn className="h-4 w-4 mr-1" />
-                  <span>Login</span>
-                </Button>
-              </Link>
+              <>
+                <Link href="/manage-booking">
+                  <Button variant="ghost" size="sm" className="text-gray-600 hover:text-blue-600">
+                    Manage a booking
+                  </Button>
+                </Link>
+                <Link href="/auth">
+                  <Button size="sm" className="bg-blue-600 hover:bg-blue-700 text-white">
+                    <LogIn className="h-4 w-4 mr-1" />
+                    <span>Login</span>
+                  </Button>
+                </Link>
+              </>
             )}
           </div>
           
@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { History } from "lucide-react";
+import type { AuditLogEntry } from "@shared/schema";
+import { describeAuditActor } from "@shared/audit";
+import { branchDateTime, DEFAULT_TIME_ZONE } from "@shared/time-zone";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger
+} from "@/components/ui/sheet";
+
+// Dates are sent as ISO strings
+type AuditLogEntryResponse = Omit<AuditLogEntry, "createdAt"> & { createdAt: string };
+
+const isoTimestamp = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+// Render a before/after value from the audit log for display; times are shown at the reservation's branch
+function formatValue(value: unknown, timeZone: string): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "string" && isoTimestamp.test(value)) {
+    return branchDateTime(value, timeZone).toFormat("MMM d, yyyy h:mm a");
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+// Staff-only drawer listing every recorded change to a reservation, oldest first
+export default function ReservationHistorySheet({
+  reservationId,
+  timeZone = DEFAULT_TIME_ZONE
+}: {
+  reservationId: number;
+  timeZone?: string;
+}) {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm">
+          <History className="w-4 h-4 mr-1" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Reservation #{reservationId} history</SheetTitle>
+          <SheetDescription>Who changed this booking, what changed and when.</SheetDescription>
+        </SheetHeader>
+        <HistoryEntries reservationId={reservationId} timeZone={timeZone} />
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// Rendered inside the sheet, so the history is only fetched once the drawer is opened
+function HistoryEntries({ reservationId, timeZone }: { reservationId: number; timeZone: string }) {
+  const { data: entries, isLoading, error } = useQuery<AuditLogEntryResponse[]>({
+    queryKey: [`/api/admin/audit-log/reservation/${reservationId}`]
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3 mt-6">
+        {[1, 2, 3].map((i) => <Skeleton key={i} className="h-20 w-full" />)}
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive mt-6">Failed to load the history of this reservation.</p>;
+  }
+
+  if (!entries || entries.length === 0) {
+    return <p className="text-sm text-muted-foreground mt-6">No changes have been recorded for this reservation.</p>;
+  }
+
+  return (
+    <ol className="space-y-4 mt-6">
+      {entries.map((entry) => (
+        <li key={entry.id} className="border rounded-md p-3">
+          <div className="flex items-center justify-between gap-2">
+            <Badge variant={entry.action === "created" ? "default" : "secondary"}>{entry.action.replace(/_/g, " ")}</Badge>
+            <span className="text-xs text-muted-foreground">
+              {branchDateTime(entry.createdAt, timeZone).toFormat("MMM d, yyyy h:mm:ss a")}
+            </span>
+          </div>
+          <p className="text-sm mt-2">{describeAuditActor(entry)}</p>
+          {entry.action !== "created" && (
+            <dl className="mt-2 space-y-1 text-xs">
+              {Object.entries(entry.changes).map(([field, change]) => (
+                <div key={field} className="grid grid-cols-3 gap-2">
+                  <dt className="font-medium">{field}</dt>
+                  <dd className="col-span-2 text-muted-foreground">
+                    {formatValue(change.from, timeZone)} → <span className="text-foreground">{formatValue(change.to, timeZone)}</span>
+                  </dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,240 @@
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { Loader2, MapPin, Sparkles, Users } from "lucide-react";
+import type { Room } from "@shared/schema";
+import { branchDateTime } from "@shared/time-zone";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest, rateLimitMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+// One entry of the response of POST /api/rooms/suggest
+type RoomSuggestion = {
+  room: Room;
+  locationName: string | null;
+  timeZone: string;
+  startTime: string;
+  endTime: string;
+  priceInCents: number;
+  capacitySlack: number;
+  minutesFromPreferred: number;
+};
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// "09:00" to "21:00", the times the search window can start or end at
+const timeOptions = Array.from({ length: 13 }, (_, i) => `${String(i + 9).padStart(2, "0")}:00`);
+
+// Half an hour only finds rooms booked in shorter slots or bills a whole slot in hourly rooms
+const durationOptions = [30, 60, 120, 180];
+
+const durationLabel = (minutes: number) =>
+  minutes < 60 ? `${minutes} minutes` : `${minutes / 60} ${minutes === 60 ? "hour" : "hours"}`;
+
+// Read the error message from a failed API response
+const errorMessage = (err: unknown) => {
+  const message = err instanceof Error ? err.message : "";
+  try {
+    const body = JSON.parse(message.replace(/^\d+: /, ""));
+    if (typeof body.error === "string") return body.error;
+  } catch {
+    // Not a JSON body
+  }
+  return "Something went wrong. Please try again.";
+};
+
+// Quick search above the room grid: describe the group and the time, get the best-fitting free rooms
+// at any branch, and book one with a single click
+export default function RoomFinder() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [partySize, setPartySize] = useState(2);
+  const [earliestStart, setEarliestStart] = useState("13:00");
+  const [latestEnd, setLatestEnd] = useState("17:00");
+  const [durationMinutes, setDurationMinutes] = useState(120);
+  const [features, setFeatures] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<RoomSuggestion[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [bookingRoomId, setBookingRoomId] = useState<number | null>(null);
+
+  // Every feature some room has, to pick the must-haves from
+  const { data: rooms = [] } = useQuery<Room[]>({ queryKey: ["/api/rooms"] });
+  const knownFeatures = useMemo(
+    () => Array.from(new Set(rooms.flatMap(room => room.features ?? []))).sort(),
+    [rooms]
+  );
+
+  const toggleFeature = (feature: string) =>
+    setFeatures(current => current.includes(feature) ? current.filter(f => f !== feature) : [...current, feature]);
+
+  const search = async () => {
+    setIsSearching(true);
+    try {
+      const response = await apiRequest("POST", "/api/rooms/suggest", {
+        date,
+        partySize,
+        features,
+        earliestStart,
+        latestEnd,
+        durationMinutes,
+      });
+      setSuggestions(await response.json());
+    } catch (err) {
+      toast({ title: "Search failed", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const book = async (suggestion: RoomSuggestion) => {
+    if (!user) {
+      setLocation("/auth");
+      return;
+    }
+
+    setBookingRoomId(suggestion.room.id);
+    try {
+      const response = await apiRequest("POST", "/api/reservations", {
+        roomId: suggestion.room.id,
+        startTime: suggestion.startTime,
+        endTime: suggestion.endTime,
+        purpose: "Study session",
+      });
+      const reservation = await response.json();
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/availability") });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reservations"] });
+
+      if (reservation.status === "confirmed") {
+        toast({
+          title: "Booking confirmed",
+          description: `${suggestion.room.name} is yours. Confirmation code: ${reservation.confirmationCode}`,
+        });
+        setSuggestions(null);
+        return;
+      }
+      setLocation(`/payment/${reservation.id}`);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 409) {
+        toast({ title: "Just taken", description: "Someone booked this room first. Here are the latest options.", variant: "destructive" });
+        await search();
+        return;
+      }
+      toast({ title: "Booking failed", description: rateLimitMessage(err) ?? errorMessage(err), variant: "destructive" });
+    } finally {
+      setBookingRoomId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-100 p-5 mb-8">
+      <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+        <Sparkles className="h-5 w-5 mr-2 text-blue-600" />
+        Find Me a Room
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <div className="flex flex-col">
+          <label className="text-sm font-medium text-gray-600 mb-2">Date</label>
+          <Input type="date" value={date} min={format(new Date(), "yyyy-MM-dd")} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium text-gray-600 mb-2">People</label>
+          <Input
+            type="number"
+            min={1}
+            value={partySize}
+            onChange={(e) => setPartySize(Math.max(1, parseInt(e.target.value) || 1))}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium text-gray-600 mb-2">From</label>
+          <Select value={earliestStart} onValueChange={setEarliestStart}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {timeOptions.slice(0, -1).map(time => <SelectItem key={time} value={time}>{time}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium text-gray-600 mb-2">Until</label>
+          <Select value={latestEnd} onValueChange={setLatestEnd}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {timeOptions.slice(1).map(time => <SelectItem key={time} value={time}>{time}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-col">
+          <label className="text-sm font-medium text-gray-600 mb-2">For</label>
+          <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(parseInt(value))}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {durationOptions.map(minutes => (
+                <SelectItem key={minutes} value={String(minutes)}>{durationLabel(minutes)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {knownFeatures.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-600">Must have:</span>
+          {knownFeatures.map(feature => (
+            <Badge
+              key={feature}
+              variant={features.includes(feature) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => toggleFeature(feature)}
+            >
+              {feature}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4">
+        <Button onClick={search} disabled={isSearching}>
+          {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : "Find rooms"}
+        </Button>
+      </div>
+
+      {suggestions && (
+        <div className="mt-5 space-y-3">
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-gray-600">No rooms are free for that long in this window. Try a wider window or a shorter booking.</p>
+          ) : suggestions.map(suggestion => {
+            const start = branchDateTime(suggestion.startTime, suggestion.timeZone);
+            const end = branchDateTime(suggestion.endTime, suggestion.timeZone);
+            return (
+              <div key={suggestion.room.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 rounded-md border border-gray-200 p-3">
+                <div>
+                  <div className="font-medium">{suggestion.room.name}</div>
+                  <div className="text-sm text-gray-500 flex flex-wrap items-center gap-3">
+                    {suggestion.locationName && (
+                      <span className="flex items-center"><MapPin className="h-3 w-3 mr-1" />{suggestion.locationName}</span>
+                    )}
+                    <span className="flex items-center"><Users className="h-3 w-3 mr-1" />Seats {suggestion.room.capacity}</span>
+                    <span>{start.toFormat("EEE, MMM d h:mm a")} – {end.toFormat("h:mm a")}</span>
+                    <span>{suggestion.priceInCents === 0 ? "Free" : formatCents(suggestion.priceInCents)}</span>
+                  </div>
+                </div>
+                <Button onClick={() => book(suggestion)} disabled={bookingRoomId !== null}>
+                  {bookingRoomId === suggestion.room.id ? <Loader2 className="h-4 w-4 animate-spin" /> : user ? "Book" : "Sign in to book"}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
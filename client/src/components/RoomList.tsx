@@ -5,11 +5,15 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { format, setHours, addHours, isSameDay, parseISO, differenceInHours } from "date-fns";
-import { Room as SchemaRoom, Reservation as SchemaReservation } from "@shared/schema";
+import { format, parseISO } from "date-fns";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { DateTime } from "luxon";
 import { useLocation } from "wouter";
+import { isFreeBetween, type BranchAvailability } from "@shared/availability";
+import { MAX_SERIES_OCCURRENCES } from "@shared/recurrence";
+import type { PriceQuote } from "@shared/pricing";
+import { formatRetryAfter } from "@/lib/queryClient";
+import { branchDateTime } from "@shared/time-zone";
+import { isBlackoutEvent, isReservationEvent, type ClientMessage, type ServerMessage } from "@shared/realtime";
 
 // Utility function to safely format dates
 const safeFormat = (date: Date | string | null | undefined, formatString: string): string => {
@@ -35,227 +39,128 @@ const safeFormat = (date: Date | string | null | undefined, formatString: string
   }
 };
 
-// Interface for room data with location string (for display)
-interface Room extends SchemaRoom {
-  location?: string; // Display location (branch + floor)
+// The grid's Dates hold wall-clock times at the branch (9am in the grid is 9am at the library,
+// whatever zone the browser is in). They are sent without an offset, which the server reads in the branch's zone.
+const formatBranchTime = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm:ss");
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// Itemized price from /api/rooms/:id/quote, shown in the booking dialog
+function PriceBreakdown({ quote, isLoading, perDate }: { quote?: PriceQuote; isLoading: boolean; perDate: boolean }) {
+  if (isLoading) {
+    return <div className="h-16 rounded-md bg-gray-100 animate-pulse" />;
+  }
+
+  if (!quote) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 rounded-md border border-gray-200 bg-gray-50 p-3 text-sm">
+      <h4 className="font-medium text-gray-700">Price{perDate ? " per date" : ""}</h4>
+      {quote.lineItems.map((item, index) => (
+        <div key={index} className="flex justify-between text-gray-600">
+          <span>
+            {item.label} ({formatDuration(item.hours * 60)} × {formatCents(item.unitPriceInCents)}/hour)
+          </span>
+          <span>{formatCents(item.amountInCents)}</span>
+        </div>
+      ))}
+      {quote.discount && (
+        <div className="flex justify-between text-green-700">
+          <span>{quote.discount.label} (−{quote.discount.percent}%)</span>
+          <span>−{formatCents(quote.discount.amountInCents)}</span>
+        </div>
+      )}
+      <div className="flex justify-between border-t border-gray-200 pt-2 font-semibold">
+        <span>Total</span>
+        <span>{quote.totalInCents === 0 ? "Free" : formatCents(quote.totalInCents)}</span>
+      </div>
+    </div>
+  );
 }
 
+// A room at the branch with its slots on the selected date
+type Room = BranchAvailability["rooms"][number];
+
 // Time slot representation for UI
 type TimeSlot = {
-  hour: number;
+  startMinutes: number; // after midnight at the branch
   isAvailable: boolean;
-  isWeekendClosed?: boolean; // Special flag for weekend closed hours
+  isClosed?: boolean; // Outside the branch's opening hours
+  isBuffer?: boolean; // Setup or cleanup time around a booking
+  blackoutReason?: string; // Set when the room is out of use for maintenance
 };
 
-// Client-side representation of reservation with parsed dates
-interface Reservation {
-  // Core ID and tracking fields
-  id: number;
-  roomId: number;
-  userId: number | null;
-  
-  // Guest information
-  guestName: string | null;
-  guestEmail: string | null;
-  
-  // Date and time fields
-  reservationDate: string; // ISO date string (DB format)
-  startTime: Date; // Parsed date object for UI manipulation
-  endTime: Date; // Parsed date object for UI manipulation
-  
-  // Reservation details
-  purpose: string | null;
-  status: string; // confirmed, cancelled, pending
-  confirmationCode: string | null;
-  notes: string | null;
-  
-  // Timestamps
-  createdAt: Date;
-  updatedAt: Date | null;
-  
-  // Client-side display properties
-  date: Date; // Parsed date object for the reservation date
-  userName?: string; // Display name (guest name or user name)
-  userEmail?: string; // Display email (guest email or user email)
-};
+// Longest booking that can be made from the grid
+const MAX_BOOKING_MINUTES = 120;
 
-// Sample room data - updated to match schema
-const roomsData: Room[] = [
-  {
-    id: 1,
-    name: "Group Study Room",
-    capacity: 12,
-    locationId: 1,
-    floor: 2,
-    roomNumber: "A201",
-    isActive: true,
-    createdAt: new Date(),
-    location: "South Boulevard - 2nd Floor", // Display location (not in schema)
-    features: ["Whiteboard", "TV with HDMI", "Conference Phone", "WiFi"],
-    description: "A large meeting room ideal for group study sessions and collaborative projects. The room includes a large table with 12 chairs, a wall-mounted TV for presentations, and a whiteboard."
-  },
-  {
-    id: 2,
-    name: "Study Room 1",
-    capacity: 5,
-    locationId: 1,
-    floor: 1,
-    roomNumber: "A101",
-    isActive: true,
-    createdAt: new Date(),
-    location: "South Boulevard - 1st Floor", // Display location (not in schema)
-    features: ["Whiteboard", "WiFi", "Standing Desk"],
-    description: "Medium-sized room suitable for small group discussions. Includes a round table with 5 chairs and a wall-mounted whiteboard."
-  },
-  {
-    id: 3,
-    name: "Study Room 2",
-    capacity: 5,
-    locationId: 1,
-    floor: 1,
-    roomNumber: "A102",
-    isActive: true,
-    createdAt: new Date(),
-    location: "South Boulevard - 1st Floor", // Display location (not in schema)
-    features: ["Whiteboard", "WiFi", "Power Outlets"],
-    description: "Medium-sized room suitable for small group discussions. Includes a round table with 5 chairs and a wall-mounted whiteboard."
-  },
-  {
-    id: 4,
-    name: "Study Room 3",
-    capacity: 2,
-    locationId: 1,
-    floor: 1,
-    roomNumber: "Q101",
-    isActive: true,
-    createdAt: new Date(),
-    location: "South Boulevard - Quiet Zone", // Display location (not in schema)
-    features: ["Small Desk", "WiFi", "Quiet Area"],
-    description: "A small, quiet room ideal for individual or paired study sessions. Includes a small desk with 2 chairs."
-  },
-  {
-    id: 5,
-    name: "Study Room 4",
-    capacity: 2,
-    locationId: 1,
-    floor: 1,
-    roomNumber: "Q102",
-    isActive: true,
-    createdAt: new Date(),
-    location: "South Boulevard - Quiet Zone", // Display location (not in schema)
-    features: ["Small Desk", "WiFi", "Quiet Area"],
-    description: "A small, quiet room ideal for individual or paired study sessions. Includes a small desk with 2 chairs."
-  },
-  {
-    id: 6,
-    name: "Study Room 5",
-    capacity: 2,
-    locationId: 1,
-    floor: 1,
-    roomNumber: "Q103",
-    isActive: true,
-    createdAt: new Date(),
-    location: "South Boulevard - Quiet Zone", // Display location (not in schema)
-    features: ["Small Desk", "WiFi", "Quiet Area", "Window View"],
-    description: "A small, quiet room ideal for individual or paired study sessions. Includes a small desk with 2 chairs and a nice window view."
-  }
-];
+// A grid Date for a number of minutes after midnight on `date`
+const atMinutes = (date: Date, minutes: number) => {
+  const result = new Date(date);
+  result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return result;
+};
 
-// Sample reservations (would typically come from API/database)
-const initialReservations: Reservation[] = [
-  {
-    id: 1,
-    roomId: 1,
-    userId: null,
-    guestName: "John Smith",
-    guestEmail: "john@example.com",
-    reservationDate: "2025-04-07", // ISO format for DB
-    startTime: setHours(new Date(2025, 3, 7), 14), // 2pm
-    endTime: setHours(new Date(2025, 3, 7), 20), // 8pm
-    purpose: "Study Group",
-    status: "confirmed",
-    confirmationCode: "LIB-123456",
-    notes: null,
-    createdAt: new Date(),
-    updatedAt: null,
-    // Client-side properties for UI
-    date: new Date(2025, 3, 7),
-    userName: "John Smith",
-    userEmail: "john@example.com"
-  },
-  {
-    id: 2,
-    roomId: 2,
-    userId: null,
-    guestName: "Sarah Johnson",
-    guestEmail: "sarah@example.com",
-    reservationDate: "2025-04-07", // ISO format for DB
-    startTime: setHours(new Date(2025, 3, 7), 14),
-    endTime: setHours(new Date(2025, 3, 7), 20),
-    purpose: "Research",
-    status: "confirmed",
-    confirmationCode: "LIB-789012",
-    notes: null,
-    createdAt: new Date(),
-    updatedAt: null,
-    // Client-side properties for UI
-    date: new Date(2025, 3, 7),
-    userName: "Sarah Johnson", 
-    userEmail: "sarah@example.com"
-  }
-];
+// "30 minutes", "1 hour", "1 hour 30 minutes"
+const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const parts = [
+    hours > 0 && `${hours} ${hours === 1 ? "hour" : "hours"}`,
+    minutes % 60 > 0 && `${minutes % 60} minutes`
+  ];
+  return parts.filter(Boolean).join(" ");
+};
 
 // Define props for RoomList component
 interface RoomListProps {
   selectedDate: Date;
   capacityFilter: string;
+  gridHours: number[]; // Hours shown as columns in the grid
+  locationId: number; // The branch whose rooms are listed
+  timeZone: string; // The branch's zone; the grid shows its local times
 }
 
-  export default function RoomList({ selectedDate, capacityFilter }: RoomListProps) {
+  export default function RoomList({ selectedDate, capacityFilter, gridHours, locationId, timeZone }: RoomListProps) {
   const { toast } = useToast();
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
-  const [selectedTimeSlot, setSelectedTimeSlot] = useState<number | null>(null);
-  const [selectedDuration, setSelectedDuration] = useState<number>(1);
+  // Start of the booking in minutes after midnight at the branch, and its length in minutes
+  const [selectedStartMinutes, setSelectedStartMinutes] = useState<number | null>(null);
+  const [selectedDurationMinutes, setSelectedDurationMinutes] = useState<number>(60);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isRoomInfoOpen, setIsRoomInfoOpen] = useState(false);
   const [isConfirmationOpen, setIsConfirmationOpen] = useState(false);
+  // The booking shown in the confirmation dialog; guest bookings wait for email confirmation
+  const [bookedReservation, setBookedReservation] = useState<{ confirmationCode: string | null; status: string | null; verificationExpiresInMinutes?: number } | null>(null);
   const [userName, setUserName] = useState(user ? (user.name || user.username) : "");
   const [userEmail, setUserEmail] = useState(user ? (user.email || "") : "");
   const [purpose, setPurpose] = useState("");
-  const [localDate, setLocalDate] = useState(new Date(selectedDate));
+  const [repeatFrequency, setRepeatFrequency] = useState<"NONE" | "DAILY" | "WEEKLY" | "MONTHLY">("NONE");
+  const [repeatCount, setRepeatCount] = useState(4);
+  // Occurrences the server could not book on the last recurring booking attempt
+  const [seriesConflicts, setSeriesConflicts] = useState<{ reservationDate: string; reason?: string }[]>([]);
   const [, setLocation] = useLocation(); // The first element is current path, second is navigate function
 
-  // Check if selectedDate is valid early
-  useEffect(() => {
-    // Step 4 console logs
-    console.log('RoomList initializing with selectedDate:', selectedDate);
-    console.log('RoomList selectedDate type:', Object.prototype.toString.call(selectedDate));
-    console.log('RoomList selectedDate valid?', selectedDate instanceof Date && !isNaN(selectedDate.getTime()));
-    
-    if (!(selectedDate instanceof Date) || isNaN(selectedDate.getTime())) {
-      console.error('Invalid selectedDate provided to RoomList component:', selectedDate);
-      // Use current date as fallback
-      const today = new Date();
-      console.log('Using today as fallback:', today);
-      setLocalDate(today);
-    } else {
-      // Clone the date to avoid reference issues
-      setLocalDate(new Date(selectedDate));
-    }
-  }, [selectedDate]);
+  // Price of the slot being booked, recalculated as the duration changes
+  const priceQuoteUrl = useMemo(() => {
+    if (!selectedRoom || selectedStartMinutes === null) return null;
+    const start = atMinutes(selectedDate, selectedStartMinutes);
+    const end = atMinutes(selectedDate, selectedStartMinutes + selectedDurationMinutes);
+    const params = new URLSearchParams({ startTime: formatBranchTime(start), endTime: formatBranchTime(end) });
+    return `/api/rooms/${selectedRoom.id}/quote?${params}`;
+  }, [selectedRoom, selectedStartMinutes, selectedDurationMinutes, selectedDate]);
+
+  const { data: priceQuote, isLoading: isLoadingPriceQuote } = useQuery<PriceQuote>({
+    queryKey: [priceQuoteUrl],
+    enabled: isModalOpen && priceQuoteUrl !== null,
+  });
+
+  const formattedDate = selectedDate instanceof Date && !isNaN(selectedDate.getTime())
+    ? format(selectedDate, 'yyyy-MM-dd')
+    : format(new Date(), 'yyyy-MM-dd'); // Use today as fallback
 
-  // Define this at the very top of the component, right after the RoomList function declaration
-  function generateSlotId(roomId: number, hour: number, dateObject: Date) {
-    const dateStr = format(dateObject, 'yyyyMMdd'); 
-    const paddedRoomId = roomId.toString().padStart(2, '0');
-    const paddedHour = hour.toString().padStart(2, '0');
-    console.log(`Generated slot ID for room ${roomId}, hour ${hour}, date ${dateStr}: ${paddedRoomId}${paddedHour}${dateStr}`);
-    return `${paddedRoomId}${paddedHour}${dateStr}`;
-  }
-  
-  // Add local date state that can be used to force re-renders
   const websocketRef = useRef<WebSocket | null>(null);
   
   // Update user info when user changes (logs in/out)
@@ -268,123 +173,36 @@ interface RoomListProps {
       setUserEmail("");
     }
   }, [user]);
-  
-  // Transform raw API data into client-side reservation objects
-  const transformReservations = useCallback((data: any[]): Reservation[] => {
-    console.log("Raw data from API:", JSON.stringify(data));
-
-    return data.map((res: any) => {
-      console.log(`Processing reservation #${res.id}, roomId=${res.roomId}, status=${res.status || 'confirmed'}`);
-
-      try {
-        console.log("🔍 Raw incoming startTime from API:", res.startTime);
-
-        // Fix to force reservation date to local noon so it never shifts backward
-        const resDate = DateTime.fromISO(res.reservationDate).toJSDate();
-        const startTime = DateTime.fromISO(res.startTime, { zone: 'utc' }).setZone('America/New_York').toJSDate();
-        const endTime = DateTime.fromISO(res.endTime, { zone: 'utc' }).setZone('America/New_York').toJSDate();
-
-        const reservation: Reservation = {
-          id: res.id,
-          roomId: res.roomId,
-          userId: res.userId || null,
-          guestName: res.guestName || null,
-          guestEmail: res.guestEmail || null,
-          reservationDate: res.reservationDate,
-          startTime,
-          endTime,
-          purpose: res.purpose || 'Reservation',
-          status: res.status || 'confirmed',
-          confirmationCode: res.confirmationCode || null,
-          notes: res.notes || null,
-          createdAt: res.createdAt ? new Date(res.createdAt) : new Date(),
-          updatedAt: res.updatedAt ? new Date(res.updatedAt) : null,
-          date: resDate,
-          userName: res.userId ? (res.userName || 'User') : res.guestName,
-          userEmail: res.userId ? (res.userEmail || '') : res.guestEmail
-        };
-
-        console.log(`Processed reservation #${reservation.id}:`, {
-          roomId: reservation.roomId,
-          date: format(reservation.date, 'yyyy-MM-dd'),
-          time: `${safeFormat(reservation.startTime, 'HH:mm')}-${safeFormat(reservation.endTime, 'HH:mm')}`,
-          status: reservation.status
-        });
-
-        return reservation;
-      } catch (error) {
-        console.error(`Error processing reservation data:`, error, res);
-        return {
-          ...res,
-          startTime: new Date(res.startTime || Date.now()),
-          endTime: new Date(res.endTime || Date.now()),
-          date: new Date(res.reservationDate || Date.now()),
-          status: res.status || 'confirmed',
-        } as Reservation;
-      }
-    });
-  }, []);
-  
-  // Fetch reservations for the selected date using React Query
-  const formattedDate = selectedDate instanceof Date && !isNaN(selectedDate.getTime()) 
-    ? format(selectedDate, 'yyyy-MM-dd')
-    : format(new Date(), 'yyyy-MM-dd'); // Use today as fallback
-
-  const reservationsQuery = useQuery({
-    queryKey: ['/api/reservations/by-date', formattedDate],
-    queryFn: async () => {
-      console.log(`Fetching reservations for date: ${formattedDate}`);
-      const response = await fetch(`/api/reservations/by-date/${formattedDate}`);
-
-      if (!response.ok) {
-        console.error(`Error response from server: ${response.status} ${response.statusText}`);
-        throw new Error('Failed to fetch reservations');
-      }
 
-      const data = await response.json();
-      console.log('Reservations data received:', data);
-      return data;
-    },
-    select: transformReservations,
+  // Free, busy and closed slots for every room at the branch, worked out by the server
+  const availabilityUrl = `/api/availability?${new URLSearchParams({ date: formattedDate, locationId: String(locationId) })}`;
+  const availabilityQuery = useQuery<BranchAvailability>({
+    queryKey: [availabilityUrl],
     staleTime: 0, // Consider data always stale to force refresh when returning
     refetchOnMount: true, // Always refetch when component mounts
     refetchOnWindowFocus: true, // Refetch when window gets focus (returning from another tab/page)
   });
 
-  useEffect(() => {
-    if (reservationsQuery.isSuccess && reservationsQuery.data) {
-      console.log("✅ New reservation data fetched, triggering availability map rebuild");
-      console.log("📦 Received reservations from API:", reservationsQuery.data);
-      setLocalDate(new Date()); // <- this forces a re-render
-    }
-  }, [reservationsQuery.data]);
-  
-  // Handle errors from the query
-  if (reservationsQuery.error) {
-    console.error('Error in reservations query:', reservationsQuery.error);
-    toast({
-      title: "Error",
-      description: "Failed to load room reservations",
-      variant: "destructive"
-    });
-  }
+  // Reload the grid for every date, after this patron or anyone else changes a booking
+  const refreshAvailability = useCallback(() => queryClient.invalidateQueries({
+    predicate: query => String(query.queryKey[0]).startsWith('/api/availability')
+  }), [queryClient]);
 
-  // Step 4: Refetch reservations every time the selected date changes
   useEffect(() => {
-    if (!(selectedDate instanceof Date) || isNaN(selectedDate.getTime())) {
-      console.warn("Step 4: selectedDate is invalid, skipping reservation refetch.");
-      return;
+    if (availabilityQuery.error) {
+      console.error('Error in availability query:', availabilityQuery.error);
+      toast({
+        title: "Error",
+        description: "Failed to load room availability",
+        variant: "destructive"
+      });
     }
+  }, [availabilityQuery.error]);
 
-    console.log("Step 4: selectedDate changed — triggering reservation refetch");
-    reservationsQuery.refetch();
-  }, [selectedDate, reservationsQuery]);
-  
-  // Extract reservations from query result
-  const reservations = reservationsQuery.data || [];
+  const rooms: Room[] = availabilityQuery.data?.rooms ?? [];
 
   // Filter rooms based on selected capacity
-  const filteredRooms = roomsData.filter((room) => {
+  const filteredRooms = rooms.filter((room) => {
     switch (capacityFilter) {
       case "1-4":
         return room.capacity <= 4;
@@ -398,56 +216,8 @@ interface RoomListProps {
     }
   });
   
-  // Function to mark a reservation in the availability map
-  const markReservationSlots = useCallback((reservation: any, force = false) => {
-    const resDate = new Date(reservation.reservationDate);
-    const startTime = new Date(reservation.startTime);
-    const endTime = new Date(reservation.endTime);
-    
-    // Only process if it's for the selected date
-    if (!isSameDay(resDate, selectedDate) && !force) {
-      return false;
-    }
-    
-    // Skip if the reservation is not confirmed (pending_payment, etc)
-    if (reservation.status !== 'confirmed') {
-      console.log(`Skipping marking slots for reservation #${reservation.id} because status is ${reservation.status}`);
-      return false;
-    }
-    
-    // Get hours for this reservation
-    const startHour = startTime.getHours();
-    const endHour = endTime.getHours();
-    const roomId = reservation.roomId;
-    
-    // Generate a list of slots that are now occupied
-    const occupiedSlots = [];
-    for (let hour = startHour; hour < endHour; hour++) {
-      // Generate unique ID for this slot
-      const dateStr = format(selectedDate, 'yyyyMMdd');
-      const paddedRoomId = roomId.toString().padStart(2, '0');
-      const paddedHour = hour.toString().padStart(2, '0');
-      const slotId = generateSlotId(roomId, hour, selectedDate);
-
-      // ✅ STEP 1 log: show which slot this reservation is blocking
-      console.log(`⛔ Marking slot ${slotId} as unavailable due to reservation ${reservation.id}`);
-
-      occupiedSlots.push(slotId);
-    }
-    
-    // Log the occupied slots
-    if (occupiedSlots.length > 0) {
-      console.log(`Marking following slots as occupied from reservation #${reservation.id}:`, occupiedSlots);
-      return true;
-    }
-    
-    return false;
-  }, [selectedDate]);
-  
   // Setup WebSocket connection with proper dependencies and cleanup
   useEffect(() => {
-    console.log("Setting up WebSocket connection with localDate:", format(localDate, 'yyyy-MM-dd'));
-    
     // Create WebSocket connection
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
@@ -464,86 +234,41 @@ interface RoomListProps {
     // Define all event handlers as named functions so they can be properly removed
     const handleOpen = () => {
       console.log('WebSocket connection established');
+      // Follow the branch's grid on the date being shown; the server only sends events for it
+      const subscribe: ClientMessage = { type: 'subscribe', topic: { kind: 'location', locationId, date: formattedDate } };
+      socket.send(JSON.stringify(subscribe));
     };
     
     const handleMessage = (event: MessageEvent) => {
       try {
-        const message = JSON.parse(event.data);
-        console.log('WebSocket message received:', message);
-        
-        // Use the current localDate value for all operations to ensure consistency
-        const formattedDate = format(localDate, 'yyyy-MM-dd');
-        
-        // Handle different message types
-        if (message.type === 'new_reservation') {
-          // Get reservation data from the message
-          const reservation = message.data;
-          const reservationDate = new Date(reservation.reservationDate);
-          
-          // If this reservation is for the selected date, update our data
-          if (isSameDay(reservationDate, localDate)) {
-            console.log('WebSocket received new reservation for selected date:', reservation);
-            
-            // First update the query cache with the new reservation
-            queryClient.setQueryData(
-              ['/api/reservations/by-date', formattedDate],
-              (oldData: any[] | undefined) => {
-                if (!oldData) return [reservation];
-                
-                // Add the new reservation if it's not already there
-                const exists = oldData.some(r => r.id === reservation.id);
-                if (!exists) {
-                  console.log(`Adding reservation #${reservation.id} to cache`);
-                  return [...oldData, reservation];
-                }
-                return oldData;
-              }
-            );
-            
-            // Then immediately invalidate to force a refetch
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/reservations/by-date', formattedDate] 
-            });
-            
-            // Only mark slots and show toast for confirmed reservations
-            if (reservation.status === 'confirmed') {
-              // Mark this reservation's slots
-              const slotsChanged = markReservationSlots(reservation);
-              
-              // Show toast notification
-              toast({
-                title: "New Reservation",
-                description: `Room ${reservation.roomId} has been reserved`,
-              });
-              
-              // Force a refresh if slots were changed
-              if (slotsChanged) {
-                // Force component to re-render immediately
-                setLocalDate(new Date(localDate));
-              }
-            } else {
-              console.log(`Not showing notification for reservation #${reservation.id} with status ${reservation.status}`);
-            }
-          }
+        const message: ServerMessage = JSON.parse(event.data);
+        if (message.type === 'error') {
+          console.error('WebSocket error message:', message.error);
+          return;
+        }
+        if (!isReservationEvent(message) && !isBlackoutEvent(message)) return;
+
+        // Any change to a booking or blackout can free or fill slots, so the grid is reloaded from the server
+        refreshAvailability();
+        if (!isReservationEvent(message)) return;
+
+        const reservation = message.data;
+        if (message.type === 'new_reservation' && reservation.status === 'confirmed') {
+          toast({
+            title: "New Reservation",
+            description: `Room ${reservation.roomId} has been reserved`,
+          });
         } else if (message.type === 'cancelled_reservation') {
-          // Similar handling for cancelled reservations
-          const reservation = message.data;
-          const reservationDate = new Date(reservation.reservationDate);
-          
-          if (isSameDay(reservationDate, localDate)) {
-            // Invalidate the query for the selected date
-            queryClient.invalidateQueries({ 
-              queryKey: ['/api/reservations/by-date', formattedDate] 
-            });
-            
-            // Force a refresh immediately
-            setLocalDate(new Date(localDate));
-            
-            toast({
-              title: "Reservation Cancelled",
-              description: `A reservation for Room ${reservation.roomId} has been cancelled`,
-            });
-          }
+          // Expired holds were never shown as booked, so only cancellations and no-shows are announced
+          toast({
+            title: "Reservation Cancelled",
+            description: `A reservation for Room ${reservation.roomId} has been cancelled`,
+          });
+        } else if (message.type === 'no_show_reservation') {
+          toast({
+            title: "Room Available",
+            description: `Nobody checked in to Room ${reservation.roomId}, so it can be booked for the rest of the slot`,
+          });
         }
       } catch (error) {
         console.error('Error parsing WebSocket message:', error);
@@ -566,7 +291,6 @@ interface RoomListProps {
     
     // Cleanup on unmount or when dependencies change
     return () => {
-      console.log('Cleaning up WebSocket connection');
       // Remove all event listeners to prevent memory leaks
       socket.removeEventListener('open', handleOpen);
       socket.removeEventListener('message', handleMessage);
@@ -575,157 +299,41 @@ interface RoomListProps {
       
       // Close the connection
       if (socket.readyState === WebSocket.OPEN) {
-        console.log('Closing WebSocket connection during cleanup');
         socket.close();
       }
     };
-  }, [localDate, queryClient, toast, markReservationSlots]);
-
-  // Add this after your other useEffects - usually around line 300-350
-  useEffect(() => {
-    // This will run when the component mounts or when you return to this page
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        // Page is now visible (user returned to this tab)
-        console.log('Page visible, refreshing reservations');
-        reservationsQuery.refetch();
-      }
-    };
-
-    // Listen for visibility changes
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-
-    // Refresh on initial mount too
-    reservationsQuery.refetch();
-
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [reservationsQuery]);
-  
-  // Create a direct room+timeslot mapping for each reservation
-  console.log("⏳ Rebuilding availability map for selectedDate:", selectedDate, "with", reservations.length, "reservations");
-  console.log("📦 Received reservations from API in RoomList:", reservations);
-  const buildAvailabilityMap = useMemo(() => {
-    // Create map to hold all availability data: Map<UniqueSlotId, boolean>
-    const availabilityMap = new Map<string, boolean>();
-
-    // ✅ STEP 1 DEBUG
-    console.log("✅ availabilityMap useMemo is running");
-    
-    // Pre-populate all slots as available (except weekend after hours)
-    const selectedDateStr = format(selectedDate, 'yyyyMMdd');
-    for (const room of roomsData) {
-      for (let hour = 9; hour <= 20; hour++) {
-        const isWeekend = [0, 6].includes(selectedDate.getDay());
-        const isAfterWeekendHours = isWeekend && hour >= 17;
-        
-        // Generate a unique ID for this slot
-        const slotId = generateSlotId(room.id, hour, selectedDate);
-        
-        // Mark as available unless it's after hours on weekend
-        availabilityMap.set(slotId, !isAfterWeekendHours);
-      }
-    }
-
-    console.log("📅 Building availability map with the following reservations:");
-    reservations.forEach(r => {
-      console.log(`- Reservation #${r.id}: Room ${r.roomId}, ${format(r.startTime, 'HH:mm')}–${format(r.endTime, 'HH:mm')}, Status: ${r.status}, Date: ${r.reservationDate}`);
-    });
-        
-    // Mark booked slots as unavailable
-    console.log(`Marking reserved slots from ${reservations.length} reservations`);
-    for (const reservation of reservations) {
-      if (reservation.status === 'cancelled' || reservation.status === 'pending_payment') {
-        console.log(`⏭ Skipping ${reservation.status} reservation #${reservation.id}`);
-        continue;
-      }
-
-      // Only mark confirmed reservations as unavailable
-      if (reservation.status !== 'confirmed') {
-        console.log(`⏭ Skipping reservation #${reservation.id} with status ${reservation.status}`);
-        continue;
-      }
-      
-      const resDate = reservation.date || new Date(reservation.reservationDate);
-      if (!isSameDay(resDate, selectedDate)) {
-        console.log(`⏭ Skipping reservation #${reservation.id} — date mismatch:`, format(resDate, 'yyyy-MM-dd'), 'vs', format(selectedDate, 'yyyy-MM-dd'));
-        continue;
-      }
-
-      const startTime = typeof reservation.startTime === 'string'
-        ? new Date(reservation.startTime)
-        : reservation.startTime;
-
-      const endTime = typeof reservation.endTime === 'string'
-        ? new Date(reservation.endTime)
-        : reservation.endTime;
-
-      const startHour = startTime.getHours();
-      const endHour = endTime.getHours();
-
-      console.log(`⛔ Reservation #${reservation.id} blocking room ${reservation.roomId} from ${startHour} to ${endHour}`);
-
-      for (let hour = startHour; hour < endHour; hour++) {
-        const slotId = generateSlotId(reservation.roomId, hour, selectedDate);
-        availabilityMap.set(slotId, false);
-        console.log(`❌ Marked slot ${slotId} as unavailable`);
-      }
+  }, [formattedDate, locationId, refreshAvailability, toast]);
+
+  // Lengths the selected booking can run for: whole slots of the room, as long as it stays free
+  const availableDurations = (room: Room | null, startMinutes: number | null) => {
+    if (!room || startMinutes === null) return [];
+    const durations: number[] = [];
+    for (let minutes = room.slotMinutes; minutes <= MAX_BOOKING_MINUTES; minutes += room.slotMinutes) {
+      if (!isFreeBetween(room.slots, startMinutes, startMinutes + minutes, room.slotMinutes)) break;
+      durations.push(minutes);
     }
-
-    // ✅ Add this here:
-    console.log('✅ Final availability map:', Array.from(availabilityMap.entries()));
-    
-    return {
-      // Check if a slot is available
-      isSlotAvailable: (roomId: number, hour: number) => {
-        const slotId = generateSlotId(roomId, hour, selectedDate);
-        return availabilityMap.get(slotId) || false;
-      },
-      // Debug function to get all unavailable slots
-      getUnavailableSlots: () => {
-        return Array.from(availabilityMap.entries())
-          .filter(([_, isAvailable]) => !isAvailable)
-          .map(([slotId]) => slotId);
-      }
-    };
-  }, [reservations, selectedDate, roomsData]);
-  
-  // Simplified availability check function that considers both our map and manual overrides
-  const isTimeSlotAvailable = (roomId: number, hour: number) => {
-    return buildAvailabilityMap.isSlotAvailable(roomId, hour);
+    return durations;
   };
   
-  // Generate schedule for each room
-  const getRoomSchedule = (roomId: number) => {
-    // Create array of time slots from 9am to 8pm
-    const timeSlots: TimeSlot[] = [];
-    
-    // Start at 9am (9:00) and go until 8pm (20:00)
-    for (let hour = 9; hour <= 20; hour++) {
-      // Check if it's a weekend and time is after 5pm - library closes earlier on weekends
-      const isWeekend = [0, 6].includes(selectedDate.getDay()); // 0 = Sunday, 6 = Saturday
-      const isAfterWeekendHours = isWeekend && hour >= 17; // 5pm and later on weekends
-      
-      // Get availability from our pre-computed map
-      const isAvailable = buildAvailabilityMap.isSlotAvailable(roomId, hour) && !isAfterWeekendHours;
-      
-      timeSlots.push({
-        hour,
-        isAvailable
-      });
-
-      // ⬇️ THIS is where to add your log
-      console.log(`Rendering room ${roomId}, hour ${hour}, available: ${isAvailable}`);
-    }
-    
-    // Log all unavailable slots for debugging
-    console.log("All unavailable slots:", buildAvailabilityMap.getUnavailableSlots());
-    
-    return timeSlots;
-  };
+  // The cells of each hour column: one for rooms booked by the hour, more for rooms with shorter slots.
+  // Times the server sent no slot for can't be booked.
+  const getRoomSchedule = (room: Room): TimeSlot[][] =>
+    gridHours.map(hour =>
+      Array.from({ length: Math.max(1, Math.floor(60 / room.slotMinutes)) }, (_, i) => {
+        const startMinutes = hour * 60 + i * room.slotMinutes;
+        const slot = room.slots.find(s => s.startMinutes === startMinutes);
+        return {
+          startMinutes,
+          isAvailable: slot?.status === 'free',
+          isClosed: !slot || slot.status === 'closed',
+          isBuffer: slot?.status === 'buffer',
+          blackoutReason: slot?.status === 'blackout' ? slot.reason ?? "Maintenance" : undefined
+        };
+      })
+    );
+  
   
-  const handleTimeSlotClick = (roomId: number, hour: number, isAvailable: boolean, event: React.MouseEvent) => {
+  const handleTimeSlotClick = (roomId: number, startMinutes: number, isAvailable: boolean, event: React.MouseEvent) => {
     if (!isAvailable) {
       toast({
         title: "Time slot not available",
@@ -738,17 +346,20 @@ interface RoomListProps {
     // Get the clicked element to update it later
     const clickedCell = event.currentTarget;
 
-    const room = roomsData.find(r => r.id === roomId);
+    const room = rooms.find(r => r.id === roomId);
     if (room) {
       setSelectedRoom(room);
-      setSelectedTimeSlot(hour);
-      setSelectedDuration(1); // Default to 1 hour
+      setSelectedStartMinutes(startMinutes);
+      // An hour by default, or a single slot for rooms booked in shorter slots
+      setSelectedDurationMinutes(room.slotMinutes < 60 ? room.slotMinutes : 60);
+      setRepeatFrequency("NONE");
+      setSeriesConflicts([]);
       setIsModalOpen(true);
     }
   };
   
   const handleRoomInfoClick = (roomId: number) => {
-    const room = roomsData.find(r => r.id === roomId);
+    const room = rooms.find(r => r.id === roomId);
     if (room) {
       setSelectedRoom(room);
       setIsRoomInfoOpen(true);
@@ -756,7 +367,7 @@ interface RoomListProps {
   };
   
   const handleBookingSubmit = async () => {
-    if (!selectedRoom || selectedTimeSlot === null) return;
+    if (!selectedRoom || selectedStartMinutes === null) return;
 
     if (!userName || !userEmail) {
       toast({
@@ -793,7 +404,7 @@ interface RoomListProps {
       return;
     }
 
-    startDate.setHours(selectedTimeSlot, 0, 0, 0);
+    startDate.setHours(Math.floor(selectedStartMinutes / 60), selectedStartMinutes % 60, 0, 0);
 
     const endDate = new Date(selectedDate);
 
@@ -808,43 +419,38 @@ interface RoomListProps {
       return;
     }
 
-    endDate.setHours(selectedTimeSlot + selectedDuration, 0, 0, 0);
+    const endMinutes = selectedStartMinutes + selectedDurationMinutes;
+    endDate.setHours(Math.floor(endMinutes / 60), endMinutes % 60, 0, 0);
 
     // Log the dates for debugging
     console.log("Booking dates:", {
       selectedDate: selectedDate,
       startDate: startDate,
       endDate: endDate,
-      startHour: selectedTimeSlot,
-      endHour: selectedTimeSlot + selectedDuration
+      startMinutes: selectedStartMinutes,
+      endMinutes
     });
     
-    const startHour = selectedTimeSlot;
-    const endHour = selectedTimeSlot + selectedDuration;
-    
     try {
-      // Format Date as ISO string in EST/EDT (America/New_York)
-      const formatEST = (date: Date) =>
-        date.toLocaleString('sv-SE', { timeZone: 'America/New_York', hour12: false }).replace(' ', 'T');
+      if (repeatFrequency !== "NONE") {
+        await submitSeriesBooking(formatBranchTime(startDate), formatBranchTime(endDate));
+        return;
+      }
 
       // Create reservation data with validated dates
       const reservationData = {
         roomId: selectedRoom.id,
         // Format dates as strings for API compatibility with validation
         reservationDate: safeFormat(selectedDate, 'yyyy-MM-dd'),
-        startTime: formatEST(startDate), // ⬅️ EST
-        endTime: formatEST(endDate),     // ⬅️ EST
+        startTime: formatBranchTime(startDate), // wall-clock time at the branch
+        endTime: formatBranchTime(endDate),
         purpose: purpose || "Study session",
         guestName: userName,
-        guestEmail: userEmail,
-        status: "pending_payment", // Set initial status to pending payment
-        // Calculate price in cents based on duration: $5 per hour
-        priceInCents: selectedDuration * 500, // $5 per hour in cents
-        confirmationCode: `LIB-${Math.floor(100000 + Math.random() * 900000)}`
+        guestEmail: userEmail
       };
 
-      // Call the API to create reservation
-      const response = await fetch('/api/reservations', {
+      // Call the API to create reservation; visitors who aren't signed in book as guests
+      const response = await fetch(user ? '/api/reservations' : '/api/guest/reservations', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -853,6 +459,59 @@ interface RoomListProps {
         credentials: 'include' // Include auth cookies
       });
 
+      // Someone else booked an overlapping time first
+      if (response.status === 409) {
+        const { conflict } = await response.json();
+        const clashStart = branchDateTime(conflict.startTime, timeZone);
+        const clashEnd = branchDateTime(conflict.endTime, timeZone);
+
+        toast({
+          title: "Time slot no longer available",
+          description: `This room is already reserved from ${clashStart.toFormat('h:mm a')} to ${clashEnd.toFormat('h:mm a')}. Please choose another time.`,
+          variant: "destructive"
+        });
+
+        setIsModalOpen(false);
+        await refreshAvailability();
+        return;
+      }
+
+      // The patron has used up one of their booking quotas
+      if (response.status === 422) {
+        const { error } = await response.json();
+        toast({
+          title: "Booking limit reached",
+          description: error,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Too many booking requests in a short time
+      if (response.status === 429) {
+        const { error } = await response.json().catch(() => ({ error: "Too many booking requests" }));
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        toast({
+          title: "Please slow down",
+          description: retryAfter > 0 ? `${error}. ${formatRetryAfter(retryAfter)}` : `${error}.`,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Paid rooms need a confirmed email address first
+      if (response.status === 403) {
+        const { error, code } = await response.json().catch(() => ({}));
+        if (code === 'email_unverified') {
+          toast({
+            title: "Please confirm your email",
+            description: `${error}. You can resend the confirmation email from your profile.`,
+            variant: "destructive"
+          });
+          return;
+        }
+      }
+
       if (!response.ok) {
         throw new Error('Failed to create reservation');
       }
@@ -866,54 +525,19 @@ interface RoomListProps {
         throw new Error("Invalid reservation response format");
       }
 
-      // Map the API response to a client-side reservation with validated dates
-      const clientReservation: Reservation = {
-        // Include all fields from the server response
-        ...newReservation,
-        // Override with properly parsed dates
-        reservationDate: safeFormat(selectedDate, 'yyyy-MM-dd'), // ISO format string for DB
-        startTime: startDate, // Date object for UI manipulation
-        endTime: endDate, // Date object for UI manipulation
-        // Make sure we have the right userId (for logged in users) or guest info
-        userId: user?.id || null,
-        guestName: user ? null : userName,
-        guestEmail: user ? null : userEmail,
-        // Status should always be "confirmed" for new reservations
-        status: "confirmed",
-        // Set creation timestamp if not provided by server
-        createdAt: newReservation.createdAt ? new Date(newReservation.createdAt) : new Date(),
-        updatedAt: newReservation.updatedAt ? new Date(newReservation.updatedAt) : null,
-        // Add client-side display properties
-        date: selectedDate, // Parsed date for UI (backward compatibility)
-        userName, // Display name for UI
-        userEmail // Display email for UI
-      };
-
-      // Update the query cache with the new reservation data
-      queryClient.setQueryData(
-        ['/api/reservations/by-date', formattedDate],
-        (oldData: any[] | undefined) => {
-          if (!oldData) return [newReservation];
-          return [...oldData, newReservation];
-        }
-      );
-
-      // Also invalidate the query to ensure it will be refetched next time
-      queryClient.invalidateQueries({ 
-        queryKey: ['/api/reservations/by-date', formattedDate] 
-      });
-
-      // Actually refetch it immediately and wait for it to finish
-      await queryClient.refetchQueries({
-        queryKey: ['/api/reservations/by-date', formattedDate]
-      });
-
-      // Force a rerender to update the UI immediately
-      setLocalDate(new Date(selectedDate));
+      // Reload the grid so the new booking shows as taken
+      await refreshAvailability();
 
       // Close booking modal
       setIsModalOpen(false);
       
+      // Free rooms are confirmed without payment, and guests confirm their email before paying
+      if (newReservation.status === "confirmed" || newReservation.status === "pending_verification") {
+        setBookedReservation(newReservation);
+        setIsConfirmationOpen(true);
+        return;
+      }
+      
       // Redirect to payment page with the reservation ID
       setLocation(`/payment/${newReservation.id}`);
 
@@ -927,22 +551,69 @@ interface RoomListProps {
     }
   };
   
-  const formatTimeSlot = (hour: number) => {
-    // Create a new date and set both hours and minutes (setting minutes to 0)
-    const date = new Date();
-    date.setHours(hour, 0, 0, 0);
-    return format(date, 'h:00 a');
+  // Book a recurring series. The first attempt is all-or-nothing; if some dates are unavailable
+  // they are listed in the dialog and the user can choose to book only the free ones.
+  const submitSeriesBooking = async (startTime: string, endTime: string) => {
+    if (!selectedRoom) return;
+
+    const response = await fetch('/api/reservation-series', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        roomId: selectedRoom.id,
+        startTime,
+        endTime,
+        rrule: `FREQ=${repeatFrequency};COUNT=${repeatCount}`,
+        purpose: purpose || "Study session",
+        skipConflicts: seriesConflicts.length > 0
+      }),
+      credentials: 'include'
+    });
+
+    if (response.status === 409) {
+      const { occurrences } = await response.json();
+      setSeriesConflicts(occurrences.filter((o: { available: boolean }) => !o.available));
+      return;
+    }
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({ error: undefined }));
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      if (response.status === 429 && retryAfter > 0) {
+        throw new Error(`${error}. ${formatRetryAfter(retryAfter)}`);
+      }
+      throw new Error(typeof error === 'string' ? error : 'Failed to create recurring reservation');
+    }
+
+    const { reservations, skipped, description } = await response.json();
+    const payBy = branchDateTime(reservations[0].holdExpiresAt, timeZone);
+
+    toast({
+      title: "Recurring reservation created",
+      description: `${description}: ${reservations.length} booked${skipped.length ? `, ${skipped.length} skipped` : ""}. Complete payment for each date from your profile by ${payBy.toFormat('MMM d, h:mm a')}.`
+    });
+
+    setSeriesConflicts([]);
+    setIsModalOpen(false);
+    await refreshAvailability();
+    queryClient.invalidateQueries({ queryKey: ['/api/user/reservation-series'] });
+    setLocation('/profile');
   };
   
+  const formatTimeSlot = (startMinutes: number) => format(atMinutes(new Date(), startMinutes), 'h:mm a');
+  
   const handleDurationChange = (value: string) => {
-    setSelectedDuration(parseInt(value));
+    setSelectedDurationMinutes(parseInt(value));
   };
   
   const closeConfirmation = () => {
     setIsConfirmationOpen(false);
+    setBookedReservation(null);
     // Reset form
     setSelectedRoom(null);
-    setSelectedTimeSlot(null);
+    setSelectedStartMinutes(null);
     // Only reset user info if not logged in
     if (!user) {
       setUserName("");
@@ -958,125 +629,14 @@ interface RoomListProps {
   
   // Calculate end time based on start time and duration
   const getEndTime = () => {
-    if (selectedTimeSlot === null) return "";
-    // Create a new date, set hours to selected time slot and minutes to 0, then add the duration
-    const date = new Date();
-    date.setHours(selectedTimeSlot, 0, 0, 0);
-    const endTime = addHours(date, selectedDuration);
-    return format(endTime, 'h:00 a');
-  };
-  
-  // Function to check if a time slot is bookable (available and within booking constraints)
-  const isTimeSlotBookable = (roomId: number, hour: number, consecutive: number = 1) => {
-    // Log all reservations for debugging
-    console.log(`ALL RESERVATIONS (${reservations.length} total):`, JSON.stringify(reservations.map(r => ({
-      id: r.id, roomId: r.roomId, status: r.status,
-      date: (r.date ? format(r.date, 'yyyy-MM-dd') : null) || (r.reservationDate || 'unknown'),
-      startTime: typeof r.startTime === 'string' ? r.startTime : format(r.startTime, 'HH:mm:ss'),
-      endTime: typeof r.endTime === 'string' ? r.endTime : format(r.endTime, 'HH:mm:ss')
-    }))));
-    
-    // Get the next 'consecutive' hours and check if they're all available
-    for (let i = 0; i < consecutive; i++) {
-      const currentHour = hour + i;
-      
-      // Check if hour is outside library hours (9am-8pm, or 9am-5pm on weekends)
-      if (currentHour < 9 || currentHour > 20) return false; // Outside library hours
-      
-      // Check for weekend closing time restrictions
-      const isWeekend = [0, 6].includes(selectedDate.getDay()); // 0 = Sunday, 6 = Saturday
-      if (isWeekend && currentHour >= 17) return false; // Weekend after 5pm
-      
-      // Simplified approach: search directly for any confirmed reservation that blocks this time slot
-      const targetDateStr = format(selectedDate, 'yyyy-MM-dd');
-      
-      console.log(`Checking if hour ${currentHour} is bookable for room ${roomId} on ${targetDateStr}`);
-      
-      // Find any reservation that:
-      // 1. Is for this room
-      // 2. Is on the selected date
-      // 3. Has status 'confirmed'
-      // 4. Overlaps with the current hour
-      const blockedByReservation = reservations.find(r => {
-        // Must be for this room
-        if (r.roomId !== roomId) {
-          return false;
-        }
-        
-        // Must be confirmed (not cancelled)
-        if (r.status !== 'confirmed') {
-          console.log(`Skipping reservation #${r.id} because status is ${r.status}`);
-          return false;
-        }
-        
-        // Check date match using ISO date strings for reliable comparison
-        const reservationDateObj = r.date || new Date(r.reservationDate);
-        const reservationDateStr = format(reservationDateObj, 'yyyy-MM-dd');
-        if (reservationDateStr !== targetDateStr) {
-          console.log(`Skipping reservation #${r.id} because date ${reservationDateStr} !== ${targetDateStr}`);
-          return false;
-        }
-        
-        // Get the reservation times
-        let startTime: Date, endTime: Date;
-        
-        if (typeof r.startTime === 'string') {
-          startTime = new Date(r.startTime);
-          endTime = new Date(r.endTime);
-        } else {
-          startTime = r.startTime;
-          endTime = r.endTime;
-        }
-        
-        // Extract hours
-        const startHour = startTime.getHours();
-        const endHour = endTime.getHours();
-        
-        console.log(`Checking reservation #${r.id} with time range ${startHour}-${endHour} against hour ${currentHour}`);
-        
-        // Check if current hour falls within the reservation time range
-        const isOverlapping = currentHour >= startHour && currentHour < endHour;
-        
-        if (isOverlapping) {
-          console.log(`Hour ${currentHour} for room ${roomId} is BOOKED by reservation #${r.id}!`);
-          return true;
-        }
-        
-        return false;
-      });
-      
-      if (blockedByReservation) {
-        console.log(`Hour ${currentHour} for room ${roomId} is NOT AVAILABLE due to reservation #${blockedByReservation.id}`);
-        return false;
-      }
-    }
-    
-    // If we get here, this time slot is available
-    console.log(`Hour ${hour} for room ${roomId} is AVAILABLE`);
-    return true;
-  };
-  
-  // Function to get available durations for a time slot
-  const getAvailableDurations = (roomId: number, startHour: number) => {
-    const durations = [];
-    
-    // Add 1 hour option (always available if the current slot is available)
-    if (isTimeSlotAvailable(roomId, startHour)) {
-      durations.push(1);
-      
-      // Check if 2 hours is available (current hour and next hour)
-      if (startHour < 20 && isTimeSlotAvailable(roomId, startHour + 1)) {
-        durations.push(2);
-      }
-    }
-    
-    return durations;
+    if (selectedStartMinutes === null) return "";
+    return formatTimeSlot(selectedStartMinutes + selectedDurationMinutes);
   };
   
   return (
     <>
       {filteredRooms.map((room) => {
-        const schedule = getRoomSchedule(room.id);
+        const schedule = getRoomSchedule(room);
         
         return (
           <tr key={room.id} className="hover:bg-gray-50 transition-colors">
@@ -1106,42 +666,51 @@ interface RoomListProps {
               </div>
             </td>
             
-            {schedule.map((slot, index) => {
-              // Check if it's a weekend slot after 5pm to show special styling
-              const isWeekend = [0, 6].includes(selectedDate.getDay()); // 0 = Sunday, 6 = Saturday
-              const isWeekendAfterHours = isWeekend && slot.hour >= 17; // 5pm and later on weekends
-              const cellTitle = slot.isAvailable
-                ? `Available at ${formatTimeSlot(slot.hour)}`
-                : isWeekendAfterHours
-                  ? `Library closes at 5:00 PM on weekends`
-                  : `Occupied at ${formatTimeSlot(slot.hour)}`;
-
-              let cellClass = 'calendar-cell';
-              if (slot.isAvailable) {
-                cellClass += ' available';
-              } else if (isWeekendAfterHours) {
-                cellClass += ' weekend-closed';
-              } else {
-                cellClass += ' occupied';
-              }
-
-            console.log(`🟢 Rendering slot for Room ${room.id}, Hour ${slot.hour} → Available: ${slot.isAvailable}`);
-            
-              return (
-                <td 
-                  key={index} 
-                  className="p-0 border border-gray-200"
-                  onClick={(e) => handleTimeSlotClick(room.id, slot.hour, slot.isAvailable, e)}
-                  data-room-id={room.id}
-                  data-hour={slot.hour}
-                >
-                  <div 
-                    className={cellClass}
-                    title={cellTitle}
-                  ></div>
-                </td>
-              );
-            })}
+            {schedule.map((cells, index) => (
+              <td 
+                key={index} 
+                className="p-0 border border-gray-200"
+                data-room-id={room.id}
+                data-hour={gridHours[index]}
+              >
+                <div className="flex gap-px">
+                  {cells.map(slot => {
+                    const cellTitle = slot.isAvailable
+                      ? `Available at ${formatTimeSlot(slot.startMinutes)}`
+                      : slot.isClosed
+                        ? `The library is closed at ${formatTimeSlot(slot.startMinutes)}`
+                        : slot.blackoutReason
+                          ? `Unavailable at ${formatTimeSlot(slot.startMinutes)}: ${slot.blackoutReason}`
+                          : slot.isBuffer
+                            ? `Kept free for setup or cleanup at ${formatTimeSlot(slot.startMinutes)}`
+                            : `Occupied at ${formatTimeSlot(slot.startMinutes)}`;
+
+                    let cellClass = 'calendar-cell flex-1';
+                    if (slot.isAvailable) {
+                      cellClass += ' available';
+                    } else if (slot.isClosed) {
+                      cellClass += ' closed-hours';
+                    } else if (slot.blackoutReason) {
+                      cellClass += ' blackout-time';
+                    } else if (slot.isBuffer) {
+                      cellClass += ' buffer-time';
+                    } else {
+                      cellClass += ' occupied';
+                    }
+
+                    return (
+                      <div 
+                        key={slot.startMinutes}
+                        className={cellClass}
+                        title={cellTitle}
+                        onClick={(e) => handleTimeSlotClick(room.id, slot.startMinutes, slot.isAvailable, e)}
+                        data-minutes={slot.startMinutes}
+                      ></div>
+                    );
+                  })}
+                </div>
+              </td>
+            ))}
           </tr>
         );
       })}
@@ -1152,7 +721,7 @@ interface RoomListProps {
           <DialogHeader>
             <DialogTitle className="text-xl">{selectedRoom?.name}</DialogTitle>
             <DialogDescription className="text-gray-500">
-              {selectedRoom?.location}
+              {[selectedRoom?.floor != null && `Floor ${selectedRoom.floor}`, selectedRoom?.roomNumber && `Room ${selectedRoom.roomNumber}`].filter(Boolean).join(" · ")}
             </DialogDescription>
           </DialogHeader>
           
@@ -1207,7 +776,7 @@ interface RoomListProps {
               <div className="flex items-center">
                 <Clock className="h-4 w-4 mr-2 text-blue-600" />
                 <span className="font-medium">
-                  {selectedTimeSlot !== null ? formatTimeSlot(selectedTimeSlot) : ""} - {getEndTime()}
+                  {selectedStartMinutes !== null ? formatTimeSlot(selectedStartMinutes) : ""} - {getEndTime()}
                 </span>
               </div>
             </div>
@@ -1215,20 +784,17 @@ interface RoomListProps {
             <div className="space-y-2">
               <label className="text-sm font-medium text-gray-700">Duration</label>
               <Select 
-                defaultValue="1" 
+                value={String(selectedDurationMinutes)} 
                 onValueChange={handleDurationChange}
-                disabled={selectedTimeSlot === null || !isTimeSlotAvailable(selectedRoom?.id || 0, selectedTimeSlot || 0)}
+                disabled={availableDurations(selectedRoom, selectedStartMinutes).length === 0}
               >
                 <SelectTrigger className="w-full border border-gray-200 rounded-md h-10">
                   <SelectValue placeholder="Select duration" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="1">1 hour</SelectItem>
-                  {selectedTimeSlot !== null && selectedRoom && 
-                   isTimeSlotAvailable(selectedRoom.id, selectedTimeSlot) && 
-                   isTimeSlotAvailable(selectedRoom.id, selectedTimeSlot + 1) && (
-                    <SelectItem value="2">2 hours</SelectItem>
-                  )}
+                  {availableDurations(selectedRoom, selectedStartMinutes).map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{formatDuration(minutes)}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -1269,6 +835,65 @@ interface RoomListProps {
                 placeholder="Study session, meeting, etc."
               />
             </div>
+            
+            {user && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700">Repeat</label>
+                  <Select
+                    value={repeatFrequency}
+                    onValueChange={(value) => {
+                      setRepeatFrequency(value as typeof repeatFrequency);
+                      setSeriesConflicts([]);
+                    }}
+                  >
+                    <SelectTrigger className="w-full border border-gray-200 rounded-md h-10">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="NONE">Does not repeat</SelectItem>
+                      <SelectItem value="DAILY">Daily</SelectItem>
+                      <SelectItem value="WEEKLY">Weekly on {format(selectedDate, "EEEE")}</SelectItem>
+                      <SelectItem value="MONTHLY">Monthly on day {format(selectedDate, "d")}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {repeatFrequency !== "NONE" && (
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-gray-700">Occurrences</label>
+                    <input
+                      type="number"
+                      min={2}
+                      max={MAX_SERIES_OCCURRENCES}
+                      className="w-full border border-gray-200 rounded-md px-3 py-2 h-10"
+                      value={repeatCount}
+                      onChange={(e) => {
+                        setRepeatCount(Math.min(MAX_SERIES_OCCURRENCES, Math.max(2, parseInt(e.target.value) || 2)));
+                        setSeriesConflicts([]);
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+            
+            <PriceBreakdown quote={priceQuote} isLoading={isLoadingPriceQuote} perDate={repeatFrequency !== "NONE"} />
+            
+            {seriesConflicts.length > 0 && (
+              <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                <p className="font-medium">
+                  {seriesConflicts.length} {seriesConflicts.length === 1 ? "date is" : "dates are"} not available:
+                </p>
+                <ul className="mt-1 max-h-32 overflow-y-auto list-disc pl-5">
+                  {seriesConflicts.map(occurrence => (
+                    <li key={occurrence.reservationDate}>
+                      {format(parseISO(occurrence.reservationDate), "EEE, MMM d")}
+                      {occurrence.reason ? ` – ${occurrence.reason}` : ""}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
           
           <DialogFooter className="flex space-x-2 justify-end">
@@ -1279,7 +904,7 @@ interface RoomListProps {
               className="bg-blue-600 hover:bg-blue-700 text-white"
               onClick={handleBookingSubmit}
             >
-              Confirm Booking
+              {seriesConflicts.length > 0 ? "Book Available Dates" : "Confirm Booking"}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -1289,10 +914,21 @@ interface RoomListProps {
       <Dialog open={isConfirmationOpen} onOpenChange={setIsConfirmationOpen}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle className="text-xl text-green-600">Booking Confirmed!</DialogTitle>
-            <DialogDescription>
-              Your room has been reserved successfully.
-            </DialogDescription>
+            {bookedReservation?.status === "pending_verification" ? (
+              <>
+                <DialogTitle className="text-xl text-blue-600">Check your email</DialogTitle>
+                <DialogDescription>
+                  We're holding this room for {bookedReservation.verificationExpiresInMinutes ?? 30} minutes. Follow the link we sent to {userEmail} to keep your booking.
+                </DialogDescription>
+              </>
+            ) : (
+              <>
+                <DialogTitle className="text-xl text-green-600">Booking Confirmed!</DialogTitle>
+                <DialogDescription>
+                  Your room has been reserved successfully.
+                </DialogDescription>
+              </>
+            )}
           </DialogHeader>
           
           <div className="space-y-4 py-3 bg-green-50 p-4 rounded-md border border-green-100">
@@ -1309,19 +945,21 @@ interface RoomListProps {
             <div className="space-y-1">
               <h4 className="text-sm font-medium text-gray-700">Time</h4>
               <p>
-                {selectedTimeSlot !== null ? formatTimeSlot(selectedTimeSlot) : ""} - {getEndTime()}
-                ({selectedDuration} {selectedDuration === 1 ? 'hour' : 'hours'})
+                {selectedStartMinutes !== null ? formatTimeSlot(selectedStartMinutes) : ""} - {getEndTime()}
+                ({formatDuration(selectedDurationMinutes)})
               </p>
             </div>
             
             <div className="space-y-1">
               <h4 className="text-sm font-medium text-gray-700">Confirmation Number</h4>
-              <p className="font-mono font-medium">LIB-{Math.floor(100000 + Math.random() * 900000)}</p>
+              <p className="font-mono font-medium">{bookedReservation?.confirmationCode}</p>
             </div>
           </div>
           
           <p className="text-sm text-gray-500 mt-2">
-            A confirmation email has been sent to {userEmail}. Please arrive 5 minutes before your booking time.
+            {bookedReservation?.status === "pending_verification"
+              ? "Keep your confirmation number: with your email address it lets you view, pay for or cancel this booking from \"Manage a booking\"."
+              : `A confirmation email has been sent to ${userEmail}. Please arrive 5 minutes before your booking time.`}
           </p>
           
           <DialogFooter>
@@ -17,10 +17,11 @@ interface StripeCheckoutFormProps {
   reservationId: number;
   amount: number;
   returnToPath?: string;
+  onPaymentSucceeded?: (paymentIntentId: string) => Promise<unknown>;
 }
 
 // The form displayed inside the Stripe Elements provider
-function CheckoutForm({ clientSecret, reservationId, amount, returnToPath = '/' }: StripeCheckoutFormProps) {
+function CheckoutForm({ clientSecret, reservationId, amount, returnToPath = '/', onPaymentSucceeded }: StripeCheckoutFormProps) {
   const stripe = useStripe();
   const elements = useElements();
   const [isLoading, setIsLoading] = useState(false);
@@ -71,12 +72,14 @@ function CheckoutForm({ clientSecret, reservationId, amount, returnToPath = '/'
     }
   }, [stripe]);
 
+  // Tell the server the payment is completed
+  const confirmPayment = (paymentIntentId: string) => onPaymentSucceeded
+    ? onPaymentSucceeded(paymentIntentId)
+    : apiRequest("POST", `/api/reservations/${reservationId}/payment-success`, { paymentIntentId });
+
   const handlePaymentSuccess = async (paymentIntentId: string) => {
     try {
-      // Tell the server the payment is completed
-      await apiRequest("POST", `/api/reservations/${reservationId}/payment-success`, {
-        paymentIntentId
-      });
+      await confirmPayment(paymentIntentId);
 
       toast({
         title: "Payment successful!",
@@ -130,13 +133,7 @@ function CheckoutForm({ clientSecret, reservationId, amount, returnToPath = '/'
     if (paymentIntent && paymentIntent.status === 'succeeded') {
       try {
         // Call our API to update the reservation status
-        await fetch(`/api/reservations/${reservationId}/payment-success`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ paymentIntentId: paymentIntent.id }),
-        });
+        await confirmPayment(paymentIntent.id);
 
         // Show success message
         toast({
@@ -198,6 +195,8 @@ interface StripeCheckoutProps {
   reservationId: number;
   amount: number;
   returnToPath?: string;
+  // Confirms the payment with the server; defaults to the signed-in patron's payment-success endpoint
+  onPaymentSucceeded?: (paymentIntentId: string) => Promise<unknown>;
 }
 
 // The main component to use, which sets up the Stripe provider
@@ -205,7 +204,8 @@ export default function StripeCheckout({
   paymentIntentClientSecret, 
   reservationId, 
   amount,
-  returnToPath = '/'
+  returnToPath = '/',
+  onPaymentSucceeded
 }: StripeCheckoutProps) {
   return (
     <div className="max-w-md mx-auto p-6 bg-white rounded-lg shadow-md">
@@ -221,6 +221,7 @@ export default function StripeCheckout({
             reservationId={reservationId} 
             amount={amount}
             returnToPath={returnToPath}
+            onPaymentSucceeded={onPaymentSucceeded}
           />
         </Elements>
       ) : (
@@ -5,7 +5,8 @@ import {
   UseMutationResult,
 } from "@tanstack/react-query";
 import { User, insertUserSchema } from "@shared/schema";
-import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import type { StaffGrant } from "@shared/roles";
+import { getQueryFn, apiRequest, queryClient, rateLimitMessage } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
 import { useNavigate, useLocation } from "react-router-dom";
@@ -36,8 +37,8 @@ const registerSchema = insertUserSchema
 
 type RegisterData = Omit<z.infer<typeof registerSchema>, "confirmPassword">;
 
-// Define the type for a user without the password
-type SafeUser = Omit<User, "password">;
+// Define the type for a user without the password, with the branches they work at
+type SafeUser = Omit<User, "password"> & { staffAssignments: StaffGrant[] };
 
 type AuthContextType = {
   user: SafeUser | null;
@@ -127,7 +128,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.error("Login error:", error);
       toast({
         title: "Login failed",
-        description: error.message || "An unexpected error occurred during login",
+        description: rateLimitMessage(error) || error.message || "An unexpected error occurred during login",
         variant: "destructive",
       });
     },
@@ -162,7 +163,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       console.error("Registration error:", error);
       toast({
         title: "Registration failed",
-        description: error.message || "An unexpected error occurred during registration",
+        description: rateLimitMessage(error) || error.message || "An unexpected error occurred during registration",
         variant: "destructive",
       });
     },
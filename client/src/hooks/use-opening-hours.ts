@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { Location, LocationHours, LocationClosure } from "@shared/schema";
+import { locationTimeZone } from "@shared/time-zone";
+
+// Weekly opening hours, holiday closures and time zone of a library branch
+export function useOpeningHours(locationId: number) {
+  const locationQuery = useQuery<Location>({
+    queryKey: [`/api/locations/${locationId}`],
+  });
+
+  const hoursQuery = useQuery<LocationHours[]>({
+    queryKey: [`/api/locations/${locationId}/hours`],
+  });
+
+  const closuresQuery = useQuery<LocationClosure[]>({
+    queryKey: [`/api/locations/${locationId}/closures`],
+  });
+
+  return {
+    hours: hoursQuery.data || [],
+    closures: closuresQuery.data || [],
+    timeZone: locationTimeZone(locationQuery.data),
+    isLoading: hoursQuery.isLoading || closuresQuery.isLoading || locationQuery.isLoading,
+  };
+}
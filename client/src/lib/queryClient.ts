@@ -1,9 +1,45 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Thrown for failed requests. The message keeps the "status: body" format; rate-limited
+// responses (429) also carry how long the server asked the client to wait.
+export class ApiError extends Error {
+  constructor(public status: number, body: string, public retryAfterSeconds: number | null) {
+    super(`${status}: ${body}`);
+    this.name = "ApiError";
+  }
+}
+
+const parseRetryAfter = (res: Response) => {
+  const seconds = Number(res.headers.get("Retry-After"));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+};
+
+// "Please try again in 5 minutes."
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `Please try again in ${seconds} second${seconds === 1 ? "" : "s"}.`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `Please try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`;
+  const hours = Math.ceil(minutes / 60);
+  return `Please try again in ${hours} hour${hours === 1 ? "" : "s"}.`;
+}
+
+// Toast text for a rate-limited or locked-out request, or undefined for other errors
+export function rateLimitMessage(error: unknown): string | undefined {
+  if (!(error instanceof ApiError) || error.status !== 429) return undefined;
+  let reason = "Too many requests";
+  try {
+    const body = JSON.parse(error.message.replace(/^\d+: /, ""));
+    if (typeof body.error === "string") reason = body.error;
+  } catch {
+    // Not a JSON body
+  }
+  return error.retryAfterSeconds ? `${reason}. ${formatRetryAfter(error.retryAfterSeconds)}` : `${reason}.`;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text, parseRetryAfter(res));
   }
 }
 
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Loader2 } from "lucide-react";
+import { DateTime } from "luxon";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { Location } from "@shared/schema";
+import type { AnalyticsRange, CancellationStats, HeatmapCell, OccupancyReport, RevenueByStatus } from "@shared/analytics";
+import { can } from "@shared/roles";
+import { DEFAULT_TIME_ZONE } from "@shared/time-zone";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+
+// Responses of the /api/admin/analytics/* reports
+type OccupancyResponse = AnalyticsRange & OccupancyReport;
+type RevenueResponse = AnalyticsRange & { byPaymentStatus: RevenueByStatus[] };
+type CancellationResponse = AnalyticsRange & CancellationStats;
+type PeakHoursResponse = AnalyticsRange & { cells: HeatmapCell[] };
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 1000) / 10}%`);
+const formatHour = (hour: number) => DateTime.fromObject({ hour }).toFormat("h a");
+
+const occupancyChartConfig = {
+  occupancy: { label: "Occupancy %", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const revenueChartConfig = {
+  net: { label: "Net", color: "hsl(var(--primary))" },
+  refunded: { label: "Refunded", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+// Usage, revenue and attendance reports for staff
+export default function AdminAnalyticsPage() {
+  const { user } = useAuth();
+  const today = DateTime.now().setZone(DEFAULT_TIME_ZONE);
+  const [from, setFrom] = useState(today.minus({ days: 29 }).toISODate()!);
+  const [to, setTo] = useState(today.toISODate()!);
+  const [locationId, setLocationId] = useState("all");
+
+  const params = new URLSearchParams({ from, to, ...(locationId !== "all" && { locationId }) }).toString();
+  const canReport = can(user, "view_reports");
+  const enabled = canReport && !!from && !!to && from <= to;
+
+  // Branch managers only see the branches they manage
+  const { data: allLocations = [] } = useQuery<Location[]>({ queryKey: ["/api/locations"] });
+  const locations = allLocations.filter(location => can(user, "view_reports", location.id));
+  const { data: occupancy } = useQuery<OccupancyResponse>({
+    queryKey: [`/api/admin/analytics/occupancy?${params}`],
+    enabled,
+  });
+  const { data: revenue } = useQuery<RevenueResponse>({
+    queryKey: [`/api/admin/analytics/revenue?${params}`],
+    enabled,
+  });
+  const { data: cancellations } = useQuery<CancellationResponse>({
+    queryKey: [`/api/admin/analytics/cancellations?${params}`],
+    enabled,
+  });
+  const { data: peakHours } = useQuery<PeakHoursResponse>({
+    queryKey: [`/api/admin/analytics/peak-hours?${params}`],
+    enabled,
+  });
+
+  if (!canReport) {
+    return (
+      <div className="container mx-auto py-8 px-4 max-w-3xl">
+        <p className="text-muted-foreground">The analytics dashboard is only available to branch managers and system admins.</p>
+      </div>
+    );
+  }
+
+  const locationName = (id: number) => locations.find(l => l.id === id)?.name ?? `Location #${id}`;
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-6xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Room Analytics</h1>
+          <p className="text-muted-foreground">Occupancy, revenue and attendance across branches</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/">Back to Home</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 flex flex-col md:flex-row gap-4">
+          <label className="space-y-1 text-sm font-medium">
+            <span>From</span>
+            <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </label>
+          <label className="space-y-1 text-sm font-medium">
+            <span>To</span>
+            <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </label>
+          <div className="space-y-1 text-sm font-medium md:w-64">
+            <span>Branch</span>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger aria-label="Branch">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All branches</SelectItem>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={String(location.id)}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <StatCard
+          label="Occupancy"
+          value={occupancy && formatRate(occupancyTotal(occupancy))}
+        />
+        <StatCard
+          label="Net revenue"
+          value={revenue && formatCents(revenue.byPaymentStatus.reduce((total, row) => total + row.netInCents, 0))}
+        />
+        <StatCard
+          label="Cancellation rate"
+          value={cancellations && formatRate(cancellations.cancellationRate)}
+          detail={cancellations && `${cancellations.cancelled} of ${cancellations.totalReservations} bookings`}
+        />
+        <StatCard
+          label="No-show rate"
+          value={cancellations && formatRate(cancellations.noShowRate)}
+          detail={cancellations && `${cancellations.noShows} of ${cancellations.attended + cancellations.noShows} past bookings`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Occupancy by Day</CardTitle>
+          <CardDescription>Share of opening hours that rooms were booked.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!occupancy ? <ChartPlaceholder /> : (
+            <ChartContainer config={occupancyChartConfig} className="h-64 w-full">
+              <LineChart data={dailyOccupancy(occupancy)}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(date) => DateTime.fromISO(date).toFormat("MMM d")} />
+                <YAxis tickLine={false} axisLine={false} unit="%" width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="occupancy" stroke="var(--color-occupancy)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Occupancy by Room</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!occupancy ? <ChartPlaceholder /> : (
+              <ChartContainer config={occupancyChartConfig} className="h-72 w-full">
+                <BarChart data={occupancy.rooms.map(room => ({ name: room.roomName, occupancy: percent(room.occupancyRate) }))} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" unit="%" tickLine={false} axisLine={false} />
+                  <YAxis type="category" dataKey="name" width={140} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="occupancy" fill="var(--color-occupancy)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+            {occupancy && occupancy.locations.length > 1 && (
+              <div className="mt-4 space-y-1 text-sm">
+                {occupancy.locations.map(location => (
+                  <div key={location.locationId} className="flex justify-between">
+                    <span>{locationName(location.locationId)}</span>
+                    <span className="text-muted-foreground">
+                      {formatRate(location.occupancyRate)} ({location.bookedHours} of {location.openHours} hours)
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Revenue by Payment Status</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!revenue ? <ChartPlaceholder /> : (
+              <ChartContainer config={revenueChartConfig} className="h-72 w-full">
+                <BarChart data={revenue.byPaymentStatus.map(row => ({
+                  status: row.paymentStatus.replace(/_/g, " "),
+                  net: row.netInCents / 100,
+                  refunded: row.refundedInCents / 100
+                }))}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="status" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} unit="$" width={50} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="net" stackId="revenue" fill="var(--color-net)" />
+                  <Bar dataKey="refunded" stackId="revenue" fill="var(--color-refunded)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Peak Hours</CardTitle>
+          <CardDescription>Hours booked by day of the week and time of day.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!peakHours ? <ChartPlaceholder /> : <PeakHourHeatmap cells={peakHours.cells} />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+const percent = (rate: number | null) => (rate === null ? 0 : Math.round(rate * 1000) / 10);
+
+// Occupancy of the selected branches over the whole range
+function occupancyTotal(report: OccupancyReport) {
+  const booked = report.locations.reduce((total, location) => total + location.bookedHours, 0);
+  const open = report.locations.reduce((total, location) => total + location.openHours, 0);
+  return open > 0 ? booked / open : null;
+}
+
+// Daily occupancy across the selected branches
+function dailyOccupancy(report: OccupancyReport) {
+  const days = report.locations[0]?.byDay ?? [];
+  return days.map((day, i) => {
+    const booked = report.locations.reduce((total, location) => total + location.byDay[i].bookedHours, 0);
+    const open = report.locations.reduce((total, location) => total + location.byDay[i].openHours, 0);
+    return { date: day.date, occupancy: percent(open > 0 ? booked / open : null) };
+  });
+}
+
+function StatCard({ label, value, detail }: { label: string; value?: string; detail?: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <p className="text-sm text-muted-foreground">{label}</p>
+        {value === undefined ? (
+          <Loader2 className="h-5 w-5 mt-2 animate-spin text-primary" />
+        ) : (
+          <p className="text-2xl font-bold">{value}</p>
+        )}
+        {detail && <p className="text-xs text-muted-foreground mt-1">{detail}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ChartPlaceholder() {
+  return (
+    <div className="flex h-64 items-center justify-center">
+      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+    </div>
+  );
+}
+
+// Grid of days by hours, shaded by how many hours were booked
+function PeakHourHeatmap({ cells }: { cells: HeatmapCell[] }) {
+  if (cells.length === 0) {
+    return <p className="text-muted-foreground text-center py-4">No bookings in this period.</p>;
+  }
+
+  const hours = cells.map(cell => cell.hour);
+  const hourRange = Array.from({ length: Math.max(...hours) - Math.min(...hours) + 1 }, (_, i) => Math.min(...hours) + i);
+  const busiest = Math.max(...cells.map(cell => cell.bookedHours));
+  const cellFor = (dayOfWeek: number, hour: number) => cells.find(cell => cell.dayOfWeek === dayOfWeek && cell.hour === hour);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs">
+        <thead>
+          <tr>
+            <th />
+            {hourRange.map(hour => (
+              <th key={hour} className="px-1 font-normal text-muted-foreground">{formatHour(hour)}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {DAY_NAMES.map((dayName, dayOfWeek) => (
+            <tr key={dayName}>
+              <th className="pr-2 text-left font-normal text-muted-foreground">{dayName}</th>
+              {hourRange.map(hour => {
+                const cell = cellFor(dayOfWeek, hour);
+                return (
+                  <td key={hour} className="p-0.5">
+                    <div
+                      className="h-7 w-10 rounded bg-primary"
+                      style={{ opacity: cell ? 0.15 + 0.85 * (cell.bookedHours / busiest) : 0.05 }}
+                      title={`${dayName} ${formatHour(hour)}: ${cell?.bookedHours ?? 0} hours booked`}
+                    />
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
+import { useEffect, useRef, useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
@@ -9,7 +9,9 @@ import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useAuth } from "@/hooks/use-auth";
-import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, rateLimitMessage } from "@/lib/queryClient";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
 
 // Login form schema
 const loginFormSchema = z.object({
@@ -41,16 +43,54 @@ const registerFormSchema = z.object({
   path: ["confirmPassword"],
 });
 
+// Forgot password form schema
+const forgotPasswordFormSchema = z.object({
+  email: z.string().email({
+    message: "Please enter a valid email address.",
+  }),
+});
+
+// Reset password form schema
+const resetPasswordFormSchema = z.object({
+  password: z.string().min(6, {
+    message: "Password must be at least 6 characters.",
+  }),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
 type LoginFormValues = z.infer<typeof loginFormSchema>;
 type RegisterFormValues = z.infer<typeof registerFormSchema>;
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordFormSchema>;
+type ResetPasswordFormValues = z.infer<typeof resetPasswordFormSchema>;
+
+// Read the error message from a failed API response
+const errorMessage = (err: unknown) => {
+  const limited = rateLimitMessage(err);
+  if (limited) return limited;
+  const message = err instanceof Error ? err.message : "";
+  try {
+    const body = JSON.parse(message.replace(/^\d+: /, ""));
+    if (typeof body.error === "string") return body.error;
+  } catch {
+    // Not a JSON body
+  }
+  return "Something went wrong. Please try again.";
+};
 
 export default function AuthPage() {
   const [activeTab, setActiveTab] = useState<string>("login");
   const [location, navigate] = useLocation();
   const { user, loginMutation, registerMutation } = useAuth();
+  // Emailed links open this page with ?reset=<token> or ?verify=<token>
+  const params = new URLSearchParams(useSearch());
+  const resetToken = params.get("reset");
+  const verifyToken = params.get("verify");
 
-  // Redirect if already logged in
-  if (user) {
+  // Redirect if already logged in, unless following a link from an email
+  if (user && !resetToken && !verifyToken) {
     navigate("/");
     return null;
   }
@@ -98,6 +138,11 @@ export default function AuthPage() {
         
         {/* Auth Forms Section */}
         <div className="w-full md:w-1/2 bg-card p-8">
+          {verifyToken ? (
+            <VerifyEmailCard token={verifyToken} />
+          ) : resetToken ? (
+            <ResetPasswordForm token={resetToken} onSuccess={() => navigate("/auth")} />
+          ) : (
           <Tabs defaultValue="login" value={activeTab} onValueChange={setActiveTab} className="w-full">
             <TabsList className="grid w-full grid-cols-2 mb-6">
               <TabsTrigger value="login">Login</TabsTrigger>
@@ -107,6 +152,7 @@ export default function AuthPage() {
             <TabsContent value="login">
               <LoginForm 
                 onSuccess={() => navigate("/")} 
+                onForgotPassword={() => setActiveTab("forgot")}
                 isLoading={loginMutation.isPending}
               />
             </TabsContent>
@@ -117,14 +163,19 @@ export default function AuthPage() {
                 isLoading={registerMutation.isPending}
               />
             </TabsContent>
+            
+            <TabsContent value="forgot">
+              <ForgotPasswordForm onBack={() => setActiveTab("login")} />
+            </TabsContent>
           </Tabs>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
-function LoginForm({ onSuccess, isLoading }: { onSuccess: () => void, isLoading: boolean }) {
+function LoginForm({ onSuccess, onForgotPassword, isLoading }: { onSuccess: () => void, onForgotPassword: () => void, isLoading: boolean }) {
   const { loginMutation } = useAuth();
 
   const form = useForm<LoginFormValues>({
@@ -192,7 +243,7 @@ function LoginForm({ onSuccess, isLoading }: { onSuccess: () => void, isLoading:
         </Form>
       </CardContent>
       <CardFooter className="flex justify-center">
-        <Button variant="link" type="button" onClick={() => alert("Password reset functionality would be implemented here")}>
+        <Button variant="link" type="button" onClick={onForgotPassword}>
           Forgot your password?
         </Button>
       </CardFooter>
@@ -313,4 +364,191 @@ function RegisterForm({ onSuccess, isLoading }: { onSuccess: () => void, isLoadi
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordFormSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const onSubmit = async (values: ForgotPasswordFormValues) => {
+    try {
+      await apiRequest("POST", "/api/password-reset/request", values);
+      setSentTo(values.email);
+    } catch (err) {
+      toast({ title: "Error", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reset your password</CardTitle>
+        <CardDescription>
+          {sentTo
+            ? `If an account uses ${sentTo}, we've sent it a link to choose a new password. The link works once and expires in an hour.`
+            : "Enter the email address on your account and we'll send you a link to choose a new password."}
+        </CardDescription>
+      </CardHeader>
+      {!sentTo && (
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="Enter your email" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending link...
+                  </>
+                ) : (
+                  "Send Reset Link"
+                )}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      )}
+      <CardFooter className="flex justify-center">
+        <Button variant="link" type="button" onClick={onBack}>
+          Back to sign in
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+function ResetPasswordForm({ token, onSuccess }: { token: string, onSuccess: () => void }) {
+  const { toast } = useToast();
+
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = async ({ password }: ResetPasswordFormValues) => {
+    try {
+      await apiRequest("POST", "/api/password-reset/confirm", { token, password });
+      toast({ title: "Password reset", description: "Your password has been changed. Please sign in." });
+      onSuccess();
+    } catch (err) {
+      toast({ title: "Password reset failed", description: errorMessage(err), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a new password</CardTitle>
+        <CardDescription>
+          Enter a new password for your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Create a password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="Confirm your password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Reset Password"
+              )}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Confirms the email address as soon as the link from the verification email is opened
+function VerifyEmailCard({ token }: { token: string }) {
+  const [result, setResult] = useState<{ verified: boolean; message: string } | null>(null);
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+    apiRequest("POST", "/api/email-verification/confirm", { token })
+      .then(async (response) => {
+        const { message } = await response.json();
+        setResult({ verified: true, message });
+        queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      })
+      .catch((err) => setResult({ verified: false, message: errorMessage(err) }));
+  }, [token]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          {!result && <Loader2 className="h-5 w-5 animate-spin" />}
+          {result?.verified && <CheckCircle2 className="h-5 w-5 text-green-600" />}
+          {result && !result.verified && <XCircle className="h-5 w-5 text-destructive" />}
+          {result ? (result.verified ? "Email confirmed" : "Link not valid") : "Confirming your email..."}
+        </CardTitle>
+        {result && (
+          <CardDescription>
+            {result.message}
+            {!result.verified && " You can request a new link from your profile."}
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardFooter>
+        <Button variant="outline" asChild>
+          <Link href="/">Continue</Link>
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { CheckCircle2, Loader2, ScanLine } from "lucide-react";
+import { Reservation } from "@shared/schema";
+import { branchDateTime, DEFAULT_TIME_ZONE } from "@shared/time-zone";
+import { isStaff } from "@shared/roles";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+// Response of /api/admin/no-shows
+interface NoShowReport {
+  gracePeriodMinutes: number;
+  users: {
+    userId: number;
+    username: string | null;
+    name: string | null;
+    email: string | null;
+    noShowCount: number;
+    lastNoShowAt: string;
+  }[];
+}
+
+// Reservations from the API carry the time zone of their branch
+type BranchReservation = Reservation & { timeZone: string };
+
+const formatAtBranch = (value: string | Date, timeZone: string, format: string) =>
+  branchDateTime(value, timeZone).toFormat(format);
+
+// Check-in for the front desk (type or scan a confirmation code) and for patrons scanning the
+// QR code in a room, which opens /check-in?room=<id>. Links with ?code=<code> check in directly.
+export default function CheckInPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const search = useSearch();
+  const [code, setCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [checkedIn, setCheckedIn] = useState<{ reservation: BranchReservation; alreadyCheckedIn: boolean } | null>(null);
+  const submittedFromLink = useRef(false);
+
+  const { data: noShows } = useQuery<NoShowReport>({
+    queryKey: ["/api/admin/no-shows"],
+    enabled: isStaff(user),
+  });
+
+  const submitCheckIn = async (body: { code: string } | { roomId: number }) => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch("/api/check-in", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        credentials: "include"
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setCheckedIn(null);
+        toast({
+          title: "Check-in failed",
+          description: typeof data.error === "string" ? data.error : "Please check the code and try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setCheckedIn(data);
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reservations"] });
+    } catch (err) {
+      console.error("Error checking in:", err);
+      toast({
+        title: "Error",
+        description: "Failed to check in. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Check in straight away when opened from a QR code or link
+  useEffect(() => {
+    if (submittedFromLink.current || !user) return;
+    const params = new URLSearchParams(search);
+    const roomId = parseInt(params.get("room") || "");
+    const linkCode = params.get("code");
+
+    if (!Number.isNaN(roomId)) {
+      submittedFromLink.current = true;
+      submitCheckIn({ roomId });
+    } else if (linkCode) {
+      submittedFromLink.current = true;
+      submitCheckIn({ code: linkCode });
+    }
+  }, [search, user]);
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-3xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Check In</h1>
+          <p className="text-muted-foreground">
+            Check in from {isStaff(user) ? "the desk" : "your room"} to keep your reservation
+            {noShows ? `; bookings are released ${noShows.gracePeriodMinutes} minutes after they start` : ""}.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/">Back to Home</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" />
+            Confirmation Code
+          </CardTitle>
+          <CardDescription>Type the code (e.g. LIB-123456) or scan it with a barcode scanner.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (code.trim()) submitCheckIn({ code });
+            }}
+          >
+            <Input
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="LIB-000000"
+              aria-label="Confirmation code"
+              disabled={isSubmitting}
+            />
+            <Button type="submit" disabled={isSubmitting || !code.trim()}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Check In"}
+            </Button>
+          </form>
+
+          {checkedIn && (
+            <div className="mt-4 flex items-start gap-3 rounded-md border border-green-200 bg-green-50 p-4 text-green-800">
+              <CheckCircle2 className="h-5 w-5 mt-0.5" />
+              <div>
+                <p className="font-medium">
+                  {checkedIn.alreadyCheckedIn ? "Already checked in" : "Checked in"}: {checkedIn.reservation.confirmationCode}
+                </p>
+                <p className="text-sm">
+                  Room #{checkedIn.reservation.roomId}, {formatAtBranch(checkedIn.reservation.startTime, checkedIn.reservation.timeZone, "h:mm a")} –{" "}
+                  {formatAtBranch(checkedIn.reservation.endTime, checkedIn.reservation.timeZone, "h:mm a")}
+                  {checkedIn.reservation.checkedInAt && ` (checked in at ${formatAtBranch(checkedIn.reservation.checkedInAt, checkedIn.reservation.timeZone, "h:mm a")})`}
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isStaff(user) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>No-shows</CardTitle>
+            <CardDescription>Patrons whose bookings were released because nobody checked in.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!noShows ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : noShows.users.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">No missed check-ins yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Patron</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead className="text-right">No-shows</TableHead>
+                    <TableHead>Most recent</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {noShows.users.map((row) => (
+                    <TableRow key={row.userId}>
+                      <TableCell>{row.name || row.username || `User #${row.userId}`}</TableCell>
+                      <TableCell>{row.email || "—"}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={row.noShowCount >= 3 ? "destructive" : "secondary"}>{row.noShowCount}</Badge>
+                      </TableCell>
+                      <TableCell>{formatAtBranch(row.lastNoShowAt, DEFAULT_TIME_ZONE, "MMM d, yyyy h:mm a")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { CalendarCheck, Loader2, MailCheck } from "lucide-react";
+import { Reservation } from "@shared/schema";
+import { branchDateTime } from "@shared/time-zone";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import StripeCheckout from "@/components/StripeCheckout";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+// Response of /api/guest/reservations/lookup
+type GuestBooking = Reservation & {
+  roomName: string;
+  timeZone: string;
+  refundQuote: {
+    refundInCents: number;
+    amountPaidInCents: number;
+    policyDescription: string;
+  };
+};
+
+const statusLabels: Record<string, string> = {
+  pending_verification: "Awaiting email confirmation",
+  pending_payment: "Payment due",
+  confirmed: "Confirmed",
+  cancelled: "Cancelled",
+  expired: "Released",
+  no_show: "Released (no check-in)",
+  payment_failed: "Payment failed",
+};
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const formatAtBranch = (value: string | Date, timeZone: string, format: string) =>
+  branchDateTime(value, timeZone).toFormat(format);
+
+// Read the error message from a failed API response
+const errorMessage = (err: unknown) => {
+  const message = err instanceof Error ? err.message : "";
+  try {
+    const body = JSON.parse(message.replace(/^\d+: /, ""));
+    if (typeof body.error === "string") return body.error;
+  } catch {
+    // Not a JSON body
+  }
+  return "Something went wrong. Please try again.";
+};
+
+// Public page where guests confirm, view, pay for or cancel a booking using its confirmation code
+// and email address. The verification email links here with ?code=<code>&token=<token>.
+export default function ManageBookingPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const search = useSearch();
+  const [code, setCode] = useState("");
+  const [email, setEmail] = useState("");
+  const [booking, setBooking] = useState<GuestBooking | null>(null);
+  const [payment, setPayment] = useState<{ clientSecret: string; amountInCents: number } | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const verifiedFromLink = useRef(false);
+
+  const lookUp = async (lookup: { confirmationCode: string; email: string }) => {
+    const response = await apiRequest("POST", "/api/guest/reservations/lookup", lookup);
+    setBooking(await response.json());
+  };
+
+  // Run a request against the current booking and show its error, if any
+  const run = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (err) {
+      toast({ title: "Error", description: errorMessage(err), variant: "destructive" });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Confirm the booking when opened from the verification email
+  useEffect(() => {
+    if (verifiedFromLink.current) return;
+    const params = new URLSearchParams(search);
+    const linkCode = params.get("code");
+    const token = params.get("token");
+    if (linkCode) setCode(linkCode);
+    if (!linkCode || !token) return;
+
+    verifiedFromLink.current = true;
+    run(async () => {
+      const response = await apiRequest("POST", "/api/guest/reservations/verify", { confirmationCode: linkCode, token });
+      const verified: Reservation = await response.json();
+      toast({
+        title: "Email confirmed",
+        description: verified.status === "confirmed"
+          ? "Your booking is confirmed. We've emailed you the details."
+          : "Please pay for your booking to confirm it.",
+      });
+      if (verified.guestEmail) {
+        setEmail(verified.guestEmail);
+        await lookUp({ confirmationCode: linkCode, email: verified.guestEmail });
+      }
+    });
+  }, [search]);
+
+  const lookup = booking && { confirmationCode: booking.confirmationCode!, email: booking.guestEmail! };
+
+  const startPayment = () => run(async () => {
+    const response = await apiRequest("POST", "/api/guest/reservations/payment-intent", lookup);
+    const { clientSecret, amountInCents } = await response.json();
+    setPayment({ clientSecret, amountInCents });
+  });
+
+  const cancelBooking = () => run(async () => {
+    await apiRequest("POST", "/api/guest/reservations/cancel", lookup);
+    toast({ title: "Reservation cancelled", description: "Your reservation has been cancelled and the room released." });
+    await lookUp(lookup!);
+  });
+
+  const claimBooking = () => run(async () => {
+    await apiRequest("POST", "/api/user/reservations/claim", lookup);
+    toast({ title: "Booking added", description: "This booking now appears with your other reservations." });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/reservations"] });
+    await lookUp(lookup!);
+  });
+
+  const canCancel = booking && ["confirmed", "pending_payment", "pending_verification"].includes(booking.status || "");
+
+  return (
+    <div className="container mx-auto py-8 px-4 max-w-2xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Manage My Booking</h1>
+          <p className="text-muted-foreground">Booked without an account? Find your booking with its confirmation code.</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/">Back to Home</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Find your booking</CardTitle>
+          <CardDescription>Enter the confirmation code from your email and the email address you booked with.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setPayment(null);
+              run(() => lookUp({ confirmationCode: code, email }));
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="confirmation-code">Confirmation code</Label>
+              <Input
+                id="confirmation-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="LIB-XXXXXXXX"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="booking-email">Email address</Label>
+              <Input
+                id="booking-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <Button type="submit" disabled={isSubmitting || !code.trim() || !email.trim()}>
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : "Find booking"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {booking && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="flex items-center gap-2">
+                <CalendarCheck className="h-5 w-5" />
+                {booking.roomName}
+              </CardTitle>
+              <Badge variant={booking.status === "confirmed" ? "default" : "secondary"}>
+                {statusLabels[booking.status || ""] ?? booking.status}
+              </Badge>
+            </div>
+            <CardDescription>
+              {formatAtBranch(booking.startTime, booking.timeZone, "cccc, MMMM d, yyyy h:mm a ZZZZ")} – {formatAtBranch(booking.endTime, booking.timeZone, "h:mm a")}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p>Confirmation code: <strong>{booking.confirmationCode}</strong></p>
+            <p>Booked by: {booking.guestName} ({booking.guestEmail})</p>
+            {!!booking.priceInCents && <p>Price: {formatCents(booking.priceInCents)}</p>}
+            {booking.status === "pending_verification" && (
+              <p className="flex items-center gap-2 text-amber-700">
+                <MailCheck className="h-4 w-4" />
+                Follow the link in the email we sent you to keep this booking.
+              </p>
+            )}
+            {canCancel && <p className="text-muted-foreground">{booking.refundQuote.policyDescription}.</p>}
+          </CardContent>
+          <CardFooter className="flex flex-wrap gap-2">
+            {booking.status === "pending_payment" && booking.guestVerifiedAt && !payment && (
+              <Button onClick={startPayment} disabled={isSubmitting}>Pay now</Button>
+            )}
+            {canCancel && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={isSubmitting}>Cancel booking</Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Cancel this booking?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {booking.refundQuote.amountPaidInCents > 0
+                        ? `You will be refunded ${formatCents(booking.refundQuote.refundInCents)} of the ${formatCents(booking.refundQuote.amountPaidInCents)} you paid.`
+                        : "The room will be released for others to book."}
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Keep booking</AlertDialogCancel>
+                    <AlertDialogAction onClick={cancelBooking}>Cancel booking</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+            {booking.guestVerifiedAt && (user ? (
+              <Button variant="ghost" onClick={claimBooking} disabled={isSubmitting}>Add to my account</Button>
+            ) : (
+              <Button variant="ghost" asChild>
+                <Link href="/auth">Sign in to add this booking to your account</Link>
+              </Button>
+            ))}
+          </CardFooter>
+        </Card>
+      )}
+
+      {booking && payment && (
+        <StripeCheckout
+          paymentIntentClientSecret={payment.clientSecret}
+          reservationId={booking.id}
+          amount={payment.amountInCents}
+          returnToPath={`/manage-booking?code=${encodeURIComponent(booking.confirmationCode!)}`}
+          onPaymentSucceeded={(paymentIntentId) =>
+            apiRequest("POST", "/api/guest/reservations/payment-success", { ...lookup, paymentIntentId })
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -6,9 +6,12 @@ import { Loader2 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation, useRoute, Link } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import { formatDateTimeRange } from "@/lib/utils";
-import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
+import { formatDate, formatDateTimeRange, formatTime } from "@/lib/utils";
+import { Card, CardContent, CardHeader, CardTitle, CardFooter, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
 
 export default function PaymentPage() {
   const [, params] = useRoute("/payment/:reservationId");
@@ -19,6 +22,8 @@ export default function PaymentPage() {
   const reservationId = params?.reservationId ? parseInt(params.reservationId) : null;
   
   const [paymentIntentClientSecret, setPaymentIntentClientSecret] = useState<string | null>(null);
+  const [promoCode, setPromoCode] = useState("");
+  const [isApplyingPromoCode, setIsApplyingPromoCode] = useState(false);
   
   // Fetch the reservation details
   const { data: reservation, isLoading: isReservationLoading, error } = useQuery({
@@ -70,6 +75,14 @@ export default function PaymentPage() {
         });
         navigate("/profile");
         return;
+      } else if (reservation.status === 'expired') {
+        toast({
+          title: "Reservation hold expired",
+          description: "Payment wasn't completed in time, so the room was released. Please book it again.",
+          variant: "destructive",
+        });
+        navigate("/");
+        return;
       } else {
         toast({
           title: "Invalid reservation status",
@@ -131,6 +144,60 @@ export default function PaymentPage() {
     }
   }, [reservation, user, navigate, toast, reservationId]);
   
+  // Apply a promo code; the server reprices the reservation and confirms it if nothing is left to pay
+  const handleApplyPromoCode = async () => {
+    if (!reservationId || !promoCode.trim()) return;
+    
+    setIsApplyingPromoCode(true);
+    try {
+      const response = await fetch(`/api/reservations/${reservationId}/promo-code`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: promoCode }),
+        credentials: 'include'
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        toast({
+          title: "Promo code not applied",
+          description: typeof data.error === "string" ? data.error : "Please check the code and try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+      
+      queryClient.invalidateQueries({ queryKey: ['/api/user/reservations'] });
+      
+      if (data.reservation.status === 'confirmed') {
+        toast({
+          title: "Reservation confirmed",
+          description: "Your promo code covers the full price, so no payment is needed.",
+        });
+        navigate("/profile");
+        return;
+      }
+      
+      toast({
+        title: "Promo code applied",
+        description: `${formatCents(data.quote.promo.amountInCents)} off. Your new total is ${formatCents(data.quote.totalInCents)}.`,
+      });
+      
+      // The old PaymentIntent was for the previous amount; a new one is created on refetch
+      setPaymentIntentClientSecret(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/reservations', reservationId] });
+    } catch (err) {
+      console.error("Error applying promo code:", err);
+      toast({
+        title: "Error",
+        description: "Failed to apply the promo code. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsApplyingPromoCode(false);
+    }
+  };
+  
   if (authLoading || isReservationLoading || isRoomLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -179,9 +246,18 @@ export default function PaymentPage() {
             </div>
             <div>
               <h3 className="font-medium">Price</h3>
-              <p className="text-lg font-semibold">${(reservation.priceInCents / 100).toFixed(2)}</p>
-              <p className="text-sm text-muted-foreground">($5.00 per hour)</p>
+              <p className="text-lg font-semibold">{formatCents(reservation.priceInCents)}</p>
+              {reservation.promoDiscountInCents > 0 && (
+                <p className="text-sm text-green-700">Includes a promo code discount of {formatCents(reservation.promoDiscountInCents)}</p>
+              )}
             </div>
+            {reservation.holdExpiresAt && (
+              <div>
+                <h3 className="font-medium">Room Held Until</h3>
+                <p>{formatTime(new Date(reservation.holdExpiresAt))}, {formatDate(new Date(reservation.holdExpiresAt))}</p>
+                <p className="text-sm text-muted-foreground">Unpaid reservations are released after this time</p>
+              </div>
+            )}
           </CardContent>
           <CardFooter>
             <Button variant="outline" asChild className="w-full">
@@ -190,7 +266,34 @@ export default function PaymentPage() {
           </CardFooter>
         </Card>
         
-        <div>
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Promo Code</CardTitle>
+              <CardDescription>Have a promo code or fee-waiver voucher? Apply it before paying.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="flex gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleApplyPromoCode();
+                }}
+              >
+                <Input
+                  value={promoCode}
+                  onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                  placeholder="Enter code"
+                  aria-label="Promo code"
+                  disabled={isApplyingPromoCode}
+                />
+                <Button type="submit" variant="outline" disabled={isApplyingPromoCode || !promoCode.trim()}>
+                  {isApplyingPromoCode ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+          
           <StripeCheckout 
             paymentIntentClientSecret={paymentIntentClientSecret || ''}
             reservationId={reservation.id}
@@ -1,16 +1,22 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { format, addHours } from "date-fns";
-import { AlertTriangle, Calendar, Clock, MapPin, Users } from "lucide-react";
+import { AlertTriangle, Calendar, CalendarPlus, CheckCircle2, Clock, Copy, MapPin, Repeat, Users } from "lucide-react";
 import { useState, useEffect } from "react";
-import { Reservation, Room, Location } from "@shared/schema";
+import { Reservation, ReservationSeries, Room, Location } from "@shared/schema";
+import type { RefundQuote } from "@shared/cancellation-policy";
+import type { BookingQuota, QuotaAllowance, QuotaUsage } from "@shared/booking-quota";
+import { findCheckInProblem } from "@shared/check-in";
+import { isStaff, roleLabel } from "@shared/roles";
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { 
   AlertDialog,
@@ -22,7 +28,39 @@ import {
   AlertDialogHeader,
   AlertDialogTitle
 } from "@/components/ui/alert-dialog";
-import { DateTime } from "luxon";
+import { branchDateTime, DEFAULT_TIME_ZONE } from "@shared/time-zone";
+import ReservationHistorySheet from "@/components/ReservationHistorySheet";
+import { GRID_LOCATION_ID } from "@/components/CalendarView";
+
+// Series as returned by /api/user/reservation-series
+type SeriesWithOccurrences = ReservationSeries & {
+  timeZone: string;
+  roomName: string;
+  description: string;
+  occurrences: Reservation[];
+};
+
+// Response of /api/reservations/:id/refund-quote
+type RefundQuoteResponse = RefundQuote & {
+  amountPaidInCents: number;
+  policyDescription: string;
+};
+
+// Response of /api/user/calendar-feed
+type CalendarFeedResponse = {
+  url: string;
+  webcalUrl: string;
+};
+
+// Response of /api/user/booking-allowance; staff at the branch are exempt from quotas
+type BookingAllowanceResponse =
+  | { exempt: true }
+  | ({ exempt: false; quota: BookingQuota } & QuotaAllowance);
+
+// Allowance at the branch the booking grid shows, counted in its time zone
+const bookingAllowanceUrl = `/api/user/booking-allowance?locationId=${GRID_LOCATION_ID}`;
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
 
 export default function ProfilePage() {
   const { user } = useAuth();
@@ -40,6 +78,15 @@ export default function ProfilePage() {
     enabled: !!user,
   });
 
+  // Query for user's recurring series
+  const { 
+    data: seriesList = [] as SeriesWithOccurrences[], 
+    isLoading: isLoadingSeries
+  } = useQuery<SeriesWithOccurrences[]>({
+    queryKey: ["/api/user/reservation-series"],
+    enabled: !!user,
+  });
+
   // Cancel reservation mutation
   const cancelReservationMutation = useMutation({
     mutationFn: async (reservationId: number) => {
@@ -49,19 +96,24 @@ export default function ProfilePage() {
       });
       
       if (!response.ok) {
-        throw new Error("Failed to cancel reservation");
+        const { error } = await response.json().catch(() => ({ error: undefined }));
+        throw new Error(error || "Failed to cancel reservation");
       }
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (cancelled: Reservation) => {
       toast({
         title: "Reservation cancelled",
-        description: "Your reservation has been successfully cancelled.",
+        description: cancelled.refundAmountInCents
+          ? `Your reservation has been cancelled and ${formatCents(cancelled.refundAmountInCents)} will be refunded to your card.`
+          : "Your reservation has been successfully cancelled.",
       });
       
       // Invalidate and refetch reservations
       queryClient.invalidateQueries({ queryKey: ["/api/user/reservations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reservation-series"] });
+      queryClient.invalidateQueries({ queryKey: [bookingAllowanceUrl] });
       
       // Also invalidate any date-specific queries that might be affected
       const currentDate = new Date();
@@ -83,6 +135,41 @@ export default function ProfilePage() {
     }
   });
 
+  // Cancel every upcoming occurrence of a series
+  const cancelSeriesMutation = useMutation({
+    mutationFn: async (seriesId: number) => {
+      const response = await fetch(`/api/reservation-series/${seriesId}/cancel`, {
+        method: "POST",
+        credentials: "include",
+      });
+      
+      if (!response.ok) {
+        throw new Error("Failed to cancel recurring reservation");
+      }
+      
+      return response.json();
+    },
+    onSuccess: (result: { reservations: Reservation[] }) => {
+      toast({
+        title: "Recurring reservation cancelled",
+        description: `${result.reservations.length} upcoming ${result.reservations.length === 1 ? "reservation was" : "reservations were"} cancelled.`,
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reservations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reservation-series"] });
+      queryClient.invalidateQueries({ queryKey: [bookingAllowanceUrl] });
+      
+      setSeriesToCancel(null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to cancel",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Handle errors
   if (reservationsError) {
     toast({
@@ -92,14 +179,47 @@ export default function ProfilePage() {
     });
   }
 
+  // Check in from the profile page, e.g. on arrival without scanning the room's QR code
+  const checkInMutation = useMutation({
+    mutationFn: async (confirmationCode: string) => {
+      const response = await fetch("/api/check-in", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code: confirmationCode }),
+        credentials: "include"
+      });
+      
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: undefined }));
+        throw new Error(typeof error === "string" ? error : "Failed to check in");
+      }
+      
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Checked in",
+        description: "Enjoy your reservation!",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reservations"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Check-in failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Separate reservations into past and upcoming
   const now = new Date();
   
   // Filter active (non-cancelled) reservations with start time in the future
   const upcomingReservations = reservations
     .filter((res: Reservation) => {
-      // Skip cancelled reservations
-      if (res.status === 'cancelled') return false;
+      // Skip cancelled reservations and unpaid holds that expired
+      if (res.status === 'cancelled' || res.status === 'expired') return false;
       // Only include future reservations
       return new Date(res.startTime) > now;
     })
@@ -109,17 +229,31 @@ export default function ProfilePage() {
   // Filter active (non-cancelled) reservations with start time in the past
   const pastReservations = reservations
     .filter((res: Reservation) => {
-      // Skip cancelled reservations
-      if (res.status === 'cancelled') return false;
+      // Skip cancelled reservations and unpaid holds that expired
+      if (res.status === 'cancelled' || res.status === 'expired') return false;
       // Only include past reservations
       return new Date(res.startTime) <= now;
     })
     .sort((a: Reservation, b: Reservation) => 
       new Date(b.startTime).getTime() - new Date(a.startTime).getTime());
 
+  // Only series that still have something to manage
+  const activeSeries = seriesList.filter(series =>
+    series.status !== "cancelled" &&
+    series.occurrences.some(res => isUpcomingOccurrence(res, now))
+  );
+
   // State for the cancel confirmation dialog
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
   const [reservationToCancel, setReservationToCancel] = useState<number | null>(null);
+  const [seriesToCancel, setSeriesToCancel] = useState<SeriesWithOccurrences | null>(null);
+
+  // Refund the patron would get, shown before they confirm the cancellation
+  const { data: refundQuote, isLoading: isLoadingRefundQuote } = useQuery<RefundQuoteResponse>({
+    queryKey: [`/api/reservations/${reservationToCancel}/refund-quote`],
+    enabled: cancelDialogOpen && reservationToCancel !== null,
+    staleTime: 0,
+  });
 
   // Handle opening the cancel confirmation dialog
   const openCancelDialog = (id: number) => {
@@ -143,8 +277,11 @@ export default function ProfilePage() {
               <AlertTriangle className="h-5 w-5 text-destructive" />
               Cancel Reservation
             </AlertDialogTitle>
-            <AlertDialogDescription>
-              Are you sure you want to cancel this reservation? This action cannot be undone.
+            <AlertDialogDescription asChild>
+              <div className="space-y-3">
+                <p>Are you sure you want to cancel this reservation? This action cannot be undone.</p>
+                <RefundSummary quote={refundQuote} isLoading={isLoadingRefundQuote} />
+              </div>
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -159,6 +296,32 @@ export default function ProfilePage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Series Cancellation Confirmation Dialog */}
+      <AlertDialog open={!!seriesToCancel} onOpenChange={(open) => !open && setSeriesToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Cancel Recurring Reservation
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This cancels every upcoming date in "{seriesToCancel?.purpose || "Room Reservation"}" ({seriesToCancel?.description.toLowerCase()}).
+              Past dates are kept in your history, and paid dates are refunded under the cancellation policy. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>No, Keep It</AlertDialogCancel>
+            <AlertDialogAction 
+              onClick={() => seriesToCancel && cancelSeriesMutation.mutate(seriesToCancel.id)} 
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={cancelSeriesMutation.isPending}
+            >
+              {cancelSeriesMutation.isPending ? "Cancelling..." : "Yes, Cancel All"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
       
       <div className="flex flex-col space-y-6">
         <div className="flex items-center justify-between">
@@ -188,20 +351,24 @@ export default function ProfilePage() {
               <div className="space-y-2">
                 <p className="text-sm font-medium">Email</p>
                 <p className="text-base">{user?.email || "Not provided"}</p>
+                {user?.email && <EmailVerificationStatus verified={!!user.emailVerifiedAt} />}
               </div>
               <div className="space-y-2">
                 <p className="text-sm font-medium">Account Type</p>
                 <p className="text-base">
-                  {user?.isAdmin ? 
-                    <Badge variant="default">Admin</Badge> : 
-                    <Badge variant="outline">Standard User</Badge>
-                  }
+                  <Badge variant={isStaff(user) ? "default" : "outline"}>{roleLabel(user)}</Badge>
                 </p>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        <BookingAllowanceCard />
+
+        <CalendarFeedCard />
+
+        <ClaimGuestBookingCard defaultEmail={user?.email || ""} />
+
         <Card>
           <CardHeader>
             <CardTitle>My Reservations</CardTitle>
@@ -217,6 +384,14 @@ export default function ProfilePage() {
                     </Badge>
                   )}
                 </TabsTrigger>
+                <TabsTrigger value="series">
+                  Recurring
+                  {activeSeries.length > 0 && (
+                    <Badge variant="secondary" className="ml-2">
+                      {activeSeries.length}
+                    </Badge>
+                  )}
+                </TabsTrigger>
                 <TabsTrigger value="past">
                   Past
                   {pastReservations.length > 0 && (
@@ -249,6 +424,32 @@ export default function ProfilePage() {
                         reservation={reservation}
                         onCancel={() => openCancelDialog(reservation.id)}
                         canCancel={true}
+                        onCheckIn={() => reservation.confirmationCode && checkInMutation.mutate(reservation.confirmationCode)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="series" className="mt-0">
+                {isLoadingSeries ? (
+                  <div className="space-y-4">
+                    {[1, 2].map((i) => (
+                      <ReservationSkeleton key={i} />
+                    ))}
+                  </div>
+                ) : activeSeries.length === 0 ? (
+                  <div className="text-center py-8">
+                    <p className="text-muted-foreground">You don't have any recurring reservations.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {activeSeries.map((series) => (
+                      <SeriesCard
+                        key={series.id}
+                        series={series}
+                        onCancelSeries={() => setSeriesToCancel(series)}
+                        onCancelOccurrence={openCancelDialog}
                       />
                     ))}
                   </div>
@@ -273,6 +474,7 @@ export default function ProfilePage() {
                         key={reservation.id}
                         reservation={reservation}
                         canCancel={false}
+                        onCheckIn={() => reservation.confirmationCode && checkInMutation.mutate(reservation.confirmationCode)}
                       />
                     ))}
                   </div>
@@ -290,12 +492,21 @@ export default function ProfilePage() {
 function ReservationCard({ 
   reservation, 
   onCancel, 
-  canCancel = false 
+  canCancel = false,
+  onCheckIn
 }: { 
-  reservation: Reservation; 
+  reservation: Reservation & { timeZone?: string }; 
   onCancel?: () => void; 
   canCancel?: boolean;
+  onCheckIn?: () => void;
 }) {
+  const { user } = useAuth();
+  // Times are shown at the room's branch, whatever zone the browser is in
+  const atBranch = (time: Date | string) => branchDateTime(time, reservation.timeZone ?? DEFAULT_TIME_ZONE);
+  // Offered from shortly before the start until the booking ends
+  const canCheckIn = !!onCheckIn && !!reservation.confirmationCode && !findCheckInProblem(reservation);
+  const canDownload = reservation.status === "confirmed" || reservation.status === "pending_payment";
+
   const [room, setRoom] = useState<Room | null>(null);
   const [location, setLocation] = useState<Location | null>(null);
 
@@ -325,28 +536,56 @@ function ReservationCard({
           <div className="space-y-1">
             <h3 className="font-semibold text-lg">{reservation.purpose || "Room Reservation"}</h3>
             <div className="flex flex-wrap gap-2">
+              {reservation.seriesId && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <Repeat className="w-3 h-3" />
+                  Recurring
+                </Badge>
+              )}
               <Badge variant="outline" className="flex items-center gap-1">
                 <Calendar className="w-3 h-3" />
-                {format(new Date(reservation.startTime), "MMMM d, yyyy")}
+                {atBranch(reservation.startTime).toFormat("MMMM d, yyyy")}
               </Badge>
+              {reservation.checkedInAt && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <CheckCircle2 className="w-3 h-3" />
+                  Checked in
+                </Badge>
+              )}
+              {reservation.status === "no_show" && <Badge variant="destructive">No-show</Badge>}
               <Badge variant="outline" className="flex items-center gap-1">
                 <Clock className="w-3 h-3" />
-                {DateTime.fromISO(reservation.startTime, { zone: "utc" }).setZone("America/New_York").toFormat("h:mm a")} - 
-                {DateTime.fromISO(reservation.endTime, { zone: "utc" }).setZone("America/New_York").toFormat("h:mm a")}
+                {atBranch(reservation.startTime).toFormat("h:mm a")} - 
+                {atBranch(reservation.endTime).toFormat("h:mm a")}
               </Badge>
             </div>
           </div>
 
-          {canCancel && onCancel && (
-            <Button 
-              variant="destructive" 
-              size="sm" 
-              className="mt-4 md:mt-0"
-              onClick={onCancel}
-            >
-              Cancel
-            </Button>
-          )}
+          <div className="flex gap-2 mt-4 md:mt-0">
+            {isStaff(user) && <ReservationHistorySheet reservationId={reservation.id} timeZone={reservation.timeZone} />}
+            {canDownload && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={`/api/reservations/${reservation.id}/calendar.ics`} download>
+                  <CalendarPlus className="w-4 h-4 mr-1" />
+                  Add to Calendar
+                </a>
+              </Button>
+            )}
+            {canCheckIn && (
+              <Button size="sm" onClick={onCheckIn}>
+                Check In
+              </Button>
+            )}
+            {canCancel && onCancel && (
+              <Button 
+                variant="destructive" 
+                size="sm" 
+                onClick={onCancel}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
         </div>
 
         <Separator className="my-4" />
@@ -376,6 +615,401 @@ function ReservationCard({
   );
 }
 
+// How much of the fair-use booking quota the user has left
+function BookingAllowanceCard() {
+  const { data: allowance } = useQuery<BookingAllowanceResponse>({
+    queryKey: [bookingAllowanceUrl],
+  });
+
+  if (allowance?.exempt) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Booking Allowance</CardTitle>
+        <CardDescription>
+          To keep rooms available for everyone, there are limits on how much you can book.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!allowance ? (
+          <Skeleton className="h-16 w-full" />
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <AllowanceMeter label="Hours today" usage={allowance.hoursToday} unit="hours" />
+            <AllowanceMeter label="Hours this week" usage={allowance.hoursThisWeek} unit="hours" />
+            <AllowanceMeter label="Upcoming reservations" usage={allowance.activeReservations} unit="reservations" />
+            {allowance.roomTypes.map(roomType => (
+              <AllowanceMeter
+                key={roomType.roomType}
+                label={`Upcoming ${roomType.roomType} room reservations`}
+                usage={roomType}
+                unit="reservations"
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// One quota with how much of it has been used
+function AllowanceMeter({ label, usage, unit }: { label: string; usage: QuotaUsage; unit: string }) {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="text-muted-foreground">
+          {usage.limit === null
+            ? "No limit"
+            : `${round(usage.remaining ?? 0)} of ${usage.limit} ${unit} left`}
+        </span>
+      </div>
+      {usage.limit !== null && (
+        <Progress value={Math.min(100, (usage.used / usage.limit) * 100)} className="h-2" />
+      )}
+    </div>
+  );
+}
+
+// Secret link for subscribing to all of the user's bookings from Google Calendar, Outlook, etc.
+function CalendarFeedCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: feed } = useQuery<CalendarFeedResponse>({
+    queryKey: ["/api/user/calendar-feed"],
+  });
+
+  const resetFeedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/user/calendar-feed/reset", {
+        method: "POST",
+        credentials: "include"
+      });
+      
+      if (!response.ok) {
+        throw new Error("Failed to reset calendar link");
+      }
+      
+      return response.json() as Promise<CalendarFeedResponse>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(["/api/user/calendar-feed"], data);
+      toast({
+        title: "Calendar link reset",
+        description: "Calendars subscribed with the old link will stop updating.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyFeedUrl = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast({ title: "Copied", description: "Paste the link into your calendar app to subscribe." });
+    } catch (err) {
+      console.error("Failed to copy calendar link", err);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Calendar Subscription</CardTitle>
+        <CardDescription>
+          Subscribe to this private link to see your reservations in your own calendar. Anyone with the link can see your bookings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!feed ? (
+          <Skeleton className="h-10 w-full" />
+        ) : (
+          <div className="flex flex-col md:flex-row gap-2">
+            <Input readOnly value={feed.url} aria-label="Calendar subscription link" onFocus={(e) => e.target.select()} />
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={copyFeedUrl}>
+                <Copy className="w-4 h-4 mr-1" />
+                Copy
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={feed.webcalUrl}>Subscribe</a>
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={() => resetFeedMutation.mutate()}
+                disabled={resetFeedMutation.isPending}
+              >
+                {resetFeedMutation.isPending ? "Resetting..." : "Reset Link"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Add a booking made as a guest (before signing up or while signed out) to this account
+// Whether the account's email address is confirmed, with a way to resend the confirmation link
+function EmailVerificationStatus({ verified }: { verified: boolean }) {
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/email-verification/request", {
+        method: "POST",
+        credentials: "include"
+      });
+      
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(typeof body.error === "string" ? body.error : "Failed to send the confirmation email");
+      }
+      return body as { message: string };
+    },
+    onSuccess: ({ message }) => {
+      toast({ title: "Confirmation email sent", description: message });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (verified) {
+    return (
+      <Badge variant="secondary" className="flex w-fit items-center gap-1">
+        <CheckCircle2 className="h-3 w-3" />
+        Verified
+      </Badge>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge variant="outline" className="flex items-center gap-1">
+        <AlertTriangle className="h-3 w-3" />
+        Not verified
+      </Badge>
+      <Button
+        variant="link"
+        size="sm"
+        className="h-auto p-0"
+        onClick={() => resendMutation.mutate()}
+        disabled={resendMutation.isPending}
+      >
+        {resendMutation.isPending ? "Sending..." : "Resend confirmation email"}
+      </Button>
+    </div>
+  );
+}
+
+function ClaimGuestBookingCard({ defaultEmail }: { defaultEmail: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [confirmationCode, setConfirmationCode] = useState("");
+  const [email, setEmail] = useState(defaultEmail);
+
+  const claimMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/user/reservations/claim", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ confirmationCode, email }),
+        credentials: "include"
+      });
+      
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(typeof body.error === "string" ? body.error : "Failed to add the booking");
+      }
+      
+      return response.json() as Promise<Reservation>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reservations"] });
+      queryClient.invalidateQueries({ queryKey: [bookingAllowanceUrl] });
+      setConfirmationCode("");
+      toast({
+        title: "Booking added",
+        description: "The guest booking now appears with your other reservations.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Claim a Guest Booking</CardTitle>
+        <CardDescription>
+          Booked without signing in? Enter the confirmation code and the email you booked with to add it to your account.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex flex-col md:flex-row gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            claimMutation.mutate();
+          }}
+        >
+          <Input
+            value={confirmationCode}
+            onChange={(e) => setConfirmationCode(e.target.value.toUpperCase())}
+            placeholder="LIB-XXXXXXXX"
+            aria-label="Confirmation code"
+          />
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email used for the booking"
+            aria-label="Booking email"
+          />
+          <Button type="submit" disabled={claimMutation.isPending || !confirmationCode.trim() || !email.trim()}>
+            {claimMutation.isPending ? "Adding..." : "Add Booking"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Expected refund for the reservation being cancelled
+function RefundSummary({ quote, isLoading }: { quote?: RefundQuoteResponse; isLoading: boolean }) {
+  if (isLoading) {
+    return <Skeleton className="h-12 w-full" />;
+  }
+
+  if (!quote) {
+    return null;
+  }
+
+  let message: string;
+  if (quote.tier === "not_paid") {
+    message = "Nothing has been charged for this reservation, so there is nothing to refund.";
+  } else if (quote.tier === "none") {
+    message = `It's too close to the start time for a refund; the ${formatCents(quote.amountPaidInCents)} you paid will not be returned.`;
+  } else {
+    message = `You will be refunded ${formatCents(quote.refundInCents)}` +
+      (quote.tier === "partial" ? ` (${quote.refundPercent}% of the ${formatCents(quote.amountPaidInCents)} you paid).` : " in full.");
+  }
+
+  return (
+    <div className="rounded-md border bg-muted/50 p-3 text-sm">
+      <p className="font-medium text-foreground">{message}</p>
+      <p className="mt-1 text-xs text-muted-foreground">{quote.policyDescription}.</p>
+    </div>
+  );
+}
+
+// Series occurrences that are still booked (or awaiting payment) and haven't started yet
+function isUpcomingOccurrence(res: Reservation, now: Date) {
+  return res.status !== "cancelled" && res.status !== "expired" && new Date(res.startTime) > now;
+}
+
+// Recurring series card: the pattern plus each upcoming occurrence, which can be cancelled on its own
+function SeriesCard({
+  series,
+  onCancelSeries,
+  onCancelOccurrence
+}: {
+  series: SeriesWithOccurrences;
+  onCancelSeries: () => void;
+  onCancelOccurrence: (reservationId: number) => void;
+}) {
+  const now = new Date();
+  const upcoming = series.occurrences.filter(res => isUpcomingOccurrence(res, now));
+  const toBranchTime = (time: Date | string) => branchDateTime(time, series.timeZone);
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="p-6">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+          <div className="space-y-1">
+            <h3 className="font-semibold text-lg">{series.purpose || "Room Reservation"}</h3>
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary" className="flex items-center gap-1">
+                <Repeat className="w-3 h-3" />
+                {series.description}
+              </Badge>
+              <Badge variant="outline" className="flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {series.roomName}
+              </Badge>
+              <Badge variant="outline" className="flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                {toBranchTime(series.startTime).toFormat("h:mm a")} - {toBranchTime(series.endTime).toFormat("h:mm a")}
+              </Badge>
+            </div>
+          </div>
+
+          <Button 
+            variant="destructive" 
+            size="sm" 
+            className="mt-4 md:mt-0"
+            onClick={onCancelSeries}
+          >
+            Cancel Series
+          </Button>
+        </div>
+
+        <Separator className="my-4" />
+
+        <p className="text-sm text-muted-foreground mb-2">
+          {upcoming.length} upcoming {upcoming.length === 1 ? "date" : "dates"}
+        </p>
+        <ul className="divide-y">
+          {upcoming.map(res => (
+            <li key={res.id} className="flex items-center justify-between py-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{toBranchTime(res.startTime).toFormat("EEE, MMM d, yyyy")}</span>
+                <span className="text-sm text-muted-foreground">
+                  {toBranchTime(res.startTime).toFormat("h:mm a")} - {toBranchTime(res.endTime).toFormat("h:mm a")}
+                </span>
+                {res.isSeriesException && <Badge variant="outline">Edited</Badge>}
+                {res.status === "pending_payment" && <Badge variant="outline">Payment due</Badge>}
+              </div>
+              <div className="flex gap-2">
+                {res.status === "pending_payment" && (
+                  <Button variant="outline" size="sm" onClick={() => window.location.href = `/payment/${res.id}`}>
+                    Pay
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => onCancelOccurrence(res.id)}>
+                  Cancel
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </Card>
+  );
+}
+
 // Skeleton loader for reservations
 function ReservationSkeleton() {
   return (
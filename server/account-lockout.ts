@@ -0,0 +1,25 @@
+// Accounts are locked after this many wrong passwords in a row
+export const LOCKOUT_THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5;
+
+// The first lockout lasts this long and each further wrong password doubles it, up to the maximum
+export const LOCKOUT_BASE_MINUTES = Number(process.env.LOGIN_LOCKOUT_BASE_MINUTES) || 1;
+export const LOCKOUT_MAX_MINUTES = Number(process.env.LOGIN_LOCKOUT_MAX_MINUTES) || 60;
+
+// How long to lock an account that has had `failedAttempts` wrong passwords in a row; 0 when it stays open
+export function lockoutMinutes(
+  failedAttempts: number,
+  threshold: number = LOCKOUT_THRESHOLD,
+  baseMinutes: number = LOCKOUT_BASE_MINUTES,
+  maxMinutes: number = LOCKOUT_MAX_MINUTES
+): number {
+  if (failedAttempts < threshold) return 0;
+  return Math.min(baseMinutes * 2 ** (failedAttempts - threshold), maxMinutes);
+}
+
+export function lockedUntil(failedAttempts: number, now: Date): Date | null {
+  const minutes = lockoutMinutes(failedAttempts);
+  return minutes > 0 ? new Date(now.getTime() + minutes * 60 * 1000) : null;
+}
+
+export const isLockedOut = (user: { lockedUntil: Date | null }, now: Date = new Date()) =>
+  !!user.lockedUntil && user.lockedUntil > now;
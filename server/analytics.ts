@@ -0,0 +1,48 @@
+import type { Reservation, Room } from "@shared/schema";
+import { reservationsInRange, type AnalyticsRange, type LocationSchedule } from "@shared/analytics";
+import { storage } from "./storage";
+import { DEFAULT_TIME_ZONE, locationTimeZone } from "@shared/time-zone";
+
+// Longest range a report can cover, to keep the per-hour breakdown a reasonable size
+export const MAX_ANALYTICS_DAYS = 366;
+
+// Everything the analytics reports need for one range, limited to some branches or covering all of them
+export interface AnalyticsData {
+  range: AnalyticsRange;
+  timeZone: string;
+  rooms: Room[];
+  reservations: Reservation[];
+  schedules: LocationSchedule[];
+}
+
+export async function loadAnalyticsData(range: AnalyticsRange, locationIds: number[] | "all"): Promise<AnalyticsData> {
+  const [allRooms, allReservations, locations] = await Promise.all([
+    storage.getAllRooms(),
+    storage.getAllReservations(),
+    storage.getAllLocations()
+  ]);
+
+  const included = (id: number) => locationIds === "all" || locationIds.includes(id);
+  // Days and hours are counted in the branches' zone, or in Eastern time when the branches are in different zones
+  const zones = new Set(locations.filter(location => included(location.id)).map(locationTimeZone));
+  const timeZone = zones.size === 1 ? Array.from(zones)[0] : DEFAULT_TIME_ZONE;
+  const rooms = allRooms.filter(room => included(room.locationId));
+  const roomIds = new Set(rooms.map(room => room.id));
+  const reservations = reservationsInRange(
+    allReservations.filter(reservation => roomIds.has(reservation.roomId)),
+    range,
+    timeZone
+  );
+
+  const schedules = await Promise.all(
+    locations
+      .filter(location => included(location.id))
+      .map(async location => ({
+        locationId: location.id,
+        hours: await storage.getLocationHours(location.id),
+        closures: await storage.getLocationClosures(location.id)
+      }))
+  );
+
+  return { range, timeZone, rooms, reservations, schedules };
+}
@@ -0,0 +1,68 @@
+import type { AuthToken, User } from "@shared/schema";
+import { storage } from "./storage";
+import { notifyAccount } from "./notifications";
+import { createVerificationToken, hashVerificationToken } from "./tokens";
+
+export type AuthTokenPurpose = "password_reset" | "email_verification";
+
+// How long an emailed link works
+export const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60;
+export const EMAIL_VERIFICATION_TTL_MINUTES = Number(process.env.EMAIL_VERIFICATION_TTL_MINUTES) || 48 * 60;
+
+// Links of each kind a patron can be sent per hour, so the forms can't be used to flood an inbox
+export const MAX_TOKEN_REQUESTS_PER_HOUR = Number(process.env.AUTH_TOKEN_REQUESTS_PER_HOUR) || 3;
+
+// When set, patrons must confirm their email address before booking a room that costs money
+export const REQUIRE_VERIFIED_EMAIL_FOR_PAID_BOOKINGS = process.env.REQUIRE_VERIFIED_EMAIL_FOR_PAID_BOOKINGS === "true";
+
+const ttlMinutes: Record<AuthTokenPurpose, number> = {
+  password_reset: PASSWORD_RESET_TTL_MINUTES,
+  email_verification: EMAIL_VERIFICATION_TTL_MINUTES
+};
+
+const emailTemplates = {
+  password_reset: "password_reset",
+  email_verification: "verify_email"
+} as const;
+
+// Create a single-use link for the user and email it to them. Returns false, without sending
+// anything, when they have already been sent MAX_TOKEN_REQUESTS_PER_HOUR links of this kind.
+export async function sendAuthToken(user: User, purpose: AuthTokenPurpose, now: Date = new Date()): Promise<boolean> {
+  if (!user.email) return false;
+
+  const hourAgo = new Date(now.getTime() - 60 * 60 * 1000);
+  if (await storage.countAuthTokensSince(user.id, purpose, hourAgo) >= MAX_TOKEN_REQUESTS_PER_HOUR) {
+    return false;
+  }
+
+  const { token, hash } = createVerificationToken();
+  const authToken = await storage.createAuthToken({
+    userId: user.id,
+    purpose,
+    tokenHash: hash,
+    email: user.email,
+    expiresAt: new Date(now.getTime() + ttlMinutes[purpose] * 60 * 1000)
+  });
+
+  await notifyAccount(emailTemplates[purpose], user, user.email, {
+    token,
+    expiresInMinutes: ttlMinutes[purpose],
+    dedupeKey: `${emailTemplates[purpose]}:${authToken.id}`
+  });
+  return true;
+}
+
+// Redeem a link. Returns undefined if the token is unknown, expired or already used.
+export function redeemAuthToken(purpose: AuthTokenPurpose, token: string, now: Date = new Date()): Promise<AuthToken | undefined> {
+  return storage.consumeAuthToken(purpose, hashVerificationToken(token), now);
+}
+
+// Whether a booking must wait until the patron confirms their email address. Staff are never held up.
+export function needsVerifiedEmail(
+  user: Pick<User, "emailVerifiedAt"> | undefined,
+  priceInCents: number,
+  isStaff: boolean,
+  required: boolean = REQUIRE_VERIFIED_EMAIL_FOR_PAID_BOOKINGS
+): boolean {
+  return required && priceInCents > 0 && !isStaff && !!user && !user.emailVerifiedAt;
+}
@@ -1,11 +1,17 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type RequestHandler, type Response } from "express";
+import type { IncomingMessage } from "http";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User } from "@shared/schema";
+import type { StaffGrant } from "@shared/roles";
+import { ZodError, z } from "zod";
+import { redeemAuthToken, sendAuthToken } from "./auth-tokens";
+import { isLockedOut } from "./account-lockout";
+import { loginRateLimit, passwordResetRateLimit, registerRateLimit } from "./rate-limiters";
 
 // Define the user interface for passport
 interface PassportUser {
@@ -14,8 +20,14 @@ interface PassportUser {
   password: string;
   name: string | null;
   email: string | null;
+  role: string;
   isAdmin: boolean | null;
+  calendarToken: string | null;
+  emailVerifiedAt: Date | null;
+  failedLoginAttempts: number;
+  lockedUntil: Date | null;
   createdAt: Date | null;
+  staffAssignments: StaffGrant[];
 }
 
 declare global {
@@ -40,6 +52,62 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+const passwordResetRequestSchema = z.object({
+  email: z.string().email()
+});
+
+const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6, "Password must be at least 6 characters")
+});
+
+const emailVerificationSchema = z.object({
+  token: z.string().min(1)
+});
+
+interface LoginFailure {
+  message: string;
+  retryAfterSeconds?: number;
+}
+
+const lockedOutInfo = (until: Date): LoginFailure => {
+  const retryAfterSeconds = Math.max(Math.ceil((until.getTime() - Date.now()) / 1000), 1);
+  return { message: "Too many failed sign-in attempts. This account is temporarily locked", retryAfterSeconds };
+};
+
+// Attach the branches the user works at, which decide what they can manage
+async function withStaffAssignments(user: User): Promise<Express.User> {
+  const assignments = await storage.getStaffAssignmentsByUser(user.id);
+  return {
+    ...user,
+    staffAssignments: assignments.map(({ locationId, role }) => ({ locationId, role }))
+  };
+}
+
+// Reads the session cookie; kept so requests outside Express can be authenticated too
+let sessionParser: RequestHandler | undefined;
+
+// Passport keeps the signed-in user's id in the session
+type PassportSession = session.Session & { passport?: { user?: number } };
+
+// The signed-in user behind a request that doesn't go through Express, such as a WebSocket
+// handshake, read from the same session cookie; undefined for anonymous visitors
+export function sessionUser(req: IncomingMessage): Promise<Express.User | undefined> {
+  return new Promise((resolve, reject) => {
+    if (!sessionParser) return resolve(undefined);
+
+    sessionParser(req as Request, {} as Response, (err?: unknown) => {
+      if (err) return reject(err);
+      const userId = ((req as Request).session as PassportSession | undefined)?.passport?.user;
+      if (userId === undefined) return resolve(undefined);
+
+      storage.getUser(userId)
+        .then(user => user ? withStaffAssignments(user) : undefined)
+        .then(resolve, reject);
+    });
+  });
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "library-room-reservation-secret",
@@ -53,7 +121,8 @@ export function setupAuth(app: Express) {
   };
 
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  sessionParser = session(sessionSettings);
+  app.use(sessionParser);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -61,11 +130,25 @@ export function setupAuth(app: Express) {
     new LocalStrategy(async (username, password, done) => {
       try {
         const user = await storage.getUserByUsername(username);
-        if (!user || !(await comparePasswords(password, user.password))) {
+        if (!user) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        // Locked accounts are refused without checking the password, so guessing can't continue meanwhile
+        if (isLockedOut(user)) {
+          return done(null, false, lockedOutInfo(user.lockedUntil!));
+        }
+        if (!(await comparePasswords(password, user.password))) {
+          const updated = await storage.recordFailedLogin(user.id, new Date());
+          if (updated && isLockedOut(updated)) {
+            return done(null, false, lockedOutInfo(updated.lockedUntil!));
+          }
           return done(null, false, { message: "Invalid username or password" });
-        } else {
-          return done(null, user);
         }
+
+        if (user.failedLoginAttempts > 0) {
+          await storage.clearFailedLogins(user.id);
+        }
+        return done(null, await withStaffAssignments({ ...user, failedLoginAttempts: 0, lockedUntil: null }));
       } catch (err) {
         return done(err);
       }
@@ -79,24 +162,30 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user ? await withStaffAssignments(user) : undefined);
     } catch (err) {
       done(err, null);
     }
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", registerRateLimit, async (req, res, next) => {
     try {
       const existingUser = await storage.getUserByUsername(req.body.username);
       if (existingUser) {
         return res.status(400).json({ error: "Username already exists" });
       }
 
-      const hashedPassword = await hashPassword(req.body.password);
-      const user = await storage.createUser({
-        ...req.body,
+      // New accounts are always patrons; roles are granted by a system admin
+      const { username, password, name, email } = req.body;
+      const hashedPassword = await hashPassword(password);
+      const user = await withStaffAssignments(await storage.createUser({
+        username,
+        name,
+        email,
         password: hashedPassword,
-      });
+      }));
+
+      await sendAuthToken(user, "email_verification");
 
       req.login(user, (err) => {
         if (err) return next(err);
@@ -109,15 +198,19 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: any, user: User | false, info: { message: string }) => {
+  app.post("/api/login", loginRateLimit, (req, res, next) => {
+    passport.authenticate("local", (err: any, user: Express.User | false, info: LoginFailure) => {
       if (err) return next(err);
+      if (user === false && info?.retryAfterSeconds) {
+        res.set("Retry-After", String(info.retryAfterSeconds));
+        return res.status(429).json({ error: info.message, retryAfterSeconds: info.retryAfterSeconds });
+      }
       if (!user) return res.status(401).json({ error: info?.message || "Invalid credentials" });
       
       req.login(user, (err: any) => {
         if (err) return next(err);
         // Return user without password
-        const { password, ...userWithoutPassword } = user as User;
+        const { password, ...userWithoutPassword } = user;
         res.status(200).json(userWithoutPassword);
       });
     })(req, res, next);
@@ -133,7 +226,76 @@ export function setupAuth(app: Express) {
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.status(401).json({ error: "Not authenticated" });
     // Return user without password
-    const { password, ...userWithoutPassword } = req.user as User;
+    const { password, ...userWithoutPassword } = req.user;
     res.json(userWithoutPassword);
   });
-}
\ No newline at end of file
+
+  // ---- Password reset and email verification ----
+
+  // Always answers the same way, so the form can't be used to find out which addresses have accounts
+  app.post("/api/password-reset/request", passwordResetRateLimit, async (req, res, next) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      for (const user of await storage.getUsersByEmail(email)) {
+        await sendAuthToken(user, "password_reset");
+      }
+      res.status(202).json({ message: "If an account uses that email address, we've sent it a link to reset the password." });
+    } catch (err) {
+      if (err instanceof ZodError) return res.status(400).json({ error: err.errors });
+      next(err);
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req, res, next) => {
+    try {
+      const { token, password } = passwordResetSchema.parse(req.body);
+      const authToken = await redeemAuthToken("password_reset", token);
+      if (!authToken) {
+        return res.status(400).json({ error: "This reset link is invalid or has expired. Please request a new one." });
+      }
+
+      await storage.updateUser(authToken.userId, { password: await hashPassword(password) });
+      // Proving control of the email address also lifts a lockout
+      await storage.clearFailedLogins(authToken.userId);
+      // Any other reset links sent before this one stop working
+      await storage.revokeAuthTokens(authToken.userId, "password_reset", new Date());
+      res.json({ message: "Your password has been reset. You can now sign in." });
+    } catch (err) {
+      if (err instanceof ZodError) return res.status(400).json({ error: err.errors });
+      next(err);
+    }
+  });
+
+  app.post("/api/email-verification/request", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.status(401).json({ error: "Not authenticated" });
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user?.email) return res.status(400).json({ error: "Add an email address to your account first" });
+      if (user.emailVerifiedAt) return res.status(400).json({ error: "Your email address is already confirmed" });
+
+      if (!(await sendAuthToken(user, "email_verification"))) {
+        res.set("Retry-After", "3600");
+        return res.status(429).json({ error: "Too many confirmation emails requested. Please try again later." });
+      }
+      res.status(202).json({ message: `We've sent a confirmation link to ${user.email}.` });
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/email-verification/confirm", async (req, res, next) => {
+    try {
+      const { token } = emailVerificationSchema.parse(req.body);
+      const authToken = await redeemAuthToken("email_verification", token);
+      // The link only confirms the address it was sent to, so it stops working if the email has changed since
+      const user = authToken && await storage.markEmailVerified(authToken.userId, authToken.email, new Date());
+      if (!user) {
+        return res.status(400).json({ error: "This confirmation link is invalid or has expired." });
+      }
+      res.json({ message: "Your email address has been confirmed." });
+    } catch (err) {
+      if (err instanceof ZodError) return res.status(400).json({ error: err.errors });
+      next(err);
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import type { Location, Room } from "@shared/schema";
+import {
+  branchMinutesToDateTime,
+  computeDayAvailability,
+  MAX_BUFFER_MINUTES,
+  roomSlotMinutes,
+  type BranchAvailability,
+} from "@shared/availability";
+import { blackoutPeriods } from "@shared/blackouts";
+import { minutesToTime } from "@shared/opening-hours";
+import { locationTimeZone } from "@shared/time-zone";
+import { storage, isActiveReservation } from "./storage";
+
+// Optional narrowing of the rooms listed
+export interface RoomFilters {
+  capacity?: number; // seats needed
+  features?: string[]; // every one must be present, ignoring case
+}
+
+export const matchesRoomFilters = (room: Room, { capacity, features }: RoomFilters) => {
+  if (capacity !== undefined && room.capacity < capacity) {
+    return false;
+  }
+  const roomFeatures = (room.features ?? []).map(feature => feature.toLowerCase());
+  return (features ?? []).every(feature => roomFeatures.includes(feature.toLowerCase()));
+};
+
+// Free/busy grid for the bookable rooms of a branch on a date (yyyy-MM-dd at the branch)
+export async function loadBranchAvailability(location: Location, date: string, filters: RoomFilters = {}): Promise<BranchAvailability> {
+  const timeZone = locationTimeZone(location);
+  // The branch's day as UTC instants, widened so bookings whose buffers reach into it are found too
+  const dayStart = branchMinutesToDateTime(date, 0, timeZone).minus({ minutes: 2 * MAX_BUFFER_MINUTES });
+  const dayEnd = branchMinutesToDateTime(date, 24 * 60, timeZone).plus({ minutes: 2 * MAX_BUFFER_MINUTES });
+  const [rooms, hours, closures, reservations, blackouts] = await Promise.all([
+    storage.getRoomsByLocation(location.id),
+    storage.getLocationHours(location.id),
+    storage.getLocationClosures(location.id),
+    storage.getReservationsBetween(dayStart.toJSDate(), dayEnd.toJSDate()),
+    storage.getRoomBlackoutsByLocation(location.id)
+  ]);
+
+  const listed = rooms.filter(room => room.isActive !== false && matchesRoomFilters(room, filters));
+  const roomIds = new Set(listed.map(room => room.id));
+  const { window, rooms: slotsByRoom } = computeDayAvailability({
+    date,
+    timeZone,
+    hours,
+    closures,
+    rooms: listed.map(room => ({
+      roomId: room.id,
+      slotMinutes: roomSlotMinutes(room, location),
+      setupBufferMinutes: room.setupBufferMinutes,
+      cleanupBufferMinutes: room.cleanupBufferMinutes
+    })),
+    busy: reservations.filter(reservation => roomIds.has(reservation.roomId) && isActiveReservation(reservation)),
+    blackouts: blackouts.flatMap(blackout => blackoutPeriods(blackout, timeZone))
+  });
+
+  return {
+    date,
+    locationId: location.id,
+    timeZone,
+    slotMinutes: roomSlotMinutes({}, location),
+    openingHours: window && { open: minutesToTime(window.openMinutes), close: minutesToTime(window.closeMinutes) },
+    rooms: listed.map((room, index) => ({ ...room, slotMinutes: slotsByRoom[index].slotMinutes, slots: slotsByRoom[index].slots }))
+  };
+}
@@ -0,0 +1,102 @@
+import type { Room } from "@shared/schema";
+import {
+  defaultBookingQuota,
+  findQuotaViolation,
+  remainingAllowance,
+  type BookingQuota,
+  type QuotaAllowance,
+  type QuotaBooking,
+  type QuotaViolation,
+} from "@shared/booking-quota";
+import { storage, isActiveReservation } from "./storage";
+import { locationTimeZone } from "@shared/time-zone";
+
+// Read a limit, keeping the default when it is unset; 0 turns the limit off
+const limitFromEnv = (name: string, fallback: number | null) => {
+  const value = Number(process.env[name]);
+  if (process.env[name] === undefined || Number.isNaN(value)) return fallback;
+  return value > 0 ? value : null;
+};
+
+// Per-room-type limits as "group=2,conference=1"
+const roomTypeLimitsFromEnv = (name: string, fallback: Record<string, number>) => {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+
+  const limits: Record<string, number> = {};
+  for (const entry of raw.split(",")) {
+    const [roomType, limit] = entry.split("=").map(part => part.trim());
+    if (roomType && Number(limit) > 0) {
+      limits[roomType] = Number(limit);
+    }
+  }
+  return limits;
+};
+
+// Fair-use limits for patrons; staff accounts are exempt
+export const bookingQuota: BookingQuota = {
+  maxHoursPerDay: limitFromEnv("QUOTA_MAX_HOURS_PER_DAY", defaultBookingQuota.maxHoursPerDay),
+  maxHoursPerWeek: limitFromEnv("QUOTA_MAX_HOURS_PER_WEEK", defaultBookingQuota.maxHoursPerWeek),
+  maxActiveReservations: limitFromEnv("QUOTA_MAX_ACTIVE_RESERVATIONS", defaultBookingQuota.maxActiveReservations),
+  maxActivePerRoomType: roomTypeLimitsFromEnv("QUOTA_MAX_ACTIVE_PER_ROOM_TYPE", defaultBookingQuota.maxActivePerRoomType)
+};
+
+// The patron's reservations that still hold their room, with each room's type. Reservations being
+// moved are left out, as they no longer hold their old time.
+async function quotaBookings(userId: number, excludeReservationIds: number[] = []): Promise<QuotaBooking[]> {
+  const [reservations, rooms] = await Promise.all([
+    storage.getReservationsByUser(userId),
+    storage.getAllRooms()
+  ]);
+  const roomTypes = new Map(rooms.map(room => [room.id, room.roomType]));
+
+  return reservations
+    .filter(reservation => isActiveReservation(reservation) && !excludeReservationIds.includes(reservation.id))
+    .map(reservation => ({
+      startTime: reservation.startTime,
+      endTime: reservation.endTime,
+      roomType: roomTypes.get(reservation.roomId) ?? null
+    }));
+}
+
+// Check a patron's new bookings of `room` against the quota, in order, each counted on top of the
+// ones before it that fit (e.g. the occurrences of a series). Returns a violation or null for each.
+export async function checkBookingQuotas(
+  userId: number,
+  room: Room,
+  bookings: { startTime: Date; endTime: Date }[],
+  excludeReservationIds: number[] = [],
+  now: Date = new Date()
+): Promise<(QuotaViolation | null)[]> {
+  const [existing, timeZone] = await Promise.all([
+    quotaBookings(userId, excludeReservationIds),
+    storage.getRoomTimeZone(room.id)
+  ]);
+
+  // Days and weeks are counted at the branch being booked
+  return bookings.map(({ startTime, endTime }) => {
+    const proposed = { startTime, endTime, roomType: room.roomType };
+    const violation = findQuotaViolation(bookingQuota, existing, proposed, now, timeZone);
+    if (!violation) existing.push(proposed);
+    return violation;
+  });
+}
+
+// Check a patron's new booking of `room` against the quota; returns null when it is allowed
+export async function checkBookingQuota(
+  userId: number,
+  room: Room,
+  startTime: Date,
+  endTime: Date,
+  excludeReservationIds: number[] = [],
+  now: Date = new Date()
+): Promise<QuotaViolation | null> {
+  const [violation] = await checkBookingQuotas(userId, room, [{ startTime, endTime }], excludeReservationIds, now);
+  return violation;
+}
+
+// What the patron can still book today and this week, with days and weeks counted at the branch
+export async function getBookingAllowance(userId: number, locationId: number, now: Date = new Date()): Promise<QuotaAllowance> {
+  const [bookings, location] = await Promise.all([quotaBookings(userId), storage.getLocation(locationId)]);
+  return remainingAllowance(bookingQuota, bookings, now, locationTimeZone(location));
+}
@@ -0,0 +1,111 @@
+import { randomBytes } from "crypto";
+import type { Location, Reservation, Room, User } from "@shared/schema";
+import { buildCalendar, type CalendarEvent } from "@shared/icalendar";
+import { locationTimeZone } from "@shared/time-zone";
+import { storage, isActiveReservation } from "./storage";
+
+// How far back subscription feeds go; older bookings are dropped to keep feeds small
+const FEED_HISTORY_DAYS = 90;
+
+// New secret for a patron's subscription feed URL
+export function generateCalendarToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+const reservationUid = (reservation: Reservation) => `reservation-${reservation.id}@library-room-reservations`;
+
+const describeRoomLocation = (room?: Room, location?: Location) =>
+  [room?.name, location?.name, location?.address].filter(Boolean).join(", ");
+
+// A patron's own booking, with the details they need to turn up
+function reservationEvent(reservation: Reservation, room?: Room, location?: Location): CalendarEvent {
+  const description = [
+    `Confirmation code: ${reservation.confirmationCode}`,
+    reservation.purpose && `Purpose: ${reservation.purpose}`,
+    reservation.status === "pending_payment" && "Awaiting payment",
+    reservation.status === "no_show" && "Released because nobody checked in"
+  ].filter(Boolean).join("\n");
+
+  return {
+    uid: reservationUid(reservation),
+    timeZone: locationTimeZone(location),
+    start: reservation.startTime,
+    end: reservation.endTime,
+    summary: `Room booking: ${room?.name ?? `Room #${reservation.roomId}`}`,
+    description,
+    location: describeRoomLocation(room, location),
+    // Released bookings stay in the feed as cancelled so subscribed calendars remove them
+    status: !isActiveReservation(reservation)
+      ? "CANCELLED"
+      : reservation.status === "confirmed" ? "CONFIRMED" : "TENTATIVE",
+    lastModified: reservation.updatedAt ?? reservation.createdAt
+  };
+}
+
+// Look up the rooms and branches for a set of reservations
+async function loadRoomsAndLocations(reservations: Reservation[]) {
+  const roomIds = Array.from(new Set(reservations.map(r => r.roomId)));
+  const rooms = (await Promise.all(roomIds.map(id => storage.getRoom(id)))).filter((r): r is Room => !!r);
+  const locationIds = Array.from(new Set(rooms.map(r => r.locationId)));
+  const locations = (await Promise.all(locationIds.map(id => storage.getLocation(id)))).filter((l): l is Location => !!l);
+
+  return {
+    roomFor: (reservation: Reservation) => rooms.find(r => r.id === reservation.roomId),
+    locationFor: (room?: Room) => room && locations.find(l => l.id === room.locationId)
+  };
+}
+
+// Subscription feed of everything a patron has booked
+export async function buildUserFeed(user: User, now: Date = new Date()): Promise<string> {
+  const since = new Date(now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const reservations = (await storage.getReservationsByUser(user.id))
+    // Abandoned checkouts never made it into anyone's calendar
+    .filter(r => r.endTime > since && r.status !== "expired" && r.status !== "payment_failed");
+  const { roomFor, locationFor } = await loadRoomsAndLocations(reservations);
+
+  return buildCalendar({
+    name: "My Room Reservations",
+    // Each booking carries its own branch's zone; this is only the calendar's default
+    timeZone: locationTimeZone(),
+    now,
+    events: reservations.map(r => {
+      const room = roomFor(r);
+      return reservationEvent(r, room, locationFor(room));
+    })
+  });
+}
+
+// Public feed of when a room is taken. Only the times are published, never who booked it.
+export async function buildRoomBusyFeed(room: Room, now: Date = new Date()): Promise<string> {
+  const since = new Date(now.getTime() - FEED_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const location = await storage.getLocation(room.locationId);
+  const reservations = (await storage.getReservationsByRoom(room.id))
+    .filter(r => r.endTime > since && isActiveReservation(r));
+
+  return buildCalendar({
+    name: `${room.name} (busy times)`,
+    timeZone: locationTimeZone(location),
+    now,
+    events: reservations.map(r => ({
+      uid: reservationUid(r),
+      start: r.startTime,
+      end: r.endTime,
+      summary: "Reserved",
+      location: describeRoomLocation(room, location),
+      status: "CONFIRMED" as const
+    }))
+  });
+}
+
+// A single booking as a downloadable .ics file
+export async function buildReservationIcs(reservation: Reservation, now: Date = new Date()): Promise<string> {
+  const room = await storage.getRoom(reservation.roomId);
+  const location = room ? await storage.getLocation(room.locationId) : undefined;
+
+  return buildCalendar({
+    name: `Reservation ${reservation.confirmationCode}`,
+    timeZone: locationTimeZone(location),
+    now,
+    events: [reservationEvent(reservation, room, location)]
+  });
+}
@@ -0,0 +1,93 @@
+import type Stripe from "stripe";
+import type { Reservation } from "@shared/schema";
+import type { AuditActor } from "@shared/audit";
+import {
+  defaultCancellationPolicy,
+  quoteRefund,
+  type CancellationPolicy,
+  type RefundQuote,
+} from "@shared/cancellation-policy";
+import { storage } from "./storage";
+import { releasePaymentIntent } from "./hold-expiry";
+
+// Read a numeric setting, keeping the default when it is unset or not a number (0 is a valid value)
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return process.env[name] === undefined || Number.isNaN(value) ? fallback : value;
+};
+
+// Refund policy for patron cancellations; each threshold can be overridden per deployment
+export const cancellationPolicy: CancellationPolicy = {
+  fullRefundHours: numberFromEnv("CANCELLATION_FULL_REFUND_HOURS", defaultCancellationPolicy.fullRefundHours),
+  partialRefundHours: numberFromEnv("CANCELLATION_PARTIAL_REFUND_HOURS", defaultCancellationPolicy.partialRefundHours),
+  partialRefundPercent: numberFromEnv("CANCELLATION_PARTIAL_REFUND_PERCENT", defaultCancellationPolicy.partialRefundPercent)
+};
+
+// Amount charged through Stripe for a reservation, or 0 if it hasn't been paid
+export function amountPaidInCents(reservation: Reservation): number {
+  return reservation.paymentStatus === "completed" && reservation.stripePaymentIntentId
+    ? reservation.priceInCents ?? 0
+    : 0;
+}
+
+// Refund a patron would get for cancelling now. Staff cancellations waive the policy.
+export function quoteCancellation(reservation: Reservation, waivePolicy = false, now: Date = new Date()): RefundQuote {
+  return quoteRefund(cancellationPolicy, amountPaidInCents(reservation), reservation.startTime, now, waivePolicy);
+}
+
+// The refund issued by an earlier attempt at cancelling the reservation, if any
+async function previousCancellationRefund(stripe: Stripe, reservation: Reservation): Promise<Stripe.Refund | undefined> {
+  const refunds = await stripe.refunds.list({ payment_intent: reservation.stripePaymentIntentId!, limit: 100 });
+  return refunds.data.find(refund =>
+    refund.metadata?.reservationId === reservation.id.toString() && refund.status !== "failed" && refund.status !== "canceled"
+  );
+}
+
+// Cancel a reservation and refund it according to the policy. The refund is issued first, so if
+// Stripe fails the booking is left untouched and the patron can simply try again.
+export async function cancelWithRefund(
+  stripe: Stripe,
+  reservation: Reservation,
+  actor: AuditActor,
+  waivePolicy = false
+): Promise<{ reservation: Reservation | undefined; quote: RefundQuote }> {
+  const quote = quoteCancellation(reservation, waivePolicy);
+
+  // Retrying a cancellation that failed after the refund must not refund twice. The first refund
+  // stands even if the policy would now give a different amount.
+  let refund = amountPaidInCents(reservation) > 0 ? await previousCancellationRefund(stripe, reservation) : undefined;
+  if (!refund && quote.refundInCents > 0) {
+    refund = await stripe.refunds.create(
+      {
+        payment_intent: reservation.stripePaymentIntentId!,
+        amount: quote.refundInCents,
+        reason: "requested_by_customer",
+        metadata: { reservationId: reservation.id.toString(), refundTier: quote.tier }
+      },
+      { idempotencyKey: `reservation-${reservation.id}-cancellation-refund-${quote.refundInCents}` }
+    );
+  }
+
+  // Close the checkout of a hold so the patron can't pay for a booking they cancelled. A payment that
+  // was already under way is refunded by the webhook when it succeeds.
+  if (reservation.status === "pending_payment" && reservation.stripePaymentIntentId) {
+    await releasePaymentIntent(stripe, reservation.stripePaymentIntentId);
+  }
+
+  const cancelled = await storage.updateReservation(reservation.id, {
+    status: "cancelled",
+    ...(refund && {
+      refundAmountInCents: refund.amount,
+      stripeRefundId: refund.id,
+      refundedAt: new Date(),
+      paymentStatus: refund.amount >= amountPaidInCents(reservation) ? "refunded" : "partially_refunded"
+    })
+  }, actor);
+
+  // A promo code on a booking that was never paid for can be used again
+  if (reservation.status === "pending_payment" && reservation.promoCodeId) {
+    await storage.releasePromoCode(reservation.promoCodeId);
+  }
+
+  return { reservation: cancelled, quote };
+}
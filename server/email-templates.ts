@@ -0,0 +1,214 @@
+import { DateTime } from "luxon";
+import type { Reservation } from "@shared/schema";
+import { isGuestBooking } from "./guest-booking";
+
+export type EmailTemplate =
+  | "booking_confirmed"
+  | "payment_failed"
+  | "booking_cancelled"
+  | "room_unavailable"
+  | "refund_issued"
+  | "booking_reminder"
+  | "verify_booking";
+
+// Everything a reservation email can mention
+export interface ReservationEmailContext {
+  recipientName: string | null;
+  reservation: Reservation;
+  roomName: string;
+  locationName: string | null;
+  timeZone: string;
+  appUrl: string;
+  refundInCents?: number;
+  verificationToken?: string; // Guest bookings only; the raw token is never stored
+  reason?: string; // Why the room became unavailable
+}
+
+export type AccountEmailTemplate = "password_reset" | "verify_email";
+
+// Everything an email about a patron's account can mention
+export interface AccountEmailContext {
+  recipientName: string | null;
+  username: string;
+  appUrl: string;
+  token: string;
+  expiresInMinutes: number;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+// Wording of each email: a subject, the opening paragraphs and an optional call to action
+interface TemplateContent {
+  subject: string;
+  paragraphs: string[];
+  action?: { label: string; url: string };
+}
+
+// Guests have no profile page, so they manage their booking by its confirmation code
+function manageBookingAction({ reservation, appUrl }: ReservationEmailContext, label: string) {
+  return isGuestBooking(reservation)
+    ? { label, url: `${appUrl}/manage-booking?code=${encodeURIComponent(reservation.confirmationCode ?? "")}` }
+    : { label, url: `${appUrl}/profile` };
+}
+
+const templates: Record<EmailTemplate, (ctx: ReservationEmailContext) => TemplateContent> = {
+  booking_confirmed: (ctx) => ({
+    subject: `Booking confirmed: ${ctx.roomName}`,
+    paragraphs: [
+      `Your reservation is confirmed. Please bring your confirmation code ${ctx.reservation.confirmationCode} and check in when you arrive.`
+    ],
+    action: manageBookingAction(ctx, "View my reservations")
+  }),
+
+  payment_failed: (ctx) => ({
+    subject: `Payment failed: ${ctx.roomName}`,
+    paragraphs: [
+      "We couldn't take payment for your reservation, so it isn't confirmed yet.",
+      "The room is held for a short time; try again with another card before the hold runs out."
+    ],
+    action: isGuestBooking(ctx.reservation)
+      ? manageBookingAction(ctx, "Retry payment")
+      : { label: "Retry payment", url: `${ctx.appUrl}/payment/${ctx.reservation.id}` }
+  }),
+
+  booking_cancelled: ({ refundInCents, appUrl }) => ({
+    subject: "Your reservation has been cancelled",
+    paragraphs: [
+      "This reservation has been cancelled and the room released.",
+      refundInCents
+        ? `A refund of ${formatCents(refundInCents)} is on its way to your card; we'll email you a receipt.`
+        : "No payment was refunded."
+    ],
+    action: { label: "Book another room", url: appUrl }
+  }),
+
+  room_unavailable: ({ reason, refundInCents, appUrl }) => ({
+    subject: "Your reservation has been cancelled: room unavailable",
+    paragraphs: [
+      `We're sorry: the room has been taken out of use${reason ? ` (${reason})` : ""} at the time of your reservation, so we've had to cancel it.`,
+      refundInCents
+        ? `A full refund of ${formatCents(refundInCents)} is on its way to your card; we'll email you a receipt.`
+        : "No payment was taken for it."
+    ],
+    action: { label: "Book another room", url: appUrl }
+  }),
+
+  refund_issued: ({ refundInCents, reservation }) => ({
+    subject: `Refund of ${formatCents(refundInCents ?? 0)} issued`,
+    paragraphs: [
+      `We've refunded ${formatCents(refundInCents ?? 0)} for reservation ${reservation.confirmationCode}.`,
+      "It can take 5-10 business days to appear on your statement."
+    ]
+  }),
+
+  booking_reminder: (ctx) => ({
+    subject: "Reminder: your room reservation is coming up",
+    paragraphs: [
+      `Your reservation starts soon. Check in at the desk with code ${ctx.reservation.confirmationCode} or scan the QR code in the room.`,
+      "If you no longer need the room, please cancel so someone else can use it."
+    ],
+    action: manageBookingAction(ctx, "Manage my reservations")
+  }),
+
+  verify_booking: ({ reservation, roomName, appUrl, verificationToken }) => ({
+    subject: `Confirm your booking: ${roomName}`,
+    paragraphs: [
+      "Please confirm your email address to keep this booking. The room is only held for a short time; if you don't confirm, it is released.",
+      "Keep your confirmation code: together with this email address it lets you view, pay for or cancel the booking."
+    ],
+    action: {
+      label: "Confirm my booking",
+      url: `${appUrl}/manage-booking?code=${encodeURIComponent(reservation.confirmationCode ?? "")}&token=${encodeURIComponent(verificationToken ?? "")}`
+    }
+  })
+};
+
+// e.g. "30 minutes", "48 hours"
+const formatDuration = (minutes: number) =>
+  minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? "" : "s"}` : `${minutes} minutes`;
+
+const accountTemplates: Record<AccountEmailTemplate, (ctx: AccountEmailContext) => TemplateContent> = {
+  password_reset: ({ username, appUrl, token, expiresInMinutes }) => ({
+    subject: "Reset your password",
+    paragraphs: [
+      `We received a request to reset the password for your account ${username}.`,
+      `The link works once and expires in ${formatDuration(expiresInMinutes)}. If you didn't ask to reset your password, you can ignore this email.`
+    ],
+    action: { label: "Choose a new password", url: `${appUrl}/auth?reset=${encodeURIComponent(token)}` }
+  }),
+
+  verify_email: ({ username, appUrl, token, expiresInMinutes }) => ({
+    subject: "Confirm your email address",
+    paragraphs: [
+      `Please confirm that this is the email address for your account ${username}.`,
+      `The link expires in ${formatDuration(expiresInMinutes)}.`
+    ],
+    action: { label: "Confirm my email", url: `${appUrl}/auth?verify=${encodeURIComponent(token)}` }
+  })
+};
+
+// Room, time and code block shared by every email
+function reservationDetails({ reservation, roomName, locationName, timeZone }: ReservationEmailContext): [string, string][] {
+  const start = DateTime.fromJSDate(reservation.startTime).setZone(timeZone);
+  const end = DateTime.fromJSDate(reservation.endTime).setZone(timeZone);
+
+  return [
+    ["Room", roomName],
+    ...(locationName ? [["Location", locationName] as [string, string]] : []),
+    ["Date", start.toFormat("cccc, MMMM d, yyyy")],
+    ["Time", `${start.toFormat("h:mm a")} - ${end.toFormat("h:mm a ZZZZ")}`],
+    ["Confirmation code", reservation.confirmationCode ?? "-"]
+  ];
+}
+
+// Render an email about a reservation as a text and an HTML body
+export function renderReservationEmail(template: EmailTemplate, ctx: ReservationEmailContext): RenderedEmail {
+  return renderEmail(templates[template](ctx), ctx.recipientName, reservationDetails(ctx));
+}
+
+// Render an email about a patron's account, e.g. a password reset link
+export function renderAccountEmail(template: AccountEmailTemplate, ctx: AccountEmailContext): RenderedEmail {
+  return renderEmail(accountTemplates[template](ctx), ctx.recipientName, []);
+}
+
+// Lay out the wording and a table of details as a text and an HTML body
+function renderEmail(content: TemplateContent, recipientName: string | null, details: [string, string][]): RenderedEmail {
+  const greeting = `Hello ${recipientName || "there"},`;
+
+  const text = [
+    greeting,
+    ...content.paragraphs,
+    ...(details.length > 0 ? [details.map(([label, value]) => `${label}: ${value}`).join("\n")] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    "Library Room Reservations"
+  ].join("\n\n") + "\n";
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="font-family: Arial, sans-serif; color: #1f2937; line-height: 1.5;">
+  <p>${escapeHtml(greeting)}</p>
+  ${content.paragraphs.map(p => `<p>${escapeHtml(p)}</p>`).join("\n  ")}
+  ${details.length > 0 ? `<table style="border-collapse: collapse; margin: 16px 0;">
+    ${details.map(([label, value]) =>
+      `<tr><td style="padding: 4px 16px 4px 0; color: #6b7280;">${escapeHtml(label)}</td><td style="padding: 4px 0;"><strong>${escapeHtml(value)}</strong></td></tr>`
+    ).join("\n    ")}
+  </table>` : ""}
+  ${content.action
+    ? `<p><a href="${escapeHtml(content.action.url)}" style="background: #2563eb; color: #ffffff; padding: 10px 16px; border-radius: 6px; text-decoration: none;">${escapeHtml(content.action.label)}</a></p>`
+    : ""}
+  <p style="color: #6b7280; font-size: 12px;">Library Room Reservations</p>
+</body>
+</html>
+`;
+
+  return { subject: content.subject, text, html };
+}
@@ -0,0 +1,269 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import path from "path";
+import { promises as fs } from "fs";
+import { randomBytes } from "crypto";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Delivers a rendered email. Throwing marks the attempt as failed so the outbox retries it.
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+// Thrown when the SMTP server rejects a command or the connection fails
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+// RFC 2047 encoding for header values that aren't plain ASCII
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+// Base64 body wrapped at 76 characters per line
+const encodeBody = (value: string) =>
+  Buffer.from(value, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+
+// The bare address from "Name <address>"
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+// A multipart/alternative MIME message with text and HTML parts
+export function buildMimeMessage(message: EmailMessage, date: Date = new Date()): string {
+  const boundary = `alt-${randomBytes(12).toString("hex")}`;
+  const domain = addressOf(message.from).split("@")[1] ?? "localhost";
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomBytes(16).toString("hex")}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(message.html),
+    `--${boundary}--`,
+    ""
+  ].join("\r\n");
+}
+
+// Prints emails to the server log; the default when nothing is configured
+export class ConsoleTransport implements EmailTransport {
+  readonly name = "console";
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each email to an .eml file, which most mail clients can open; handy for local development
+export class FileTransport implements EmailTransport {
+  readonly name = "file";
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const recipient = addressOf(message.to).replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const file = path.join(this.directory, `${Date.now()}-${randomBytes(3).toString("hex")}-${recipient}.eml`);
+    await fs.writeFile(file, buildMimeMessage(message));
+  }
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS is used when the server offers it
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// Collects CRLF-terminated reply lines from the server and hands out one complete (possibly multi-line) reply at a time
+class SmtpReader {
+  private buffer = "";
+  private lines: string[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void };
+  private failure?: Error;
+
+  constructor(private socket: net.Socket) {
+    socket.on("data", this.onData);
+    socket.on("error", this.onError);
+    socket.on("close", this.onClose);
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  // Stop listening, e.g. before the socket is upgraded to TLS
+  detach() {
+    this.socket.off("data", this.onData);
+    this.socket.off("error", this.onError);
+    this.socket.off("close", this.onClose);
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString("utf8");
+    let end: number;
+    while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+      this.lines.push(this.buffer.slice(0, end));
+      this.buffer = this.buffer.slice(end + 2);
+    }
+    this.flush();
+  };
+
+  private onError = (err: Error) => this.fail(new SmtpError(err.message));
+
+  private onClose = () => this.fail(new SmtpError("Connection closed by the mail server"));
+
+  private fail(err: Error) {
+    this.failure ??= err;
+    this.waiting?.reject(this.failure);
+    this.waiting = undefined;
+  }
+
+  // "250-..." continues a reply, "250 ..." ends it
+  private flush() {
+    if (!this.waiting) return;
+    const last = this.lines.findIndex(line => /^\d{3}(?: |$)/.test(line));
+    if (last < 0) return;
+
+    const lines = this.lines.splice(0, last + 1);
+    const { resolve } = this.waiting;
+    this.waiting = undefined;
+    resolve({ code: parseInt(lines[last].slice(0, 3)), lines: lines.map(line => line.slice(4)) });
+  }
+}
+
+// Minimal SMTP client: EHLO, optional STARTTLS and AUTH PLAIN, then a single message
+export class SmtpTransport implements EmailTransport {
+  readonly name = "smtp";
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const { secure, user, password } = this.options;
+    let socket = await this.connect(secure);
+    let reader = new SmtpReader(socket);
+
+    const expect = async (codes: number[]) => {
+      const reply = await reader.read();
+      if (!codes.includes(reply.code)) {
+        throw new SmtpError(`Mail server replied ${reply.code} ${reply.lines.join(" ")}`, reply.code);
+      }
+      return reply;
+    };
+    const command = (line: string, codes: number[]) => {
+      socket.write(`${line}\r\n`);
+      return expect(codes);
+    };
+
+    try {
+      await expect([220]);
+      const features = await command(`EHLO ${os.hostname()}`, [250]);
+
+      if (!secure && features.lines.some(line => line.toUpperCase() === "STARTTLS")) {
+        await command("STARTTLS", [220]);
+        reader.detach();
+        socket = await this.upgrade(socket);
+        reader = new SmtpReader(socket);
+        await command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      if (user) {
+        const credentials = Buffer.from(`\0${user}\0${password ?? ""}`, "utf8").toString("base64");
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(`MAIL FROM:<${addressOf(message.from)}>`, [250]);
+      await command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await command("DATA", [354]);
+      // Lines starting with a dot are escaped so they can't end the message early
+      const body = buildMimeMessage(message).replace(/^\./gm, "..");
+      await command(`${body}\r\n.`, [250]);
+      // The message has been accepted, so a failed goodbye doesn't matter
+      await command("QUIT", [221]).catch(() => {});
+    } finally {
+      reader.detach();
+      // A late error from a connection we are closing anyway must not crash the process
+      socket.on("error", () => {});
+      socket.end();
+    }
+  }
+
+  private connect(secure: boolean): Promise<net.Socket> {
+    const { host, port, timeoutMs = 30_000 } = this.options;
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.setTimeout(timeoutMs, () => socket.destroy(new SmtpError(`No reply from ${host}:${port} within ${timeoutMs}ms`)));
+      socket.once("error", reject);
+    });
+  }
+
+  private upgrade(socket: net.Socket): Promise<net.Socket> {
+    const { host, timeoutMs = 30_000 } = this.options;
+    return new Promise((resolve, reject) => {
+      const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+      secured.setTimeout(timeoutMs, () => secured.destroy(new SmtpError(`TLS handshake with ${host} timed out`)));
+      secured.once("error", reject);
+    });
+  }
+}
+
+// Pick the transport from the environment: EMAIL_TRANSPORT=smtp|file|console.
+// Without it, SMTP is used when SMTP_HOST is set and emails are logged otherwise.
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const kind = env.EMAIL_TRANSPORT || (env.SMTP_HOST ? "smtp" : "console");
+
+  switch (kind) {
+    case "smtp":
+      if (!env.SMTP_HOST) {
+        throw new Error("EMAIL_TRANSPORT=smtp requires SMTP_HOST");
+      }
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || (env.SMTP_SECURE === "true" ? 465 : 587),
+        secure: env.SMTP_SECURE === "true",
+        user: env.SMTP_USER,
+        password: env.SMTP_PASSWORD
+      });
+    case "file":
+      return new FileTransport(env.EMAIL_FILE_DIR || path.resolve("tmp/emails"));
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"; use smtp, file or console`);
+  }
+}
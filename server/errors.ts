@@ -0,0 +1,28 @@
+import type { Reservation } from "@shared/schema";
+import type { QuotaViolation } from "@shared/booking-quota";
+
+// Thrown when a booking would overlap an active reservation for the same room
+export class ReservationConflictError extends Error {
+  constructor(public conflictingReservation: Reservation) {
+    super(`Room ${conflictingReservation.roomId} is already reserved from ${conflictingReservation.startTime.toISOString()} to ${conflictingReservation.endTime.toISOString()}`);
+    this.name = "ReservationConflictError";
+  }
+}
+
+// Thrown when a patron's booking would take them over one of their fair-use quotas
+export class QuotaExceededError extends Error {
+  constructor(public violation: QuotaViolation) {
+    super(violation.message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+// Structured 409 body describing the booking that blocks the requested time
+export const conflictResponse = (err: ReservationConflictError) => ({
+  error: "This room is already reserved for part of the requested time",
+  conflict: {
+    roomId: err.conflictingReservation.roomId,
+    startTime: err.conflictingReservation.startTime,
+    endTime: err.conflictingReservation.endTime
+  }
+});
@@ -0,0 +1,26 @@
+import { randomInt } from "crypto";
+import type { Reservation } from "@shared/schema";
+
+// Letters and digits that can't be misread when a code is typed in from a printout (no 0/O, 1/I/L)
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+// Confirmation codes double as the lookup key for guest bookings, so they must not be guessable
+export function generateConfirmationCode(): string {
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return `LIB-${code}`;
+}
+
+// Booked without an account and not yet claimed by one
+export const isGuestBooking = (reservation: Pick<Reservation, "userId" | "guestEmail">) =>
+  !reservation.userId && !!reservation.guestEmail;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Whether someone who knows the confirmation code may manage a guest booking with this email address
+export function guestEmailMatches(reservation: Pick<Reservation, "userId" | "guestEmail">, email: string): boolean {
+  return isGuestBooking(reservation) && normalizeEmail(reservation.guestEmail!) === normalizeEmail(email);
+}
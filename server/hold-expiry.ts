@@ -0,0 +1,133 @@
+import type Stripe from "stripe";
+import type { Reservation } from "@shared/schema";
+import type { AuditActor } from "@shared/audit";
+import { storage } from "./storage";
+import { handlePaymentSucceeded, type WebhookOutcome } from "./stripe-webhook";
+
+// How long an unpaid booking keeps its room before it is released
+export const PENDING_HOLD_TTL_MINUTES = Number(process.env.PENDING_HOLD_TTL_MINUTES) || 15;
+
+// Recurring series are paid one date at a time from the profile page, so they get a longer window
+export const SERIES_HOLD_TTL_MINUTES = Number(process.env.SERIES_HOLD_TTL_MINUTES) || 24 * 60;
+
+// How long a guest has to follow the verification link before their booking is released
+export const GUEST_VERIFICATION_TTL_MINUTES = Number(process.env.GUEST_VERIFICATION_TTL_MINUTES) || 30;
+
+// How often the scheduler looks for expired holds
+const SWEEP_INTERVAL_MS = (Number(process.env.HOLD_EXPIRY_INTERVAL_SECONDS) || 60) * 1000;
+
+// Deadline for paying a hold created now
+export function holdExpiresAt(ttlMinutes: number = PENDING_HOLD_TTL_MINUTES, from: Date = new Date()): Date {
+  return new Date(from.getTime() + ttlMinutes * 60 * 1000);
+}
+
+// PaymentIntent statuses in which the patron's money has been taken (or authorised)
+const PAID_INTENT_STATUSES = ["succeeded", "requires_capture"];
+
+// Holds that were confirmed or released by a sweep, with what to broadcast and email for the confirmed ones
+export interface HoldSweep {
+  expired: Reservation[];
+  paid: Omit<WebhookOutcome, "duplicate">[];
+}
+
+// Cancel the PaymentIntent behind a hold. Returns false if the patron has already paid
+// (or a payment is in flight), in which case the payment flow gets to confirm the booking.
+export async function releasePaymentIntent(stripe: Stripe, paymentIntentId: string): Promise<boolean> {
+  return cancelUnpaidIntent(stripe, await stripe.paymentIntents.retrieve(paymentIntentId));
+}
+
+async function cancelUnpaidIntent(stripe: Stripe, intent: Stripe.PaymentIntent): Promise<boolean> {
+  if (PAID_INTENT_STATUSES.includes(intent.status) || intent.status === "processing") {
+    return false;
+  }
+
+  if (intent.status !== "canceled") {
+    await stripe.paymentIntents.cancel(intent.id, { cancellation_reason: "abandoned" });
+  }
+
+  return true;
+}
+
+// Expire every unpaid or unverified hold whose deadline has passed. Holds that were paid without the
+// webhook confirming them are confirmed here instead.
+export async function expireStaleHolds(stripe: Stripe, now: Date = new Date()): Promise<HoldSweep> {
+  const actor: AuditActor = { type: "system", label: "hold-expiry" };
+  const legacyCreatedBefore = new Date(now.getTime() - PENDING_HOLD_TTL_MINUTES * 60 * 1000);
+  const staleHolds = await storage.getExpiredHolds(now, legacyCreatedBefore);
+  const sweep: HoldSweep = { expired: [], paid: [] };
+
+  for (const hold of staleHolds) {
+    try {
+      if (hold.stripePaymentIntentId) {
+        const intent = await stripe.paymentIntents.retrieve(hold.stripePaymentIntentId);
+
+        // The webhook for this payment was lost or hasn't arrived yet
+        if (PAID_INTENT_STATUSES.includes(intent.status)) {
+          const outcome = await handlePaymentSucceeded(intent, storage, stripe, actor);
+          if (outcome.reservation) {
+            sweep.paid.push(outcome);
+          }
+          continue;
+        }
+
+        // Bank payments can take days to settle, so look again after another hold period rather than every sweep
+        if (intent.status === "processing") {
+          await storage.updateReservation(hold.id, { holdExpiresAt: holdExpiresAt(PENDING_HOLD_TTL_MINUTES, now) }, actor);
+          continue;
+        }
+
+        await cancelUnpaidIntent(stripe, intent);
+      }
+
+      // Returns undefined if the reservation was paid or cancelled while we were talking to Stripe
+      const reservation = await storage.expireReservation(hold.id, actor);
+      if (reservation) {
+        // The promo code was never used for a booking, so give the use back
+        if (reservation.promoCodeId) {
+          await storage.releasePromoCode(reservation.promoCodeId);
+        }
+        sweep.expired.push(reservation);
+      }
+    } catch (err) {
+      // Leave the hold in place and try again on the next sweep
+      console.error(`Failed to expire hold on reservation #${hold.id}:`, err);
+    }
+  }
+
+  return sweep;
+}
+
+// Periodically release abandoned checkouts and confirm paid ones. Returns a function that stops the scheduler.
+export function startHoldExpiryScheduler(
+  stripe: Stripe,
+  onExpired: (reservation: Reservation) => void,
+  onPaid: (outcome: Omit<WebhookOutcome, "duplicate">) => Promise<void>
+): () => void {
+  let sweeping = false;
+
+  const timer = setInterval(async () => {
+    // A slow sweep (e.g. Stripe timing out) must not overlap with the next one
+    if (sweeping) return;
+    sweeping = true;
+
+    try {
+      const { expired, paid } = await expireStaleHolds(stripe);
+      if (expired.length > 0) {
+        console.log(`Released ${expired.length} unpaid reservation hold(s)`);
+      }
+      expired.forEach(onExpired);
+      for (const outcome of paid) {
+        await onPaid(outcome);
+      }
+    } catch (err) {
+      console.error("Hold expiry sweep failed:", err);
+    } finally {
+      sweeping = false;
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
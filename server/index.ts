@@ -1,30 +1,18 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { prepareStorage } from "./storage";
 import { setupVite, serveStatic, log } from "./vite";
-import session from "express-session";
-import { v4 as uuidv4 } from "uuid";
-import memorystore from "memorystore";
-
-const MemoryStore = memorystore(session);
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
-
-// Configure session middleware
-app.use(session({
-  genid: () => uuidv4(),
-  store: new MemoryStore({
-    checkPeriod: 86400000 // prune expired entries every 24h
-  }),
-  secret: process.env.SESSION_SECRET || "library-reservation-secret",
-  resave: false,
-  saveUninitialized: false,
-  cookie: { 
-    secure: process.env.NODE_ENV === "production",
-    maxAge: 24 * 60 * 60 * 1000 // 24 hours
+app.use(express.json({
+  // Keep the raw bytes so the Stripe webhook can verify its signature
+  verify: (req, _res, buf) => {
+    (req as Request).rawBody = buf;
   }
 }));
+app.use(express.urlencoded({ extended: false }));
+
+// Sessions are set up with authentication in setupAuth, which also reads them for WebSocket connections
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -57,6 +45,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Refuses to start if the reservation constraints can't be installed
+  await prepareStorage();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
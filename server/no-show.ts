@@ -0,0 +1,57 @@
+import type { Reservation } from "@shared/schema";
+import { storage } from "./storage";
+
+// How long after the start a confirmed booking waits for its patron to check in
+export const NO_SHOW_GRACE_MINUTES = Number(process.env.NO_SHOW_GRACE_MINUTES) || 15;
+
+// How often the scheduler looks for missed check-ins
+const SWEEP_INTERVAL_MS = (Number(process.env.NO_SHOW_INTERVAL_SECONDS) || 60) * 1000;
+
+// Mark bookings nobody checked in to as no-shows, releasing the rest of their slot.
+// Only bookings still in progress are considered, so a restart doesn't rewrite old history.
+export async function releaseNoShows(now: Date = new Date()): Promise<Reservation[]> {
+  const startedBefore = new Date(now.getTime() - NO_SHOW_GRACE_MINUTES * 60 * 1000);
+  const missed = await storage.getMissedCheckIns(startedBefore, now);
+  const released: Reservation[] = [];
+
+  for (const reservation of missed) {
+    try {
+      // Returns undefined if the patron checked in while the sweep was running
+      const noShow = await storage.markNoShow(reservation.id, { type: "system", label: "no-show" });
+      if (noShow) {
+        released.push(noShow);
+      }
+    } catch (err) {
+      console.error(`Failed to release no-show reservation #${reservation.id}:`, err);
+    }
+  }
+
+  return released;
+}
+
+// Periodically release no-shows. Returns a function that stops the scheduler.
+export function startNoShowScheduler(onNoShow: (reservation: Reservation) => void): () => void {
+  let sweeping = false;
+
+  const timer = setInterval(async () => {
+    if (sweeping) return;
+    sweeping = true;
+
+    try {
+      const released = await releaseNoShows();
+      if (released.length > 0) {
+        console.log(`Released ${released.length} reservation(s) with no check-in`);
+      }
+      released.forEach(onNoShow);
+    } catch (err) {
+      console.error("No-show sweep failed:", err);
+    } finally {
+      sweeping = false;
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
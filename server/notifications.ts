@@ -0,0 +1,196 @@
+import type { Reservation, User } from "@shared/schema";
+import { storage } from "./storage";
+import { createEmailTransport, type EmailTransport } from "./email-transport";
+import { renderAccountEmail, renderReservationEmail, type AccountEmailTemplate, type EmailTemplate } from "./email-templates";
+import { locationTimeZone } from "@shared/time-zone";
+
+// Base URL used for links in emails
+const APP_URL = (process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "");
+
+const EMAIL_FROM = process.env.EMAIL_FROM || "Library Room Reservations <no-reply@library.local>";
+
+// How long before a booking starts the reminder goes out
+export const REMINDER_LEAD_HOURS = Number(process.env.REMINDER_LEAD_HOURS) || 24;
+
+// Delivery attempts before an email is marked as failed
+const MAX_ATTEMPTS = Number(process.env.EMAIL_MAX_ATTEMPTS) || 5;
+
+// How often the scheduler sends queued emails and queues reminders
+const SWEEP_INTERVAL_MS = (Number(process.env.EMAIL_OUTBOX_INTERVAL_SECONDS) || 30) * 1000;
+
+// Emails sent per sweep, so a large backlog doesn't hog the server
+const BATCH_SIZE = 20;
+
+let transport: EmailTransport | undefined;
+
+// Created on first use so a misconfigured transport fails (and is retried) per email rather than at startup
+const getTransport = () => (transport ??= createEmailTransport());
+
+export interface NotificationOptions {
+  refundInCents?: number;
+  verificationToken?: string;
+  reason?: string;
+  dedupeKey?: string; // defaults to the template, reservation and refund amount
+}
+
+// Queue an email to the patron about their reservation and try to send it straight away.
+// Never throws: a notification that can't be queued must not fail the booking it is about.
+export async function notifyReservation(
+  template: EmailTemplate,
+  reservation: Reservation,
+  options: NotificationOptions = {}
+): Promise<void> {
+  try {
+    const user = reservation.userId ? await storage.getUser(reservation.userId) : undefined;
+    const toAddress = user?.email || reservation.guestEmail;
+    if (!toAddress) return;
+
+    const room = await storage.getRoom(reservation.roomId);
+    const location = room ? await storage.getLocation(room.locationId) : undefined;
+    const email = renderReservationEmail(template, {
+      recipientName: user?.name || reservation.guestName,
+      reservation,
+      roomName: room?.name ?? `Room #${reservation.roomId}`,
+      locationName: location?.name ?? null,
+      timeZone: locationTimeZone(location),
+      appUrl: APP_URL,
+      refundInCents: options.refundInCents,
+      verificationToken: options.verificationToken,
+      reason: options.reason
+    });
+
+    const dedupeKey = options.dedupeKey
+      ?? [template, reservation.id, options.refundInCents].filter(part => part !== undefined).join(":");
+    const queued = await storage.enqueueEmail({
+      dedupeKey,
+      template,
+      reservationId: reservation.id,
+      toAddress,
+      subject: email.subject,
+      textBody: email.text,
+      htmlBody: email.html
+    });
+
+    // Sent in the background; if it fails the scheduler retries it
+    if (queued) {
+      deliverQueuedEmails().catch(err => console.error("Email delivery failed:", err));
+    }
+  } catch (err) {
+    console.error(`Failed to queue ${template} email for reservation #${reservation.id}:`, err);
+  }
+}
+
+// Queue an email about the patron's account, such as a password reset link, and try to send it straight away.
+// `dedupeKey` identifies the link being sent, so retries of the same request don't send it twice.
+export async function notifyAccount(
+  template: AccountEmailTemplate,
+  user: User,
+  toAddress: string,
+  link: { token: string; expiresInMinutes: number; dedupeKey: string }
+): Promise<void> {
+  try {
+    const email = renderAccountEmail(template, {
+      recipientName: user.name,
+      username: user.username,
+      appUrl: APP_URL,
+      token: link.token,
+      expiresInMinutes: link.expiresInMinutes
+    });
+
+    const queued = await storage.enqueueEmail({
+      dedupeKey: link.dedupeKey,
+      template,
+      reservationId: null,
+      toAddress,
+      subject: email.subject,
+      textBody: email.text,
+      htmlBody: email.html
+    });
+
+    if (queued) {
+      deliverQueuedEmails().catch(err => console.error("Email delivery failed:", err));
+    }
+  } catch (err) {
+    console.error(`Failed to queue ${template} email for user #${user.id}:`, err);
+  }
+}
+
+// Wait before retry number `attempt`: 2, 4, 8, 16... minutes
+const retryDelayMs = (attempt: number) => 2 ** attempt * 60 * 1000;
+
+let delivering = false;
+
+// Send emails that are due. Failures are rescheduled with backoff until MAX_ATTEMPTS is reached.
+export async function deliverQueuedEmails(now: Date = new Date()): Promise<number> {
+  // The scheduler and a freshly queued email may both trigger delivery
+  if (delivering) return 0;
+  delivering = true;
+
+  let sent = 0;
+  try {
+    const due = await storage.getDueEmails(now, BATCH_SIZE);
+    for (const email of due) {
+      try {
+        await getTransport().send({
+          from: EMAIL_FROM,
+          to: email.toAddress,
+          subject: email.subject,
+          text: email.textBody,
+          html: email.htmlBody
+        });
+        await storage.markEmailSent(email.id, new Date());
+        sent++;
+      } catch (err) {
+        const attempts = (email.attempts ?? 0) + 1;
+        const message = err instanceof Error ? err.message : String(err);
+        const nextAttemptAt = attempts >= MAX_ATTEMPTS ? null : new Date(Date.now() + retryDelayMs(attempts));
+        console.error(`Failed to send email #${email.id} (attempt ${attempts}/${MAX_ATTEMPTS}):`, message);
+        await storage.markEmailFailed(email.id, message, nextAttemptAt);
+      }
+    }
+  } finally {
+    delivering = false;
+  }
+
+  return sent;
+}
+
+// Queue reminders for confirmed bookings starting within the lead time. Bookings made after
+// their reminder window opened are skipped; the confirmation email went out moments ago.
+export async function queueReminders(now: Date = new Date()): Promise<void> {
+  const leadMs = REMINDER_LEAD_HOURS * 60 * 60 * 1000;
+  const upcoming = await storage.getUpcomingConfirmedReservations(now, new Date(now.getTime() + leadMs));
+
+  for (const reservation of upcoming) {
+    if (reservation.createdAt && reservation.startTime.getTime() - reservation.createdAt.getTime() < leadMs) continue;
+    // The dedupe key makes repeated sweeps queue each reminder only once
+    await notifyReservation("booking_reminder", reservation);
+  }
+}
+
+// Periodically queue reminders and send the outbox. Returns a function that stops the scheduler.
+export function startNotificationScheduler(): () => void {
+  let sweeping = false;
+
+  const timer = setInterval(async () => {
+    if (sweeping) return;
+    sweeping = true;
+
+    try {
+      await queueReminders();
+      const sent = await deliverQueuedEmails();
+      if (sent > 0) {
+        console.log(`Sent ${sent} queued email(s)`);
+      }
+    } catch (err) {
+      console.error("Email outbox sweep failed:", err);
+    } finally {
+      sweeping = false;
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,32 @@
+import { DateTime } from "luxon";
+import type { Room } from "@shared/schema";
+import { applyPromoCode, calculatePrice, type PriceQuote } from "@shared/pricing";
+import { roomSlotMinutes } from "@shared/availability";
+import { locationTimeZone } from "@shared/time-zone";
+import { storage } from "./storage";
+
+// Price a booking of `room` with the current pricing rules and, if one was applied, its promo code.
+// Every place that charges for a reservation goes through here so quotes, holds and payments always agree.
+export async function priceReservation(
+  room: Room,
+  startTime: Date,
+  endTime: Date,
+  isRegisteredUser: boolean,
+  promoCodeId?: number | null
+): Promise<PriceQuote> {
+  const [rules, location] = await Promise.all([storage.getAllPricingRules(), storage.getLocation(room.locationId)]);
+  const timeZone = locationTimeZone(location);
+  // Peak hours and weekend rates follow the branch's local time
+  const quote = calculatePrice(rules, {
+    roomId: room.id,
+    locationId: room.locationId,
+    startTime: DateTime.fromJSDate(startTime).setZone(timeZone),
+    endTime: DateTime.fromJSDate(endTime).setZone(timeZone),
+    isRegisteredUser,
+    slotMinutes: roomSlotMinutes(room, location)
+  });
+
+  // A redeemed code is honoured even if it has expired since it was applied
+  const promo = promoCodeId ? await storage.getPromoCode(promoCodeId) : undefined;
+  return promo ? applyPromoCode(quote, promo) : quote;
+}
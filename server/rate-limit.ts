@@ -0,0 +1,140 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { and, asc, eq, lt, sql } from "drizzle-orm";
+import { rateLimitHits } from "@shared/schema";
+import type { db as Database } from "./db";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Hits left in the current window after this one
+  remaining: number;
+  // When the request is refused, how long until the oldest counted hit leaves the window
+  retryAfterMs: number;
+}
+
+// Where hits are counted. Each hit is kept with its time, so the window slides rather than resetting on the hour.
+export interface RateLimitStore {
+  // Count a hit for `key` unless `limit` hits already fall within the last `windowMs`; refused hits aren't counted
+  hit(key: string, limit: number, windowMs: number, now: Date): Promise<RateLimitResult>;
+}
+
+// Decide a hit given the times of earlier hits within the window, oldest first
+export function slidingWindow(hitTimes: number[], limit: number, windowMs: number, now: number): RateLimitResult {
+  if (hitTimes.length >= limit) {
+    return { allowed: false, remaining: 0, retryAfterMs: Math.max(hitTimes[hitTimes.length - limit] + windowMs - now, 0) };
+  }
+  return { allowed: true, remaining: limit - hitTimes.length - 1, retryAfterMs: 0 };
+}
+
+// Counts hits in this process only; suits a single app instance. Keys that stop being hit, such as
+// made-up usernames, are dropped by a periodic sweep once their hits have left the window.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, { times: number[]; windowMs: number }>();
+
+  constructor(sweepIntervalMs = 60 * 1000) {
+    const timer = setInterval(() => this.sweep(new Date()), sweepIntervalMs);
+    // Don't keep the process alive just to sweep
+    timer.unref();
+  }
+
+  // Number of keys with hits still held
+  get size() {
+    return this.hits.size;
+  }
+
+  async hit(key: string, limit: number, windowMs: number, now: Date): Promise<RateLimitResult> {
+    const windowStart = now.getTime() - windowMs;
+    const recent = (this.hits.get(key)?.times ?? []).filter(time => time > windowStart);
+    const result = slidingWindow(recent, limit, windowMs, now.getTime());
+
+    if (result.allowed) recent.push(now.getTime());
+    if (recent.length > 0) {
+      this.hits.set(key, { times: recent, windowMs });
+    } else {
+      this.hits.delete(key);
+    }
+    return result;
+  }
+
+  // Forget keys whose latest hit has left its window
+  sweep(now: Date) {
+    this.hits.forEach(({ times, windowMs }, key) => {
+      if (times[times.length - 1] <= now.getTime() - windowMs) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
+
+// Counts hits in the rate_limit_hits table, so every app instance enforces the same limits. Old hits
+// are only cleared for keys that are hit again, so a periodic sweep deletes every hit older than
+// `retentionMs`, which must be at least the longest window of any rule using the store.
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private database: typeof Database, private retentionMs: number, sweepIntervalMs = 5 * 60 * 1000) {
+    const timer = setInterval(() => {
+      this.sweep(new Date()).catch(err => console.error("Rate limit sweep failed:", err));
+    }, sweepIntervalMs);
+    // Don't keep the process alive just to sweep
+    timer.unref();
+  }
+
+  async hit(key: string, limit: number, windowMs: number, now: Date): Promise<RateLimitResult> {
+    const windowStart = new Date(now.getTime() - windowMs);
+
+    return this.database.transaction(async (tx) => {
+      // Take turns per key so two instances can't both let the last allowed hit through
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${key}))`);
+      await tx.delete(rateLimitHits).where(and(eq(rateLimitHits.key, key), lt(rateLimitHits.hitAt, windowStart)));
+
+      const recent = await tx
+        .select({ hitAt: rateLimitHits.hitAt })
+        .from(rateLimitHits)
+        .where(eq(rateLimitHits.key, key))
+        .orderBy(asc(rateLimitHits.hitAt));
+
+      const result = slidingWindow(recent.map(hit => hit.hitAt.getTime()), limit, windowMs, now.getTime());
+      if (result.allowed) {
+        await tx.insert(rateLimitHits).values({ key, hitAt: now });
+      }
+      return result;
+    });
+  }
+
+  // Delete hits that have left every window, whichever keys they belong to
+  async sweep(now: Date) {
+    await this.database.delete(rateLimitHits).where(lt(rateLimitHits.hitAt, new Date(now.getTime() - this.retentionMs)));
+  }
+}
+
+export interface RateLimitRule {
+  // Prefix for the store key, e.g. "login-ip"
+  name: string;
+  limit: number;
+  windowMs: number;
+  // Who the limit applies to, such as the client IP or the account; rules without a key are skipped
+  key: (req: Request) => string | number | null | undefined;
+  message: string;
+}
+
+// Refuse requests with 429 and a Retry-After header once any of the rules is exceeded
+export function rateLimit(store: RateLimitStore, ...rules: RateLimitRule[]): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const now = new Date();
+      for (const rule of rules) {
+        const key = rule.key(req);
+        if (key === null || key === undefined || key === "") continue;
+
+        const result = await store.hit(`${rule.name}:${key}`, rule.limit, rule.windowMs, now);
+        if (!result.allowed) {
+          const retryAfterSeconds = Math.max(Math.ceil(result.retryAfterMs / 1000), 1);
+          res.set("Retry-After", String(retryAfterSeconds));
+          return res.status(429).json({ error: rule.message, retryAfterSeconds });
+        }
+      }
+    } catch (err) {
+      // A broken store shouldn't take sign-in and booking down with it
+      console.error("Rate limit check failed:", err);
+    }
+    next();
+  };
+}
@@ -0,0 +1,43 @@
+import type { Request } from "express";
+import { MemoryRateLimitStore, PostgresRateLimitStore, rateLimit, type RateLimitStore } from "./rate-limit";
+import { db } from "./db";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Longest window of the rules below; older hits no longer count towards any limit
+const LONGEST_WINDOW_MS = HOUR;
+
+// Deployments running more than one app instance set RATE_LIMIT_STORE=postgres so the limits are shared
+const store: RateLimitStore = process.env.RATE_LIMIT_STORE === "postgres"
+  ? new PostgresRateLimitStore(db, LONGEST_WINDOW_MS)
+  : new MemoryRateLimitStore();
+
+// Relies on "trust proxy", so this is the client's address rather than the load balancer's
+const clientIp = (req: Request) => req.ip;
+
+const usernameOf = (req: Request) =>
+  typeof req.body?.username === "string" ? req.body.username.trim().toLowerCase() : undefined;
+
+const accountOf = (req: Request) => req.user?.id;
+
+// Password guessing is also slowed down per account by the lockout in auth.ts
+export const loginRateLimit = rateLimit(store,
+  { name: "login-ip", limit: 20, windowMs: 15 * MINUTE, key: clientIp, message: "Too many sign-in attempts from this network" },
+  { name: "login-user", limit: 10, windowMs: 15 * MINUTE, key: usernameOf, message: "Too many sign-in attempts for this account" }
+);
+
+export const registerRateLimit = rateLimit(store,
+  { name: "register-ip", limit: 5, windowMs: HOUR, key: clientIp, message: "Too many accounts created from this network" }
+);
+
+// Each address can also only be sent a few links an hour (see auth-tokens.ts)
+export const passwordResetRateLimit = rateLimit(store,
+  { name: "password-reset-ip", limit: 10, windowMs: HOUR, key: clientIp, message: "Too many password reset requests from this network" }
+);
+
+// Creating bookings, including guest and recurring bookings
+export const bookingRateLimit = rateLimit(store,
+  { name: "booking-ip", limit: 60, windowMs: HOUR, key: clientIp, message: "Too many booking requests from this network" },
+  { name: "booking-user", limit: 30, windowMs: HOUR, key: accountOf, message: "Too many booking requests from this account" }
+);
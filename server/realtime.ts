@@ -0,0 +1,130 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import type { Reservation, RoomBlackout } from "@shared/schema";
+import { can } from "@shared/roles";
+import {
+  clientMessageSchema,
+  MAX_SUBSCRIPTIONS,
+  toRealtimeBlackout,
+  toRealtimeReservation,
+  topicKey,
+  topicMatches,
+  type BlackoutEventType,
+  type EventScope,
+  type RealtimeTopic,
+  type ReservationEventType,
+  type ServerMessage,
+} from "@shared/realtime";
+import { sessionUser } from "./auth";
+import { storage } from "./storage";
+
+// Largest message a client may send; subscription requests are tiny
+const MAX_CLIENT_MESSAGE_BYTES = 1024;
+
+// A connected socket: who is behind it, if anyone, and what it follows
+interface Subscriber {
+  user?: Express.User;
+  topics: Map<string, RealtimeTopic>;
+}
+
+// Fire-and-forget: a failed publish is logged and never fails the change it is about
+export interface RealtimeServer {
+  publishReservation(type: ReservationEventType, reservation: Reservation | undefined): void;
+  publishBlackout(type: BlackoutEventType, blackout: RoomBlackout): void;
+}
+
+const send = (ws: WebSocket, message: ServerMessage) => {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+};
+
+// Live updates on /ws. A socket is tied to the visitor's session when it connects and only hears
+// about the topics it subscribed to; clients can't publish anything themselves.
+export function createRealtimeServer(httpServer: Server): RealtimeServer {
+  const wss = new WebSocketServer({ server: httpServer, path: "/ws", maxPayload: MAX_CLIENT_MESSAGE_BYTES });
+  const subscribers = new Map<WebSocket, Subscriber>();
+
+  wss.on("connection", (ws, req) => {
+    const subscriber: Subscriber = { topics: new Map() };
+    subscribers.set(ws, subscriber);
+
+    // Messages that arrive while the session is being read wait for it, in order
+    const authenticated = sessionUser(req)
+      .then(user => { subscriber.user = user; })
+      .catch(err => console.error("WebSocket session lookup failed:", err));
+
+    ws.on("message", async (raw) => {
+      await authenticated;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw.toString());
+      } catch {
+        return send(ws, { type: "error", error: "Messages must be JSON" });
+      }
+      const result = clientMessageSchema.safeParse(parsed);
+      if (!result.success) {
+        return send(ws, { type: "error", error: "Unknown message; clients may only subscribe and unsubscribe" });
+      }
+
+      const { type, topic } = result.data;
+      const key = topicKey(topic);
+      if (type === "unsubscribe") {
+        subscriber.topics.delete(key);
+        return send(ws, { type: "unsubscribed", topic });
+      }
+
+      if (topic.kind === "my_reservations" && !subscriber.user) {
+        return send(ws, { type: "error", error: "Sign in to follow your reservations" });
+      }
+      if (!subscriber.topics.has(key) && subscriber.topics.size >= MAX_SUBSCRIPTIONS) {
+        return send(ws, { type: "error", error: `A connection can follow at most ${MAX_SUBSCRIPTIONS} topics` });
+      }
+      subscriber.topics.set(key, topic);
+      send(ws, { type: "subscribed", topic });
+    });
+
+    ws.on("close", () => {
+      subscribers.delete(ws);
+    });
+  });
+
+  // Send each subscriber following a matching topic its own copy of the event
+  const publish = (scope: EventScope, messageFor: (subscriber: Subscriber) => ServerMessage) => {
+    subscribers.forEach((subscriber, ws) => {
+      const follows = Array.from(subscriber.topics.values()).some(topic => topicMatches(topic, scope, subscriber.user?.id));
+      if (follows) {
+        send(ws, messageFor(subscriber));
+      }
+    });
+  };
+
+  return {
+    publishReservation(type, reservation) {
+      if (!reservation) return;
+
+      storage.getRoom(reservation.roomId).then(room => {
+        if (!room) return;
+
+        // Only the patron who made the booking and staff at its branch see who it is for
+        const canSeePersonal = (user?: Express.User) =>
+          !!user && (user.id === reservation.userId || can(user, "manage_reservations", room.locationId));
+        publish(
+          { roomId: room.id, locationId: room.locationId, date: String(reservation.reservationDate).slice(0, 10), userId: reservation.userId },
+          subscriber => ({ type, data: toRealtimeReservation(reservation, canSeePersonal(subscriber.user)) })
+        );
+      }).catch(err => console.error(`Failed to publish ${type} for reservation #${reservation.id}:`, err));
+    },
+
+    publishBlackout(type, blackout) {
+      storage.getRoom(blackout.roomId).then(room => {
+        if (!room) return;
+
+        // A blackout can span or repeat over many days, so every date of the branch hears about it
+        const data = toRealtimeBlackout(blackout);
+        publish({ roomId: room.id, locationId: room.locationId }, () => ({ type, data }));
+      }).catch(err => console.error(`Failed to publish ${type} for blackout #${blackout.id}:`, err));
+    }
+  };
+}
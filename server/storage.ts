@@ -1,20 +1,85 @@
 import { 
-  users, 
-  reservations as schema,
+  releasedReservationStatuses,
+  holdStatuses,
   type User, 
   type InsertUser, 
   type Room, 
   type InsertRoom, 
+  type RoomBlackout,
+  type InsertRoomBlackout,
   type Location, 
   type InsertLocation, 
+  type LocationHours,
+  type InsertLocationHours,
+  type LocationClosure,
+  type InsertLocationClosure,
   type Reservation, 
-  type InsertReservation 
+  type InsertReservation,
+  type ReservationSeries,
+  type InsertReservationSeries,
+  type PricingRule,
+  type InsertPricingRule,
+  type PromoCode,
+  type InsertPromoCode,
+  type OutboxEmail,
+  type InsertOutboxEmail,
+  type StripeEventRecord,
+  type AuditLogEntry,
+  type StaffAssignment,
+  type InsertStaffAssignment,
+  type AuthToken,
+  type InsertAuthToken
 } from "@shared/schema";
+import {
+  diffFields,
+  reservationAuditAction,
+  type AuditActor,
+  type AuditChanges,
+  type AuditEntityType,
+} from "@shared/audit";
 import { format } from "date-fns";
 import session from "express-session";
 import createMemoryStore from "memorystore";
-import { sql, eq, and } from "drizzle-orm";
-import { DateTime } from "luxon";
+import { sql, eq, and, or, ne, lt, lte, gt, gte, asc, desc, isNull, isNotNull, inArray, notInArray } from "drizzle-orm";
+import { QuotaExceededError, ReservationConflictError } from "./errors";
+import { generateConfirmationCode, normalizeEmail } from "./guest-booking";
+import { lockedUntil } from "./account-lockout";
+import { DEFAULT_TIME_ZONE, locationTimeZone, parseBranchTime } from "@shared/time-zone";
+import { conflictWindow, SLOT_MINUTES } from "@shared/availability";
+import type { QuotaViolation } from "@shared/booking-quota";
+
+// Check whether a reservation still holds its room
+export function isActiveReservation(reservation: Reservation): boolean {
+  return !releasedReservationStatuses.includes(reservation.status || "");
+}
+
+// Checks a patron's booking against their fair-use quotas; returns null when it is allowed
+export type QuotaCheck = () => Promise<QuotaViolation | null>;
+
+async function enforceQuota(checkQuota: QuotaCheck | undefined) {
+  const violation = checkQuota && await checkQuota();
+  if (violation) {
+    throw new QuotaExceededError(violation);
+  }
+}
+
+// Number of bookings a patron didn't turn up for
+export interface NoShowCount {
+  userId: number;
+  noShowCount: number;
+  lastNoShowAt: Date;
+}
+
+// Attributed to the rows created by initializeSampleData
+const sampleDataActor: AuditActor = { type: "system", label: "sample-data" };
+
+// Weekly schedule as recorded in the audit log
+const scheduleSnapshot = (hours: Pick<LocationHours, "dayOfWeek" | "openTime" | "closeTime" | "isClosed">[]) =>
+  hours.map(({ dayOfWeek, openTime, closeTime, isClosed }) => ({ dayOfWeek, openTime, closeTime, isClosed }));
+
+// Blackout as recorded in the room's audit log
+const blackoutSnapshot = ({ id, startTime, endTime, rrule, reason }: RoomBlackout) =>
+  ({ blackoutId: id, startTime, endTime, rrule, reason });
 
 // Expanded storage interface with CRUD operations for all our models
 export interface IStorage {
@@ -24,30 +89,118 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   getAllUsers(): Promise<User[]>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  setCalendarToken(userId: number, token: string): Promise<User | undefined>;
+  getUsersByEmail(email: string): Promise<User[]>;
+  // Only marks the address verified if it is still the user's email
+  markEmailVerified(userId: number, email: string, at: Date): Promise<User | undefined>;
+  // Count a wrong password, locking the account once there have been too many in a row
+  recordFailedLogin(userId: number, now: Date): Promise<User | undefined>;
+  clearFailedLogins(userId: number): Promise<void>;
+  
+  // Password reset and email verification links. Consuming a token marks it used, so it only works once.
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  countAuthTokensSince(userId: number, purpose: string, since: Date): Promise<number>;
+  consumeAuthToken(purpose: string, tokenHash: string, now: Date): Promise<AuthToken | undefined>;
+  revokeAuthTokens(userId: number, purpose: string, at: Date): Promise<void>;
+  
+  // Branch staff assignments; setting one for a user and branch that already has one replaces its role
+  getStaffAssignmentsByUser(userId: number): Promise<StaffAssignment[]>;
+  getAllStaffAssignments(): Promise<StaffAssignment[]>;
+  setStaffAssignment(assignment: InsertStaffAssignment): Promise<StaffAssignment>;
+  deleteStaffAssignment(id: number): Promise<boolean>;
   
   // Location methods
   getLocation(id: number): Promise<Location | undefined>;
   getAllLocations(): Promise<Location[]>;
-  createLocation(location: InsertLocation): Promise<Location>;
-  updateLocation(id: number, location: Partial<InsertLocation>): Promise<Location | undefined>;
+  createLocation(location: InsertLocation, actor: AuditActor): Promise<Location>;
+  updateLocation(id: number, location: Partial<InsertLocation>, actor: AuditActor): Promise<Location | undefined>;
+  
+  // Opening hours and closure methods
+  getLocationHours(locationId: number): Promise<LocationHours[]>;
+  setLocationHours(locationId: number, hours: InsertLocationHours[], actor: AuditActor): Promise<LocationHours[]>;
+  getLocationClosures(locationId: number): Promise<LocationClosure[]>;
+  createLocationClosure(closure: InsertLocationClosure, actor: AuditActor): Promise<LocationClosure>;
+  deleteLocationClosure(id: number, actor: AuditActor): Promise<boolean>;
   
   // Room methods
   getRoom(id: number): Promise<Room | undefined>;
+  // Zone of the room's branch; times without an offset are read in it
+  getRoomTimeZone(roomId: number): Promise<string>;
   getRoomsByLocation(locationId: number): Promise<Room[]>;
   getAllRooms(): Promise<Room[]>;
-  createRoom(room: InsertRoom): Promise<Room>;
-  updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined>;
+  createRoom(room: InsertRoom, actor: AuditActor): Promise<Room>;
+  updateRoom(id: number, room: Partial<InsertRoom>, actor: AuditActor): Promise<Room | undefined>;
+  
+  // Room blackout methods
+  getRoomBlackouts(roomId: number): Promise<RoomBlackout[]>;
+  getRoomBlackoutsByLocation(locationId: number): Promise<RoomBlackout[]>;
+  createRoomBlackout(blackout: InsertRoomBlackout, actor: AuditActor): Promise<RoomBlackout>;
+  deleteRoomBlackout(id: number, actor: AuditActor): Promise<boolean>;
   
   // Reservation methods
   getReservation(id: number): Promise<Reservation | undefined>;
   getReservationsByRoom(roomId: number): Promise<Reservation[]>;
   getReservationsByRoomAndDate(roomId: number, date: Date): Promise<Reservation[]>;
   getReservationsByDate(date: Date): Promise<Reservation[]>;
+  getReservationsBetween(from: Date, to: Date): Promise<Reservation[]>; // Any that overlap the range
   getReservationsByUser(userId: number): Promise<Reservation[]>;
   getAllReservations(): Promise<Reservation[]>;
-  createReservation(reservation: InsertReservation): Promise<Reservation>;
-  updateReservation(id: number, reservation: Partial<InsertReservation>): Promise<Reservation | undefined>;
-  cancelReservation(id: number): Promise<Reservation | undefined>;
+  getConflictingReservations(roomId: number, startTime: Date, endTime: Date, excludeReservationId?: number): Promise<Reservation[]>;
+  // `checkQuota` runs under a lock on the patron's bookings, so concurrent bookings can't both fit in the
+  // same allowance; a violation is thrown as a QuotaExceededError and nothing is saved
+  createReservation(reservation: InsertReservation, actor: AuditActor, checkQuota?: QuotaCheck): Promise<Reservation>;
+  updateReservation(id: number, reservation: Partial<InsertReservation>, actor: AuditActor, checkQuota?: QuotaCheck): Promise<Reservation | undefined>;
+  cancelReservation(id: number, actor: AuditActor): Promise<Reservation | undefined>;
+  getReservationByPaymentIntent(paymentIntentId: string): Promise<Reservation | undefined>;
+  getExpiredHolds(now: Date, legacyCreatedBefore: Date): Promise<Reservation[]>;
+  expireReservation(id: number, actor: AuditActor): Promise<Reservation | undefined>;
+  
+  // Check-in and no-show methods; both updates only apply to confirmed reservations not yet checked in
+  getReservationByConfirmationCode(confirmationCode: string): Promise<Reservation | undefined>;
+  checkInReservation(id: number, at: Date, actor: AuditActor): Promise<Reservation | undefined>;
+  getMissedCheckIns(startedBefore: Date, now: Date): Promise<Reservation[]>;
+  markNoShow(id: number, actor: AuditActor): Promise<Reservation | undefined>;
+  getNoShowCounts(roomIds?: number[]): Promise<NoShowCount[]>; // Counts every room unless limited to some
+  getUpcomingConfirmedReservations(from: Date, to: Date): Promise<Reservation[]>;
+  
+  // Recurring series methods
+  getReservationSeries(id: number): Promise<ReservationSeries | undefined>;
+  getReservationSeriesByUser(userId: number): Promise<ReservationSeries[]>;
+  getReservationsBySeries(seriesId: number): Promise<Reservation[]>;
+  createReservationSeries(series: InsertReservationSeries): Promise<ReservationSeries>;
+  updateReservationSeries(id: number, series: Partial<InsertReservationSeries>): Promise<ReservationSeries | undefined>;
+  
+  // Pricing rule methods
+  getPricingRule(id: number): Promise<PricingRule | undefined>;
+  getAllPricingRules(): Promise<PricingRule[]>;
+  createPricingRule(rule: InsertPricingRule): Promise<PricingRule>;
+  updatePricingRule(id: number, rule: Partial<InsertPricingRule>): Promise<PricingRule | undefined>;
+  deletePricingRule(id: number): Promise<boolean>;
+  
+  // Promo code methods; redeem returns false once the code's usage limit has been reached
+  getPromoCode(id: number): Promise<PromoCode | undefined>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  getAllPromoCodes(): Promise<PromoCode[]>;
+  createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode>;
+  updatePromoCode(id: number, promoCode: Partial<InsertPromoCode>): Promise<PromoCode | undefined>;
+  deletePromoCode(id: number): Promise<boolean>;
+  redeemPromoCode(id: number): Promise<boolean>;
+  releasePromoCode(id: number): Promise<void>;
+  
+  // Email outbox; enqueue returns undefined if an email with the same dedupe key was already queued
+  enqueueEmail(email: InsertOutboxEmail): Promise<OutboxEmail | undefined>;
+  getDueEmails(now: Date, limit: number): Promise<OutboxEmail[]>;
+  markEmailSent(id: number, at: Date): Promise<void>;
+  markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void>;
+  
+  // Stripe webhook idempotency: claim returns false if the event was already handled
+  claimStripeEvent(eventId: string, type: string): Promise<boolean>;
+  releaseStripeEvent(eventId: string): Promise<void>;
+  
+  // Audit log of reservation, room and location changes (written by the mutation methods above), oldest first
+  getAuditLog(entityType: AuditEntityType, entityId: number): Promise<AuditLogEntry[]>;
+  getRecentAuditLog(limit: number, entityType?: AuditEntityType): Promise<AuditLogEntry[]>;
   
   // Session store
   sessionStore: session.Store;
@@ -57,12 +210,33 @@ export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private locations: Map<number, Location>;
   private rooms: Map<number, Room>;
+  private roomBlackouts: Map<number, RoomBlackout>;
   private reservations: Map<number, Reservation>;
+  private locationHours: Map<number, LocationHours>;
+  private locationClosures: Map<number, LocationClosure>;
+  private reservationSeries: Map<number, ReservationSeries>;
+  private pricingRules: Map<number, PricingRule>;
+  private promoCodes: Map<number, PromoCode>;
+  private emailOutbox: Map<number, OutboxEmail>;
+  private stripeEvents: Map<string, StripeEventRecord>;
+  private staffAssignments: Map<number, StaffAssignment>;
+  private authTokens: Map<number, AuthToken>;
+  private auditLog: AuditLogEntry[];
   
   private userCurrentId: number;
   private locationCurrentId: number;
   private roomCurrentId: number;
+  private roomBlackoutCurrentId: number;
   private reservationCurrentId: number;
+  private locationHoursCurrentId: number;
+  private locationClosureCurrentId: number;
+  private reservationSeriesCurrentId: number;
+  private pricingRuleCurrentId: number;
+  private promoCodeCurrentId: number;
+  private emailCurrentId: number;
+  private staffAssignmentCurrentId: number;
+  private authTokenCurrentId: number;
+  private auditLogCurrentId: number;
   
   // Session store
   public sessionStore: session.Store;
@@ -71,12 +245,33 @@ export class MemStorage implements IStorage {
     this.users = new Map();
     this.locations = new Map();
     this.rooms = new Map();
+    this.roomBlackouts = new Map();
     this.reservations = new Map();
+    this.locationHours = new Map();
+    this.locationClosures = new Map();
+    this.reservationSeries = new Map();
+    this.pricingRules = new Map();
+    this.promoCodes = new Map();
+    this.emailOutbox = new Map();
+    this.stripeEvents = new Map();
+    this.staffAssignments = new Map();
+    this.authTokens = new Map();
+    this.auditLog = [];
     
     this.userCurrentId = 1;
     this.locationCurrentId = 1;
     this.roomCurrentId = 1;
+    this.roomBlackoutCurrentId = 1;
     this.reservationCurrentId = 1;
+    this.locationHoursCurrentId = 1;
+    this.locationClosureCurrentId = 1;
+    this.reservationSeriesCurrentId = 1;
+    this.pricingRuleCurrentId = 1;
+    this.promoCodeCurrentId = 1;
+    this.emailCurrentId = 1;
+    this.staffAssignmentCurrentId = 1;
+    this.authTokenCurrentId = 1;
+    this.auditLogCurrentId = 1;
     
     // Initialize session store
     const MemoryStore = createMemoryStore(session);
@@ -113,7 +308,12 @@ export class MemStorage implements IStorage {
       createdAt: now,
       name: insertUser.name || null,
       email: insertUser.email || null,
-      isAdmin: insertUser.isAdmin ?? false
+      emailVerifiedAt: null,
+      role: insertUser.role ?? "patron",
+      isAdmin: false,
+      calendarToken: null,
+      failedLoginAttempts: 0,
+      lockedUntil: null
     };
     this.users.set(id, user);
     return user;
@@ -127,6 +327,98 @@ export class MemStorage implements IStorage {
     this.users.set(id, updatedUser);
     return updatedUser;
   }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.calendarToken === token);
+  }
+
+  async setCalendarToken(userId: number, token: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const updated = { ...user, calendarToken: token };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return Array.from(this.users.values()).filter(user => !!user.email && normalizeEmail(user.email) === normalizeEmail(email));
+  }
+
+  async markEmailVerified(userId: number, email: string, at: Date): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user?.email || normalizeEmail(user.email) !== normalizeEmail(email)) return undefined;
+
+    const updated = { ...user, emailVerifiedAt: at };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async recordFailedLogin(userId: number, now: Date): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const failedLoginAttempts = user.failedLoginAttempts + 1;
+    const updated = { ...user, failedLoginAttempts, lockedUntil: lockedUntil(failedLoginAttempts, now) };
+    this.users.set(userId, updated);
+    return updated;
+  }
+
+  async clearFailedLogins(userId: number): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) this.users.set(userId, { ...user, failedLoginAttempts: 0, lockedUntil: null });
+  }
+
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const id = this.authTokenCurrentId++;
+    const newToken: AuthToken = { ...token, id, usedAt: null, createdAt: new Date() };
+    this.authTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async countAuthTokensSince(userId: number, purpose: string, since: Date): Promise<number> {
+    return Array.from(this.authTokens.values()).filter(token =>
+      token.userId === userId && token.purpose === purpose && !!token.createdAt && token.createdAt >= since
+    ).length;
+  }
+
+  async consumeAuthToken(purpose: string, tokenHash: string, now: Date): Promise<AuthToken | undefined> {
+    const token = Array.from(this.authTokens.values()).find(t => t.purpose === purpose && t.tokenHash === tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= now) return undefined;
+
+    const used = { ...token, usedAt: now };
+    this.authTokens.set(token.id, used);
+    return used;
+  }
+
+  async revokeAuthTokens(userId: number, purpose: string, at: Date): Promise<void> {
+    Array.from(this.authTokens.values())
+      .filter(token => token.userId === userId && token.purpose === purpose && !token.usedAt)
+      .forEach(token => this.authTokens.set(token.id, { ...token, usedAt: at }));
+  }
+
+  async getStaffAssignmentsByUser(userId: number): Promise<StaffAssignment[]> {
+    return Array.from(this.staffAssignments.values()).filter(assignment => assignment.userId === userId);
+  }
+
+  async getAllStaffAssignments(): Promise<StaffAssignment[]> {
+    return Array.from(this.staffAssignments.values());
+  }
+
+  async setStaffAssignment(assignment: InsertStaffAssignment): Promise<StaffAssignment> {
+    const existing = Array.from(this.staffAssignments.values()).find(
+      a => a.userId === assignment.userId && a.locationId === assignment.locationId
+    );
+    const saved: StaffAssignment = existing
+      ? { ...existing, role: assignment.role }
+      : { ...assignment, id: this.staffAssignmentCurrentId++, createdAt: new Date() };
+    this.staffAssignments.set(saved.id, saved);
+    return saved;
+  }
+
+  async deleteStaffAssignment(id: number): Promise<boolean> {
+    return this.staffAssignments.delete(id);
+  }
   
   // Location methods
   async getLocation(id: number): Promise<Location | undefined> {
@@ -137,7 +429,7 @@ export class MemStorage implements IStorage {
     return Array.from(this.locations.values());
   }
   
-  async createLocation(location: InsertLocation): Promise<Location> {
+  async createLocation(location: InsertLocation, actor: AuditActor): Promise<Location> {
     const id = this.locationCurrentId++;
     const newLocation: Location = {
       ...location,
@@ -147,26 +439,99 @@ export class MemStorage implements IStorage {
       state: location.state || null,
       zipCode: location.zipCode || null,
       phoneNumber: location.phoneNumber || null,
+      timezone: location.timezone || DEFAULT_TIME_ZONE,
+      slotMinutes: location.slotMinutes ?? SLOT_MINUTES,
       isActive: location.isActive ?? true
     };
     this.locations.set(id, newLocation);
+    this.recordAudit("location", id, "created", actor, diffFields(null, newLocation));
     return newLocation;
   }
   
-  async updateLocation(id: number, location: Partial<InsertLocation>): Promise<Location | undefined> {
+  async updateLocation(id: number, location: Partial<InsertLocation>, actor: AuditActor): Promise<Location | undefined> {
     const existingLocation = this.locations.get(id);
     if (!existingLocation) return undefined;
     
     const updatedLocation = { ...existingLocation, ...location };
     this.locations.set(id, updatedLocation);
+    this.recordAudit("location", id, "updated", actor, diffFields(existingLocation, updatedLocation));
     return updatedLocation;
   }
   
+  // Opening hours and closure methods
+  async getLocationHours(locationId: number): Promise<LocationHours[]> {
+    return Array.from(this.locationHours.values())
+      .filter(h => h.locationId === locationId)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek);
+  }
+  
+  async setLocationHours(locationId: number, hours: InsertLocationHours[], actor: AuditActor): Promise<LocationHours[]> {
+    const previous = await this.getLocationHours(locationId);
+    
+    // Replace the whole weekly schedule for the location
+    Array.from(this.locationHours.values())
+      .filter(h => h.locationId === locationId)
+      .forEach(h => this.locationHours.delete(h.id));
+    
+    for (const day of hours) {
+      const id = this.locationHoursCurrentId++;
+      this.locationHours.set(id, {
+        id,
+        locationId,
+        dayOfWeek: day.dayOfWeek,
+        openTime: day.openTime || null,
+        closeTime: day.closeTime || null,
+        isClosed: day.isClosed ?? false
+      });
+    }
+    
+    const updated = await this.getLocationHours(locationId);
+    this.recordAudit("location", locationId, "hours_updated", actor,
+      diffFields({ hours: scheduleSnapshot(previous) }, { hours: scheduleSnapshot(updated) }));
+    return updated;
+  }
+  
+  async getLocationClosures(locationId: number): Promise<LocationClosure[]> {
+    return Array.from(this.locationClosures.values())
+      .filter(c => c.locationId === locationId)
+      .sort((a, b) => a.closureDate.localeCompare(b.closureDate));
+  }
+  
+  async createLocationClosure(closure: InsertLocationClosure, actor: AuditActor): Promise<LocationClosure> {
+    const id = this.locationClosureCurrentId++;
+    const newClosure: LocationClosure = {
+      id,
+      locationId: closure.locationId,
+      closureDate: closure.closureDate,
+      reason: closure.reason || null,
+      createdAt: new Date()
+    };
+    this.locationClosures.set(id, newClosure);
+    this.recordAudit("location", closure.locationId, "closure_added", actor,
+      diffFields(null, { closureDate: newClosure.closureDate, reason: newClosure.reason }));
+    return newClosure;
+  }
+  
+  async deleteLocationClosure(id: number, actor: AuditActor): Promise<boolean> {
+    const closure = this.locationClosures.get(id);
+    if (!closure) return false;
+    
+    this.locationClosures.delete(id);
+    this.recordAudit("location", closure.locationId, "closure_removed", actor,
+      diffFields({ closureDate: closure.closureDate, reason: closure.reason }, null));
+    return true;
+  }
+  
   // Room methods
   async getRoom(id: number): Promise<Room | undefined> {
     return this.rooms.get(id);
   }
   
+  async getRoomTimeZone(roomId: number): Promise<string> {
+    const room = this.rooms.get(roomId);
+    return locationTimeZone(room && this.locations.get(room.locationId));
+  }
+  
   async getRoomsByLocation(locationId: number): Promise<Room[]> {
     return Array.from(this.rooms.values()).filter(room => room.locationId === locationId);
   }
@@ -175,7 +540,7 @@ export class MemStorage implements IStorage {
     return Array.from(this.rooms.values());
   }
   
-  async createRoom(room: InsertRoom): Promise<Room> {
+  async createRoom(room: InsertRoom, actor: AuditActor): Promise<Room> {
     const id = this.roomCurrentId++;
     const now = new Date();
     const newRoom: Room = {
@@ -184,21 +549,65 @@ export class MemStorage implements IStorage {
       createdAt: now,
       description: room.description || null,
       features: room.features || [],
+      roomType: room.roomType ?? "study",
+      slotMinutes: room.slotMinutes ?? null,
+      setupBufferMinutes: room.setupBufferMinutes ?? 0,
+      cleanupBufferMinutes: room.cleanupBufferMinutes ?? 0,
       isActive: room.isActive ?? true
     };
     this.rooms.set(id, newRoom);
+    this.recordAudit("room", id, "created", actor, diffFields(null, newRoom));
     return newRoom;
   }
   
-  async updateRoom(id: number, room: Partial<InsertRoom>): Promise<Room | undefined> {
+  async updateRoom(id: number, room: Partial<InsertRoom>, actor: AuditActor): Promise<Room | undefined> {
     const existingRoom = this.rooms.get(id);
     if (!existingRoom) return undefined;
     
     const updatedRoom = { ...existingRoom, ...room };
     this.rooms.set(id, updatedRoom);
+    this.recordAudit("room", id, "updated", actor, diffFields(existingRoom, updatedRoom));
     return updatedRoom;
   }
   
+  // Room blackout methods
+  async getRoomBlackouts(roomId: number): Promise<RoomBlackout[]> {
+    return Array.from(this.roomBlackouts.values())
+      .filter(blackout => blackout.roomId === roomId)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
+  async getRoomBlackoutsByLocation(locationId: number): Promise<RoomBlackout[]> {
+    return Array.from(this.roomBlackouts.values())
+      .filter(blackout => this.rooms.get(blackout.roomId)?.locationId === locationId)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
+  async createRoomBlackout(blackout: InsertRoomBlackout, actor: AuditActor): Promise<RoomBlackout> {
+    const id = this.roomBlackoutCurrentId++;
+    const newBlackout: RoomBlackout = {
+      id,
+      roomId: blackout.roomId,
+      startTime: blackout.startTime,
+      endTime: blackout.endTime,
+      rrule: blackout.rrule ?? null,
+      reason: blackout.reason,
+      createdAt: new Date()
+    };
+    this.roomBlackouts.set(id, newBlackout);
+    this.recordAudit("room", blackout.roomId, "blackout_added", actor, diffFields(null, blackoutSnapshot(newBlackout)));
+    return newBlackout;
+  }
+  
+  async deleteRoomBlackout(id: number, actor: AuditActor): Promise<boolean> {
+    const blackout = this.roomBlackouts.get(id);
+    if (!blackout) return false;
+    
+    this.roomBlackouts.delete(id);
+    this.recordAudit("room", blackout.roomId, "blackout_removed", actor, diffFields(blackoutSnapshot(blackout), null));
+    return true;
+  }
+  
   // Reservation methods
   async getReservation(id: number): Promise<Reservation | undefined> {
     return this.reservations.get(id);
@@ -223,6 +632,10 @@ export class MemStorage implements IStorage {
     });
   }
   
+  async getReservationsBetween(from: Date, to: Date): Promise<Reservation[]> {
+    return Array.from(this.reservations.values()).filter(res => res.startTime < to && res.endTime > from);
+  }
+  
   async getReservationsByUser(userId: number): Promise<Reservation[]> {
     return Array.from(this.reservations.values()).filter(res => res.userId === userId);
   }
@@ -231,8 +644,24 @@ export class MemStorage implements IStorage {
     return Array.from(this.reservations.values());
   }
   
-  async createReservation(reservation: InsertReservation): Promise<Reservation> {
-    const id = this.reservationCurrentId++;
+  async getConflictingReservations(roomId: number, startTime: Date, endTime: Date, excludeReservationId?: number): Promise<Reservation[]> {
+    return this.findConflicts(roomId, startTime, endTime, excludeReservationId);
+  }
+  
+  // Synchronous so that the check and the write below happen without yielding to other requests.
+  // Bookings closer together than the room's setup and cleanup buffers conflict too.
+  private findConflicts(roomId: number, startTime: Date, endTime: Date, excludeReservationId?: number): Reservation[] {
+    const window = conflictWindow(startTime, endTime, this.rooms.get(roomId) ?? {});
+    return Array.from(this.reservations.values()).filter(res =>
+      res.roomId === roomId &&
+      res.id !== excludeReservationId &&
+      isActiveReservation(res) &&
+      res.startTime < window.endTime &&
+      res.endTime > window.startTime
+    );
+  }
+  
+  async createReservation(reservation: InsertReservation, actor: AuditActor, checkQuota?: QuotaCheck): Promise<Reservation> {
     const now = new Date();
     
     // Handle both string and Date objects for all date fields
@@ -240,18 +669,29 @@ export class MemStorage implements IStorage {
       ? reservation.reservationDate
       : format(reservation.reservationDate as Date, 'yyyy-MM-dd');
     
+    const timeZone = await this.getRoomTimeZone(reservation.roomId);
     const startTime = typeof reservation.startTime === 'string'
-      ? DateTime.fromISO(reservation.startTime, { zone: 'America/New_York' }).toJSDate()
+      ? parseBranchTime(reservation.startTime, timeZone).toJSDate()
       : reservation.startTime;
 
     const endTime = typeof reservation.endTime === 'string'
-      ? DateTime.fromISO(reservation.endTime, { zone: 'America/New_York' }).toJSDate()
+      ? parseBranchTime(reservation.endTime, timeZone).toJSDate()
       : reservation.endTime;
     
+    await enforceQuota(checkQuota);
+    
+    const status = reservation.status || "confirmed";
+    if (!releasedReservationStatuses.includes(status)) {
+      const [conflict] = this.findConflicts(reservation.roomId, startTime, endTime);
+      if (conflict) {
+        throw new ReservationConflictError(conflict);
+      }
+    }
+    
     // Generate a random confirmation code if not provided
-    const confirmationCode = reservation.confirmationCode || 
-      `LIB-${Math.floor(100000 + Math.random() * 900000)}`;
+    const confirmationCode = reservation.confirmationCode || generateConfirmationCode();
     
+    const id = this.reservationCurrentId++;
     const newReservation: Reservation = { 
       id,
       roomId: reservation.roomId,
@@ -262,33 +702,65 @@ export class MemStorage implements IStorage {
       startTime: startTime, // Use converted startTime
       endTime: endTime, // Use converted endTime
       purpose: reservation.purpose || null,
-      status: reservation.status || "confirmed",
+      status,
       confirmationCode,
       notes: reservation.notes || null,
+      guestVerificationTokenHash: reservation.guestVerificationTokenHash ?? null,
+      guestVerifiedAt: reservation.guestVerifiedAt ?? null,
+      checkedInAt: null,
+      stripePaymentIntentId: reservation.stripePaymentIntentId || null,
+      paymentStatus: reservation.paymentStatus || "pending",
+      priceInCents: reservation.priceInCents ?? null,
+      holdExpiresAt: reservation.holdExpiresAt ?? null,
+      refundAmountInCents: reservation.refundAmountInCents ?? null,
+      stripeRefundId: reservation.stripeRefundId ?? null,
+      refundedAt: reservation.refundedAt ?? null,
+      promoCodeId: reservation.promoCodeId ?? null,
+      promoDiscountInCents: reservation.promoDiscountInCents ?? null,
+      seriesId: reservation.seriesId ?? null,
+      isSeriesException: reservation.isSeriesException ?? false,
       createdAt: now,
       updatedAt: now
     };
     
     this.reservations.set(id, newReservation);
+    this.recordAudit("reservation", id, "created", actor, diffFields(null, newReservation));
     return newReservation;
   }
   
-  async updateReservation(id: number, reservation: Partial<InsertReservation>): Promise<Reservation | undefined> {
+  async updateReservation(id: number, reservation: Partial<InsertReservation>, actor: AuditActor, checkQuota?: QuotaCheck): Promise<Reservation | undefined> {
     const existingReservation = this.reservations.get(id);
     if (!existingReservation) return undefined;
     
+    await enforceQuota(checkQuota);
+    
     const now = new Date();
     const updatedReservation = { 
       ...existingReservation, 
       ...reservation,
       updatedAt: now
-    };
+    } as Reservation;
+    
+    // Moving or re-activating a booking must not land it on top of another one
+    if (isActiveReservation(updatedReservation)) {
+      const [conflict] = this.findConflicts(
+        updatedReservation.roomId,
+        new Date(updatedReservation.startTime),
+        new Date(updatedReservation.endTime),
+        id
+      );
+      if (conflict) {
+        throw new ReservationConflictError(conflict);
+      }
+    }
     
     this.reservations.set(id, updatedReservation);
+    const changes = diffFields(existingReservation, updatedReservation);
+    this.recordAudit("reservation", id, reservationAuditAction(changes), actor, changes);
     return updatedReservation;
   }
   
-  async cancelReservation(id: number): Promise<Reservation | undefined> {
+  async cancelReservation(id: number, actor: AuditActor): Promise<Reservation | undefined> {
     const existingReservation = this.reservations.get(id);
     if (!existingReservation) return undefined;
     
@@ -300,9 +772,329 @@ export class MemStorage implements IStorage {
     };
     
     this.reservations.set(id, cancelledReservation);
+    this.recordAudit("reservation", id, "cancelled", actor, diffFields(existingReservation, cancelledReservation));
     return cancelledReservation;
   }
   
+  async getReservationByPaymentIntent(paymentIntentId: string): Promise<Reservation | undefined> {
+    return Array.from(this.reservations.values()).find(res => res.stripePaymentIntentId === paymentIntentId);
+  }
+  
+  async getExpiredHolds(now: Date, legacyCreatedBefore: Date): Promise<Reservation[]> {
+    return Array.from(this.reservations.values()).filter(res =>
+      holdStatuses.includes(res.status || "") &&
+      (res.holdExpiresAt ? res.holdExpiresAt < now : !!res.createdAt && res.createdAt < legacyCreatedBefore)
+    );
+  }
+  
+  async expireReservation(id: number, actor: AuditActor): Promise<Reservation | undefined> {
+    const existingReservation = this.reservations.get(id);
+    // Only holds can expire; anything else was paid, verified or cancelled in the meantime
+    if (!existingReservation || !holdStatuses.includes(existingReservation.status || "")) return undefined;
+    
+    const expiredReservation = { 
+      ...existingReservation, 
+      status: "expired",
+      updatedAt: new Date()
+    };
+    
+    this.reservations.set(id, expiredReservation);
+    this.recordAudit("reservation", id, "expired", actor, diffFields(existingReservation, expiredReservation));
+    return expiredReservation;
+  }
+  
+  // Check-in and no-show methods
+  async getReservationByConfirmationCode(confirmationCode: string): Promise<Reservation | undefined> {
+    return Array.from(this.reservations.values()).find(res => res.confirmationCode === confirmationCode);
+  }
+  
+  async checkInReservation(id: number, at: Date, actor: AuditActor): Promise<Reservation | undefined> {
+    const existingReservation = this.reservations.get(id);
+    if (!existingReservation || existingReservation.status !== "confirmed" || existingReservation.checkedInAt) return undefined;
+    
+    const checkedIn = { ...existingReservation, checkedInAt: at, updatedAt: new Date() };
+    this.reservations.set(id, checkedIn);
+    this.recordAudit("reservation", id, "checked_in", actor, diffFields(existingReservation, checkedIn));
+    return checkedIn;
+  }
+  
+  async getMissedCheckIns(startedBefore: Date, now: Date): Promise<Reservation[]> {
+    return Array.from(this.reservations.values()).filter(res =>
+      res.status === "confirmed" &&
+      !res.checkedInAt &&
+      res.startTime <= startedBefore &&
+      res.endTime > now
+    );
+  }
+  
+  async markNoShow(id: number, actor: AuditActor): Promise<Reservation | undefined> {
+    const existingReservation = this.reservations.get(id);
+    if (!existingReservation || existingReservation.status !== "confirmed" || existingReservation.checkedInAt) return undefined;
+    
+    const noShow = { ...existingReservation, status: "no_show", updatedAt: new Date() };
+    this.reservations.set(id, noShow);
+    this.recordAudit("reservation", id, "no_show", actor, diffFields(existingReservation, noShow));
+    return noShow;
+  }
+  
+  async getNoShowCounts(roomIds?: number[]): Promise<NoShowCount[]> {
+    const counts = new Map<number, NoShowCount>();
+    for (const res of Array.from(this.reservations.values())) {
+      if (res.status !== "no_show" || !res.userId) continue;
+      if (roomIds && !roomIds.includes(res.roomId)) continue;
+      const current = counts.get(res.userId);
+      counts.set(res.userId, {
+        userId: res.userId,
+        noShowCount: (current?.noShowCount ?? 0) + 1,
+        lastNoShowAt: current && current.lastNoShowAt > res.startTime ? current.lastNoShowAt : res.startTime
+      });
+    }
+    return Array.from(counts.values()).sort((a, b) => b.noShowCount - a.noShowCount);
+  }  
+  async getUpcomingConfirmedReservations(from: Date, to: Date): Promise<Reservation[]> {
+    return Array.from(this.reservations.values()).filter(res =>
+      res.status === "confirmed" && res.startTime >= from && res.startTime < to
+    );
+  }
+
+  
+  // Recurring series methods
+  async getReservationSeries(id: number): Promise<ReservationSeries | undefined> {
+    return this.reservationSeries.get(id);
+  }
+  
+  async getReservationSeriesByUser(userId: number): Promise<ReservationSeries[]> {
+    return Array.from(this.reservationSeries.values()).filter(series => series.userId === userId);
+  }
+  
+  async getReservationsBySeries(seriesId: number): Promise<Reservation[]> {
+    return Array.from(this.reservations.values())
+      .filter(res => res.seriesId === seriesId)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
+  async createReservationSeries(series: InsertReservationSeries): Promise<ReservationSeries> {
+    const id = this.reservationSeriesCurrentId++;
+    const now = new Date();
+    const newSeries: ReservationSeries = {
+      id,
+      roomId: series.roomId,
+      userId: series.userId ?? null,
+      guestName: series.guestName ?? null,
+      guestEmail: series.guestEmail ?? null,
+      rrule: series.rrule,
+      startTime: series.startTime,
+      endTime: series.endTime,
+      purpose: series.purpose ?? null,
+      notes: series.notes ?? null,
+      status: series.status || "active",
+      createdAt: now,
+      updatedAt: now
+    };
+    this.reservationSeries.set(id, newSeries);
+    return newSeries;
+  }
+  
+  async updateReservationSeries(id: number, series: Partial<InsertReservationSeries>): Promise<ReservationSeries | undefined> {
+    const existingSeries = this.reservationSeries.get(id);
+    if (!existingSeries) return undefined;
+    
+    const updatedSeries = { ...existingSeries, ...series, updatedAt: new Date() } as ReservationSeries;
+    this.reservationSeries.set(id, updatedSeries);
+    return updatedSeries;
+  }
+  
+  // Pricing rule methods
+  async getPricingRule(id: number): Promise<PricingRule | undefined> {
+    return this.pricingRules.get(id);
+  }
+  
+  async getAllPricingRules(): Promise<PricingRule[]> {
+    return Array.from(this.pricingRules.values());
+  }
+  
+  async createPricingRule(rule: InsertPricingRule): Promise<PricingRule> {
+    const id = this.pricingRuleCurrentId++;
+    const now = new Date();
+    const newRule: PricingRule = {
+      id,
+      name: rule.name,
+      type: rule.type,
+      locationId: rule.locationId ?? null,
+      roomId: rule.roomId ?? null,
+      daysOfWeek: rule.daysOfWeek ?? null,
+      startTime: rule.startTime ?? null,
+      endTime: rule.endTime ?? null,
+      hourlyRateInCents: rule.hourlyRateInCents ?? null,
+      discountPercent: rule.discountPercent ?? null,
+      audience: rule.audience || "all",
+      priority: rule.priority ?? 0,
+      isActive: rule.isActive ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.pricingRules.set(id, newRule);
+    return newRule;
+  }
+  
+  async updatePricingRule(id: number, rule: Partial<InsertPricingRule>): Promise<PricingRule | undefined> {
+    const existingRule = this.pricingRules.get(id);
+    if (!existingRule) return undefined;
+    
+    const updatedRule = { ...existingRule, ...rule, updatedAt: new Date() } as PricingRule;
+    this.pricingRules.set(id, updatedRule);
+    return updatedRule;
+  }
+  
+  async deletePricingRule(id: number): Promise<boolean> {
+    return this.pricingRules.delete(id);
+  }
+  
+  // Promo code methods
+  async getPromoCode(id: number): Promise<PromoCode | undefined> {
+    return this.promoCodes.get(id);
+  }
+  
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    return Array.from(this.promoCodes.values()).find(p => p.code === code.toUpperCase());
+  }
+  
+  async getAllPromoCodes(): Promise<PromoCode[]> {
+    return Array.from(this.promoCodes.values());
+  }
+  
+  async createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode> {
+    const id = this.promoCodeCurrentId++;
+    const newPromoCode: PromoCode = {
+      id,
+      code: promoCode.code.toUpperCase(),
+      description: promoCode.description ?? null,
+      discountType: promoCode.discountType,
+      discountValue: promoCode.discountValue,
+      maxUses: promoCode.maxUses ?? null,
+      timesUsed: 0,
+      expiresAt: promoCode.expiresAt ?? null,
+      locationId: promoCode.locationId ?? null,
+      roomId: promoCode.roomId ?? null,
+      isActive: promoCode.isActive ?? true,
+      createdAt: new Date()
+    };
+    this.promoCodes.set(id, newPromoCode);
+    return newPromoCode;
+  }
+  
+  async updatePromoCode(id: number, promoCode: Partial<InsertPromoCode>): Promise<PromoCode | undefined> {
+    const existingPromoCode = this.promoCodes.get(id);
+    if (!existingPromoCode) return undefined;
+    
+    const updatedPromoCode = { ...existingPromoCode, ...promoCode } as PromoCode;
+    this.promoCodes.set(id, updatedPromoCode);
+    return updatedPromoCode;
+  }
+  
+  async deletePromoCode(id: number): Promise<boolean> {
+    return this.promoCodes.delete(id);
+  }
+  
+  async redeemPromoCode(id: number): Promise<boolean> {
+    const promoCode = this.promoCodes.get(id);
+    if (!promoCode || (promoCode.maxUses !== null && (promoCode.timesUsed ?? 0) >= promoCode.maxUses)) {
+      return false;
+    }
+    this.promoCodes.set(id, { ...promoCode, timesUsed: (promoCode.timesUsed ?? 0) + 1 });
+    return true;
+  }
+  
+  async releasePromoCode(id: number): Promise<void> {
+    const promoCode = this.promoCodes.get(id);
+    if (promoCode) {
+      this.promoCodes.set(id, { ...promoCode, timesUsed: Math.max((promoCode.timesUsed ?? 0) - 1, 0) });
+    }
+  }
+  
+  // Stripe webhook idempotency
+  async enqueueEmail(email: InsertOutboxEmail): Promise<OutboxEmail | undefined> {
+    if (Array.from(this.emailOutbox.values()).some(e => e.dedupeKey === email.dedupeKey)) return undefined;
+    
+    const id = this.emailCurrentId++;
+    const now = new Date();
+    const queued: OutboxEmail = {
+      ...email,
+      id,
+      reservationId: email.reservationId ?? null,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: now,
+      sentAt: null,
+      createdAt: now
+    };
+    this.emailOutbox.set(id, queued);
+    return queued;
+  }
+  
+  async getDueEmails(now: Date, limit: number): Promise<OutboxEmail[]> {
+    return Array.from(this.emailOutbox.values())
+      .filter(e => e.status === "pending" && (!e.nextAttemptAt || e.nextAttemptAt <= now))
+      .sort((a, b) => (a.nextAttemptAt?.getTime() ?? 0) - (b.nextAttemptAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+  
+  async markEmailSent(id: number, at: Date): Promise<void> {
+    const email = this.emailOutbox.get(id);
+    if (!email) return;
+    this.emailOutbox.set(id, { ...email, status: "sent", attempts: (email.attempts ?? 0) + 1, sentAt: at, lastError: null });
+  }
+  
+  async markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    const email = this.emailOutbox.get(id);
+    if (!email) return;
+    this.emailOutbox.set(id, {
+      ...email,
+      status: nextAttemptAt ? "pending" : "failed",
+      attempts: (email.attempts ?? 0) + 1,
+      lastError: error,
+      nextAttemptAt
+    });
+  }
+  
+  async claimStripeEvent(eventId: string, type: string): Promise<boolean> {
+    if (this.stripeEvents.has(eventId)) return false;
+    this.stripeEvents.set(eventId, { id: eventId, type, processedAt: new Date() });
+    return true;
+  }
+  
+  async releaseStripeEvent(eventId: string): Promise<void> {
+    this.stripeEvents.delete(eventId);
+  }
+
+  async getAuditLog(entityType: AuditEntityType, entityId: number): Promise<AuditLogEntry[]> {
+    return this.auditLog.filter(entry => entry.entityType === entityType && entry.entityId === entityId);
+  }
+
+  async getRecentAuditLog(limit: number, entityType?: AuditEntityType): Promise<AuditLogEntry[]> {
+    return this.auditLog
+      .filter(entry => !entityType || entry.entityType === entityType)
+      .slice(-limit)
+      .reverse();
+  }
+
+  private recordAudit(entityType: AuditEntityType, entityId: number, action: string, actor: AuditActor, changes: AuditChanges) {
+    // Nothing actually changed, e.g. a save with identical values
+    if (Object.keys(changes).length === 0) return;
+    this.auditLog.push({
+      id: this.auditLogCurrentId++,
+      entityType,
+      entityId,
+      action,
+      actorType: actor.type,
+      actorId: actor.userId ?? null,
+      actorLabel: actor.label ?? null,
+      changes,
+      createdAt: new Date()
+    });
+  }
+  
   // Initialize with sample data
   private async initializeSampleData() {
     // Create admin user
@@ -311,7 +1103,7 @@ export class MemStorage implements IStorage {
       password: "admin123", // In a real app, this would be hashed
       name: "Library Admin",
       email: "admin@library.com",
-      isAdmin: true
+      role: "system_admin"
     };
     await this.createUser(adminUser);
     
@@ -320,8 +1112,7 @@ export class MemStorage implements IStorage {
       username: "user",
       password: "user123", // In a real app, this would be hashed
       name: "John Reader",
-      email: "john@example.com",
-      isAdmin: false
+      email: "john@example.com"
     };
     await this.createUser(regularUser);
     
@@ -335,7 +1126,7 @@ export class MemStorage implements IStorage {
       phoneNumber: "704-416-6400",
       isActive: true
     };
-    const createdSouthLocation = await this.createLocation(southLocation);
+    const createdSouthLocation = await this.createLocation(southLocation, sampleDataActor);
     
     // Add rooms to South Boulevard
     const southRooms: InsertRoom[] = [
@@ -345,6 +1136,7 @@ export class MemStorage implements IStorage {
         capacity: 12,
         description: "A large meeting room ideal for group study sessions and collaborative projects. The room includes a large table with 12 chairs, a wall-mounted TV for presentations, and a whiteboard.",
         features: ["Whiteboard", "TV with HDMI", "Conference Phone", "WiFi"],
+        roomType: "group",
         isActive: true
       },
       {
@@ -391,7 +1183,7 @@ export class MemStorage implements IStorage {
     
     // Create each room
     for (const room of southRooms) {
-      await this.createRoom(room);
+      await this.createRoom(room, sampleDataActor);
     }
     
     // Create another location
@@ -404,7 +1196,7 @@ export class MemStorage implements IStorage {
       phoneNumber: "704-416-7200",
       isActive: true
     };
-    const createdUniversityLocation = await this.createLocation(universityLocation);
+    const createdUniversityLocation = await this.createLocation(universityLocation, sampleDataActor);
     
     // Add rooms to University City location
     const universityRooms: InsertRoom[] = [
@@ -414,6 +1206,8 @@ export class MemStorage implements IStorage {
         capacity: 20,
         description: "Large conference room with presentation facilities. Ideal for meetings, workshops, and community events.",
         features: ["Projector", "Conference Phone", "WiFi", "Whiteboard", "Computer"],
+        roomType: "conference",
+        cleanupBufferMinutes: 15, // chairs are reset after events
         isActive: true
       },
       {
@@ -422,6 +1216,7 @@ export class MemStorage implements IStorage {
         capacity: 1,
         description: "Individual study pod with privacy dividers. Perfect for quiet, focused study.",
         features: ["Desk", "Power Outlets", "WiFi", "Desk Lamp"],
+        slotMinutes: 30, // pods are booked by the half hour
         isActive: true
       },
       {
@@ -430,6 +1225,7 @@ export class MemStorage implements IStorage {
         capacity: 1,
         description: "Individual study pod with privacy dividers. Perfect for quiet, focused study.",
         features: ["Desk", "Power Outlets", "WiFi", "Desk Lamp"],
+        slotMinutes: 30, // pods are booked by the half hour
         isActive: true
       },
       {
@@ -438,13 +1234,14 @@ export class MemStorage implements IStorage {
         capacity: 8,
         description: "Medium-sized room for collaborative work. Features a large table and comfortable chairs.",
         features: ["Large Table", "WiFi", "Whiteboard", "TV with HDMI"],
+        roomType: "group",
         isActive: true
       }
     ];
     
     // Create each university room
     for (const room of universityRooms) {
-      await this.createRoom(room);
+      await this.createRoom(room, sampleDataActor);
     }
     
     // Create some sample reservations
@@ -498,22 +1295,21 @@ export class MemStorage implements IStorage {
     
     // Create each reservation
     for (const reservation of sampleReservations) {
-      await this.createReservation(reservation);
+      await this.createReservation(reservation, sampleDataActor);
     }
   }
 }
 
 import { db } from "./db";
-import { eq, and, sql } from "drizzle-orm";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 import * as schema from "@shared/schema";
-import type { 
-  User, InsertUser, Location, InsertLocation, Room, InsertRoom, Reservation, InsertReservation 
-} from "@shared/schema";
 
 const PostgresSessionStore = connectPg(session);
 
+// The shared database handle or an open transaction
+type DbExecutor = Pick<typeof db, "insert">;
+
 export class DatabaseStorage implements IStorage {
   public sessionStore: session.Store;
 
@@ -555,6 +1351,139 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const [user] = await db.select().from(schema.users).where(eq(schema.users.calendarToken, token));
+    return user || undefined;
+  }
+
+  async setCalendarToken(userId: number, token: string): Promise<User | undefined> {
+    const [user] = await db
+      .update(schema.users)
+      .set({ calendarToken: token })
+      .where(eq(schema.users.id, userId))
+      .returning();
+    return user;
+  }
+
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return db.select().from(schema.users).where(sql`lower(${schema.users.email}) = ${normalizeEmail(email)}`);
+  }
+
+  async markEmailVerified(userId: number, email: string, at: Date): Promise<User | undefined> {
+    const [user] = await db
+      .update(schema.users)
+      .set({ emailVerifiedAt: at })
+      .where(and(eq(schema.users.id, userId), sql`lower(${schema.users.email}) = ${normalizeEmail(email)}`))
+      .returning();
+    return user;
+  }
+
+  async recordFailedLogin(userId: number, now: Date): Promise<User | undefined> {
+    // Increment in the database so simultaneous attempts are all counted
+    const [user] = await db
+      .update(schema.users)
+      .set({ failedLoginAttempts: sql`${schema.users.failedLoginAttempts} + 1` })
+      .where(eq(schema.users.id, userId))
+      .returning();
+    if (!user) return undefined;
+
+    const until = lockedUntil(user.failedLoginAttempts, now);
+    if (!until) return user;
+
+    const [locked] = await db
+      .update(schema.users)
+      .set({ lockedUntil: until })
+      .where(eq(schema.users.id, userId))
+      .returning();
+    return locked;
+  }
+
+  async clearFailedLogins(userId: number): Promise<void> {
+    await db
+      .update(schema.users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(schema.users.id, userId));
+  }
+
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    const [newToken] = await db.insert(schema.authTokens).values(token).returning();
+    return newToken;
+  }
+
+  async countAuthTokensSince(userId: number, purpose: string, since: Date): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)`.mapWith(Number) })
+      .from(schema.authTokens)
+      .where(and(
+        eq(schema.authTokens.userId, userId),
+        eq(schema.authTokens.purpose, purpose),
+        gte(schema.authTokens.createdAt, since)
+      ));
+    return count;
+  }
+
+  async consumeAuthToken(purpose: string, tokenHash: string, now: Date): Promise<AuthToken | undefined> {
+    // Conditional update, so two requests racing with the same link can't both redeem it
+    const [token] = await db
+      .update(schema.authTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(schema.authTokens.purpose, purpose),
+        eq(schema.authTokens.tokenHash, tokenHash),
+        isNull(schema.authTokens.usedAt),
+        gt(schema.authTokens.expiresAt, now)
+      ))
+      .returning();
+    return token;
+  }
+
+  async revokeAuthTokens(userId: number, purpose: string, at: Date): Promise<void> {
+    await db
+      .update(schema.authTokens)
+      .set({ usedAt: at })
+      .where(and(
+        eq(schema.authTokens.userId, userId),
+        eq(schema.authTokens.purpose, purpose),
+        isNull(schema.authTokens.usedAt)
+      ));
+  }
+
+  async getStaffAssignmentsByUser(userId: number): Promise<StaffAssignment[]> {
+    return db.select().from(schema.staffAssignments).where(eq(schema.staffAssignments.userId, userId));
+  }
+
+  async getAllStaffAssignments(): Promise<StaffAssignment[]> {
+    return db.select().from(schema.staffAssignments).orderBy(asc(schema.staffAssignments.locationId), asc(schema.staffAssignments.userId));
+  }
+
+  async setStaffAssignment(assignment: InsertStaffAssignment): Promise<StaffAssignment> {
+    const [saved] = await db
+      .insert(schema.staffAssignments)
+      .values(assignment)
+      .onConflictDoUpdate({
+        target: [schema.staffAssignments.userId, schema.staffAssignments.locationId],
+        set: { role: assignment.role }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteStaffAssignment(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(schema.staffAssignments)
+      .where(eq(schema.staffAssignments.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Accounts flagged with the old is_admin column become system admins
+  async migrateLegacyAdmins() {
+    await db
+      .update(schema.users)
+      .set({ role: "system_admin" })
+      .where(and(eq(schema.users.isAdmin, true), eq(schema.users.role, "patron")));
+  }
+
   async getLocation(id: number): Promise<Location | undefined> {
     const [location] = await db.select().from(schema.locations).where(eq(schema.locations.id, id));
     return location || undefined;
@@ -564,21 +1493,86 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(schema.locations);
   }
 
-  async createLocation(location: InsertLocation): Promise<Location> {
-    const [newLocation] = await db
-      .insert(schema.locations)
-      .values(location)
-      .returning();
-    return newLocation;
+  async createLocation(location: InsertLocation, actor: AuditActor): Promise<Location> {
+    return db.transaction(async (tx) => {
+      const [newLocation] = await tx
+        .insert(schema.locations)
+        .values(location)
+        .returning();
+      await this.recordAudit(tx, "location", newLocation.id, "created", actor, diffFields(null, newLocation));
+      return newLocation;
+    });
   }
 
-  async updateLocation(id: number, locationData: Partial<InsertLocation>): Promise<Location | undefined> {
-    const [location] = await db
-      .update(schema.locations)
-      .set(locationData)
-      .where(eq(schema.locations.id, id))
-      .returning();
-    return location;
+  async updateLocation(id: number, locationData: Partial<InsertLocation>, actor: AuditActor): Promise<Location | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(schema.locations).where(eq(schema.locations.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const [location] = await tx
+        .update(schema.locations)
+        .set(locationData)
+        .where(eq(schema.locations.id, id))
+        .returning();
+      await this.recordAudit(tx, "location", id, "updated", actor, diffFields(existing, location));
+      return location;
+    });
+  }
+
+  async getLocationHours(locationId: number): Promise<LocationHours[]> {
+    return db.select().from(schema.locationHours)
+      .where(eq(schema.locationHours.locationId, locationId))
+      .orderBy(schema.locationHours.dayOfWeek);
+  }
+
+  async setLocationHours(locationId: number, hours: InsertLocationHours[], actor: AuditActor): Promise<LocationHours[]> {
+    // Replace the whole weekly schedule for the location in one transaction
+    return db.transaction(async (tx) => {
+      const previous = await tx.delete(schema.locationHours).where(eq(schema.locationHours.locationId, locationId)).returning();
+      const updated = hours.length === 0 ? [] : await tx
+        .insert(schema.locationHours)
+        .values(hours.map(day => ({ ...day, locationId })))
+        .returning();
+
+      const byDay = (a: LocationHours, b: LocationHours) => a.dayOfWeek - b.dayOfWeek;
+      await this.recordAudit(tx, "location", locationId, "hours_updated", actor, diffFields(
+        { hours: scheduleSnapshot(previous.sort(byDay)) },
+        { hours: scheduleSnapshot(updated.sort(byDay)) }
+      ));
+      return updated;
+    });
+  }
+
+  async getLocationClosures(locationId: number): Promise<LocationClosure[]> {
+    return db.select().from(schema.locationClosures)
+      .where(eq(schema.locationClosures.locationId, locationId))
+      .orderBy(schema.locationClosures.closureDate);
+  }
+
+  async createLocationClosure(closure: InsertLocationClosure, actor: AuditActor): Promise<LocationClosure> {
+    return db.transaction(async (tx) => {
+      const [newClosure] = await tx
+        .insert(schema.locationClosures)
+        .values(closure)
+        .returning();
+      await this.recordAudit(tx, "location", newClosure.locationId, "closure_added", actor,
+        diffFields(null, { closureDate: newClosure.closureDate, reason: newClosure.reason }));
+      return newClosure;
+    });
+  }
+
+  async deleteLocationClosure(id: number, actor: AuditActor): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(schema.locationClosures)
+        .where(eq(schema.locationClosures.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await this.recordAudit(tx, "location", deleted.locationId, "closure_removed", actor,
+        diffFields({ closureDate: deleted.closureDate, reason: deleted.reason }, null));
+      return true;
+    });
   }
 
   async getRoom(id: number): Promise<Room | undefined> {
@@ -586,6 +1580,15 @@ export class DatabaseStorage implements IStorage {
     return room || undefined;
   }
 
+  async getRoomTimeZone(roomId: number): Promise<string> {
+    const [row] = await db
+      .select({ timezone: schema.locations.timezone })
+      .from(schema.rooms)
+      .innerJoin(schema.locations, eq(schema.rooms.locationId, schema.locations.id))
+      .where(eq(schema.rooms.id, roomId));
+    return locationTimeZone(row);
+  }
+
   async getRoomsByLocation(locationId: number): Promise<Room[]> {
     return db.select().from(schema.rooms).where(eq(schema.rooms.locationId, locationId));
   }
@@ -594,21 +1597,69 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(schema.rooms);
   }
 
-  async createRoom(room: InsertRoom): Promise<Room> {
-    const [newRoom] = await db
-      .insert(schema.rooms)
-      .values(room)
-      .returning();
-    return newRoom;
+  async createRoom(room: InsertRoom, actor: AuditActor): Promise<Room> {
+    return db.transaction(async (tx) => {
+      const [newRoom] = await tx
+        .insert(schema.rooms)
+        .values(room)
+        .returning();
+      await this.recordAudit(tx, "room", newRoom.id, "created", actor, diffFields(null, newRoom));
+      return newRoom;
+    });
   }
 
-  async updateRoom(id: number, roomData: Partial<InsertRoom>): Promise<Room | undefined> {
-    const [room] = await db
-      .update(schema.rooms)
-      .set(roomData)
-      .where(eq(schema.rooms.id, id))
-      .returning();
-    return room;
+  async updateRoom(id: number, roomData: Partial<InsertRoom>, actor: AuditActor): Promise<Room | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(schema.rooms).where(eq(schema.rooms.id, id)).for("update");
+      if (!existing) return undefined;
+
+      const [room] = await tx
+        .update(schema.rooms)
+        .set(roomData)
+        .where(eq(schema.rooms.id, id))
+        .returning();
+      await this.recordAudit(tx, "room", id, "updated", actor, diffFields(existing, room));
+      return room;
+    });
+  }
+
+  async getRoomBlackouts(roomId: number): Promise<RoomBlackout[]> {
+    return db.select().from(schema.roomBlackouts)
+      .where(eq(schema.roomBlackouts.roomId, roomId))
+      .orderBy(schema.roomBlackouts.startTime);
+  }
+
+  async getRoomBlackoutsByLocation(locationId: number): Promise<RoomBlackout[]> {
+    const rows = await db.select({ blackout: schema.roomBlackouts })
+      .from(schema.roomBlackouts)
+      .innerJoin(schema.rooms, eq(schema.roomBlackouts.roomId, schema.rooms.id))
+      .where(eq(schema.rooms.locationId, locationId))
+      .orderBy(schema.roomBlackouts.startTime);
+    return rows.map(row => row.blackout);
+  }
+
+  async createRoomBlackout(blackout: InsertRoomBlackout, actor: AuditActor): Promise<RoomBlackout> {
+    return db.transaction(async (tx) => {
+      const [newBlackout] = await tx
+        .insert(schema.roomBlackouts)
+        .values(blackout)
+        .returning();
+      await this.recordAudit(tx, "room", newBlackout.roomId, "blackout_added", actor, diffFields(null, blackoutSnapshot(newBlackout)));
+      return newBlackout;
+    });
+  }
+
+  async deleteRoomBlackout(id: number, actor: AuditActor): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(schema.roomBlackouts)
+        .where(eq(schema.roomBlackouts.id, id))
+        .returning();
+      if (!deleted) return false;
+
+      await this.recordAudit(tx, "room", deleted.roomId, "blackout_removed", actor, diffFields(blackoutSnapshot(deleted), null));
+      return true;
+    });
   }
 
   async getReservation(id: number): Promise<Reservation | undefined> {
@@ -670,6 +1721,12 @@ export class DatabaseStorage implements IStorage {
     return reservations;
   }
 
+  async getReservationsBetween(from: Date, to: Date): Promise<Reservation[]> {
+    return db.select().from(schema.reservations).where(
+      and(lt(schema.reservations.startTime, to), gt(schema.reservations.endTime, from))
+    );
+  }
+
   async getReservationsByUser(userId: number): Promise<Reservation[]> {
     return db.select().from(schema.reservations).where(eq(schema.reservations.userId, userId));
   }
@@ -678,47 +1735,522 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(schema.reservations);
   }
 
-  async createReservation(reservation: InsertReservation): Promise<Reservation> {
-    // Force time parsing in Eastern Time if start/end are strings
+  async getConflictingReservations(roomId: number, startTime: Date, endTime: Date, excludeReservationId?: number): Promise<Reservation[]> {
+    return this.findConflicts(db, roomId, startTime, endTime, excludeReservationId);
+  }
+
+  // Active bookings of the room that overlap the given time or fall within its setup and cleanup buffers
+  private async findConflicts(executor: Pick<typeof db, "select">, roomId: number, startTime: Date, endTime: Date, excludeReservationId?: number): Promise<Reservation[]> {
+    const [buffers] = await executor
+      .select({ setupBufferMinutes: schema.rooms.setupBufferMinutes, cleanupBufferMinutes: schema.rooms.cleanupBufferMinutes })
+      .from(schema.rooms)
+      .where(eq(schema.rooms.id, roomId));
+    const window = conflictWindow(startTime, endTime, buffers ?? {});
+
+    return executor.select().from(schema.reservations).where(
+      and(
+        eq(schema.reservations.roomId, roomId),
+        notInArray(schema.reservations.status, releasedReservationStatuses),
+        lt(schema.reservations.startTime, window.endTime),
+        gt(schema.reservations.endTime, window.startTime),
+        excludeReservationId !== undefined ? ne(schema.reservations.id, excludeReservationId) : undefined
+      )
+    );
+  }
+
+  async createReservation(reservation: InsertReservation, actor: AuditActor, checkQuota?: QuotaCheck): Promise<Reservation> {
+    // Times given as strings without an offset are wall-clock times at the room's branch
+    const timeZone = await this.getRoomTimeZone(reservation.roomId);
     const startTime = typeof reservation.startTime === 'string'
-      ? DateTime.fromISO(reservation.startTime, { zone: 'America/New_York' }).toJSDate()
+      ? parseBranchTime(reservation.startTime, timeZone).toJSDate()
       : reservation.startTime;
 
     const endTime = typeof reservation.endTime === 'string'
-      ? DateTime.fromISO(reservation.endTime, { zone: 'America/New_York' }).toJSDate()
+      ? parseBranchTime(reservation.endTime, timeZone).toJSDate()
       : reservation.endTime;
 
-    const [newReservation] = await db
-      .insert(schema.reservations)
-      .values({
-        ...reservation,
-        startTime,
-        endTime
-      })
-      .returning();
+    try {
+      return await db.transaction(async (tx) => {
+        await this.lockAndEnforceQuota(tx, reservation.userId, checkQuota);
 
-    return newReservation;
+        // Serialize bookings per room so two concurrent requests cannot both pass the check
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(${reservation.roomId})`);
+
+        if (!releasedReservationStatuses.includes(reservation.status || "pending_payment")) {
+          const [conflict] = await this.findConflicts(tx, reservation.roomId, startTime, endTime);
+
+          if (conflict) {
+            throw new ReservationConflictError(conflict);
+          }
+        }
+
+        const [newReservation] = await tx
+          .insert(schema.reservations)
+          .values({
+            ...reservation,
+            confirmationCode: reservation.confirmationCode || generateConfirmationCode(),
+            startTime,
+            endTime
+          })
+          .returning();
+
+        await this.recordAudit(tx, "reservation", newReservation.id, "created", actor, diffFields(null, newReservation));
+        return newReservation;
+      });
+    } catch (err) {
+      throw await this.translateOverlapError(err, reservation.roomId, startTime, endTime);
+    }
+  }
+
+  async updateReservation(id: number, reservationData: Partial<InsertReservation>, actor: AuditActor, checkQuota?: QuotaCheck): Promise<Reservation | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [existing] = await tx.select().from(schema.reservations).where(eq(schema.reservations.id, id)).for("update");
+        if (!existing) return undefined;
+
+        await this.lockAndEnforceQuota(tx, reservationData.userId ?? existing.userId, checkQuota);
+
+        const [reservation] = await tx
+          .update(schema.reservations)
+          .set(reservationData)
+          .where(eq(schema.reservations.id, id))
+          .returning();
+
+        // The exclusion constraint catches plain overlaps; moves into a neighbour's buffers are checked here
+        if (isActiveReservation(reservation)) {
+          await tx.execute(sql`SELECT pg_advisory_xact_lock(${reservation.roomId})`);
+          const [conflict] = await this.findConflicts(tx, reservation.roomId, reservation.startTime, reservation.endTime, id);
+          if (conflict) {
+            throw new ReservationConflictError(conflict);
+          }
+        }
+
+        const changes = diffFields(existing, reservation);
+        await this.recordAudit(tx, "reservation", id, reservationAuditAction(changes), actor, changes);
+        return reservation;
+      });
+    } catch (err) {
+      const existing = await this.getReservation(id);
+      if (!existing) throw err;
+      throw await this.translateOverlapError(
+        err,
+        reservationData.roomId ?? existing.roomId,
+        reservationData.startTime ?? existing.startTime,
+        reservationData.endTime ?? existing.endTime,
+        id
+      );
+    }
+  }
+
+  // Serialize a patron's bookings for the rest of the transaction, then check their quota. The two-key lock
+  // can't collide with the per-room locks, and is always taken before them.
+  private async lockAndEnforceQuota(tx: Pick<typeof db, "execute">, userId: number | null | undefined, checkQuota?: QuotaCheck) {
+    if (!checkQuota || !userId) return;
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('booking_quota'), ${userId})`);
+    await enforceQuota(checkQuota);
+  }
+
+  // Map the exclusion constraint violation (SQLSTATE 23P01) onto a ReservationConflictError
+  private async translateOverlapError(err: unknown, roomId: number, startTime: Date, endTime: Date, excludeReservationId?: number): Promise<unknown> {
+    if ((err as { code?: string })?.code !== "23P01") {
+      return err;
+    }
+    const [conflict] = await this.getConflictingReservations(roomId, startTime, endTime, excludeReservationId);
+    return conflict ? new ReservationConflictError(conflict) : err;
+  }
+
+  // Append one audit entry inside the caller's transaction, so the change and its record commit together
+  private async recordAudit(executor: DbExecutor, entityType: AuditEntityType, entityId: number, action: string, actor: AuditActor, changes: AuditChanges) {
+    if (Object.keys(changes).length === 0) return;
+    await executor.insert(schema.auditLog).values({
+      entityType,
+      entityId,
+      action,
+      actorType: actor.type,
+      actorId: actor.userId ?? null,
+      actorLabel: actor.label ?? null,
+      changes
+    });
+  }
+
+  // Database-level guarantee against double booking, independent of the application check above.
+  // Only (re)created when it is missing or was built from a different releasedReservationStatuses,
+  // in one transaction so bookings are never left without it. The constraint's comment records the
+  // exact status list it was built from.
+  async ensureReservationConstraints() {
+    const releasedStatuses = sql.raw(releasedReservationStatuses.map(status => `'${status}'`).join(", "));
+    const version = `released statuses: ${releasedReservationStatuses.join(", ")}`;
+    await db.execute(sql`CREATE EXTENSION IF NOT EXISTS btree_gist`);
+
+    await db.transaction(async (tx) => {
+      // Several instances starting together take turns
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('reservations_no_overlap'), 0)`);
+
+      const { rows } = await tx.execute<{ version: string | null }>(sql`
+        SELECT obj_description(oid, 'pg_constraint') AS version FROM pg_constraint
+        WHERE conname = 'reservations_no_overlap' AND conrelid = 'reservations'::regclass
+      `);
+      if (rows[0]?.version !== version) {
+        await tx.execute(sql`ALTER TABLE reservations DROP CONSTRAINT IF EXISTS reservations_no_overlap`);
+        await tx.execute(sql`
+          ALTER TABLE reservations ADD CONSTRAINT reservations_no_overlap
+          EXCLUDE USING gist (room_id WITH =, tsrange(start_time, end_time) WITH &&)
+          WHERE (coalesce(status, 'pending_payment') NOT IN (${releasedStatuses}))
+        `);
+        await tx.execute(sql`COMMENT ON CONSTRAINT reservations_no_overlap ON reservations IS ${sql.raw(`'${version}'`)}`);
+      }
+
+      // The audit log is append-only: reject edits and deletions at the database level too
+      await tx.execute(sql`
+        CREATE OR REPLACE FUNCTION audit_log_append_only() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'audit_log is append-only';
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+      await tx.execute(sql`DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log`);
+      await tx.execute(sql`
+        CREATE TRIGGER audit_log_append_only BEFORE UPDATE OR DELETE ON audit_log
+        FOR EACH ROW EXECUTE FUNCTION audit_log_append_only()
+      `);
+    });
+  }
+
+  async cancelReservation(id: number, actor: AuditActor): Promise<Reservation | undefined> {
+    return db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(schema.reservations).where(eq(schema.reservations.id, id)).for("update");
+      if (!existing) return undefined;
+
+      // Mark reservation as canceled
+      const [reservation] = await tx
+        .update(schema.reservations)
+        .set({ status: 'cancelled' })
+        .where(eq(schema.reservations.id, id))
+        .returning();
+      await this.recordAudit(tx, "reservation", id, "cancelled", actor, diffFields(existing, reservation));
+      return reservation;
+    });
   }
 
-  async updateReservation(id: number, reservationData: Partial<InsertReservation>): Promise<Reservation | undefined> {
+  async getReservationByPaymentIntent(paymentIntentId: string): Promise<Reservation | undefined> {
     const [reservation] = await db
-      .update(schema.reservations)
-      .set(reservationData)
-      .where(eq(schema.reservations.id, id))
-      .returning();
+      .select()
+      .from(schema.reservations)
+      .where(eq(schema.reservations.stripePaymentIntentId, paymentIntentId));
     return reservation;
   }
 
-  async cancelReservation(id: number): Promise<Reservation | undefined> {
-    // Mark reservation as canceled
+  async getExpiredHolds(now: Date, legacyCreatedBefore: Date): Promise<Reservation[]> {
+    return db.select().from(schema.reservations).where(
+      and(
+        inArray(schema.reservations.status, holdStatuses),
+        or(
+          lt(schema.reservations.holdExpiresAt, now),
+          // Holds created before hold_expires_at existed fall back to their creation time
+          and(isNull(schema.reservations.holdExpiresAt), lt(schema.reservations.createdAt, legacyCreatedBefore))
+        )
+      )
+    );
+  }
+
+  async expireReservation(id: number, actor: AuditActor): Promise<Reservation | undefined> {
+    return db.transaction(async (tx) => {
+      // Lock the row first, so a payment or verification that lands at the same moment always wins
+      const [existing] = await tx
+        .select()
+        .from(schema.reservations)
+        .where(and(eq(schema.reservations.id, id), inArray(schema.reservations.status, holdStatuses)))
+        .for("update");
+      if (!existing) return undefined;
+
+      const [reservation] = await tx
+        .update(schema.reservations)
+        .set({ status: "expired", updatedAt: new Date() })
+        .where(eq(schema.reservations.id, id))
+        .returning();
+      await this.recordAudit(tx, "reservation", id, "expired", actor,
+        diffFields({ status: existing.status }, { status: reservation.status }));
+      return reservation;
+    });
+  }
+
+  async getReservationByConfirmationCode(confirmationCode: string): Promise<Reservation | undefined> {
     const [reservation] = await db
-      .update(schema.reservations)
-      .set({ status: 'cancelled' })
-      .where(eq(schema.reservations.id, id))
-      .returning();
+      .select()
+      .from(schema.reservations)
+      .where(eq(schema.reservations.confirmationCode, confirmationCode));
     return reservation;
   }
 
+  async checkInReservation(id: number, at: Date, actor: AuditActor): Promise<Reservation | undefined> {
+    return db.transaction(async (tx) => {
+      // Conditional update, so a check-in racing the no-show sweep can't revive a released booking
+      const [reservation] = await tx
+        .update(schema.reservations)
+        .set({ checkedInAt: at, updatedAt: new Date() })
+        .where(and(
+          eq(schema.reservations.id, id),
+          eq(schema.reservations.status, "confirmed"),
+          isNull(schema.reservations.checkedInAt)
+        ))
+        .returning();
+      if (reservation) {
+        await this.recordAudit(tx, "reservation", id, "checked_in", actor,
+          diffFields({ checkedInAt: null }, { checkedInAt: reservation.checkedInAt }));
+      }
+      return reservation;
+    });
+  }
+
+  async getMissedCheckIns(startedBefore: Date, now: Date): Promise<Reservation[]> {
+    return db.select().from(schema.reservations).where(
+      and(
+        eq(schema.reservations.status, "confirmed"),
+        isNull(schema.reservations.checkedInAt),
+        lte(schema.reservations.startTime, startedBefore),
+        gt(schema.reservations.endTime, now)
+      )
+    );
+  }
+
+  async markNoShow(id: number, actor: AuditActor): Promise<Reservation | undefined> {
+    return db.transaction(async (tx) => {
+      const [reservation] = await tx
+        .update(schema.reservations)
+        .set({ status: "no_show", updatedAt: new Date() })
+        .where(and(
+          eq(schema.reservations.id, id),
+          eq(schema.reservations.status, "confirmed"),
+          isNull(schema.reservations.checkedInAt)
+        ))
+        .returning();
+      if (reservation) {
+        await this.recordAudit(tx, "reservation", id, "no_show", actor,
+          diffFields({ status: "confirmed" }, { status: reservation.status }));
+      }
+      return reservation;
+    });
+  }
+
+  async getNoShowCounts(roomIds?: number[]): Promise<NoShowCount[]> {
+    if (roomIds?.length === 0) return [];
+    const rows = await db
+      .select({
+        userId: schema.reservations.userId,
+        noShowCount: sql<number>`count(*)`.mapWith(Number),
+        lastNoShowAt: sql<Date>`max(${schema.reservations.startTime})`.mapWith(schema.reservations.startTime)
+      })
+      .from(schema.reservations)
+      .where(and(
+        eq(schema.reservations.status, "no_show"),
+        isNotNull(schema.reservations.userId),
+        roomIds ? inArray(schema.reservations.roomId, roomIds) : undefined
+      ))
+      .groupBy(schema.reservations.userId)
+      .orderBy(sql`count(*) desc`);
+    return rows.map(row => ({ ...row, userId: row.userId! }));
+  }
+  async getUpcomingConfirmedReservations(from: Date, to: Date): Promise<Reservation[]> {
+    return db.select().from(schema.reservations).where(
+      and(
+        eq(schema.reservations.status, "confirmed"),
+        gte(schema.reservations.startTime, from),
+        lt(schema.reservations.startTime, to)
+      )
+    );
+  }
+
+
+  async getReservationSeries(id: number): Promise<ReservationSeries | undefined> {
+    const [series] = await db.select().from(schema.reservationSeries).where(eq(schema.reservationSeries.id, id));
+    return series;
+  }
+
+  async getReservationSeriesByUser(userId: number): Promise<ReservationSeries[]> {
+    return db.select().from(schema.reservationSeries).where(eq(schema.reservationSeries.userId, userId));
+  }
+
+  async getReservationsBySeries(seriesId: number): Promise<Reservation[]> {
+    return db
+      .select()
+      .from(schema.reservations)
+      .where(eq(schema.reservations.seriesId, seriesId))
+      .orderBy(asc(schema.reservations.startTime));
+  }
+
+  async createReservationSeries(series: InsertReservationSeries): Promise<ReservationSeries> {
+    const [newSeries] = await db
+      .insert(schema.reservationSeries)
+      .values(series)
+      .returning();
+    return newSeries;
+  }
+
+  async updateReservationSeries(id: number, seriesData: Partial<InsertReservationSeries>): Promise<ReservationSeries | undefined> {
+    const [series] = await db
+      .update(schema.reservationSeries)
+      .set({ ...seriesData, updatedAt: new Date() })
+      .where(eq(schema.reservationSeries.id, id))
+      .returning();
+    return series;
+  }
+
+  async getPricingRule(id: number): Promise<PricingRule | undefined> {
+    const [rule] = await db.select().from(schema.pricingRules).where(eq(schema.pricingRules.id, id));
+    return rule || undefined;
+  }
+
+  async getAllPricingRules(): Promise<PricingRule[]> {
+    return db.select().from(schema.pricingRules).orderBy(asc(schema.pricingRules.id));
+  }
+
+  async createPricingRule(rule: InsertPricingRule): Promise<PricingRule> {
+    const [newRule] = await db
+      .insert(schema.pricingRules)
+      .values(rule)
+      .returning();
+    return newRule;
+  }
+
+  async updatePricingRule(id: number, ruleData: Partial<InsertPricingRule>): Promise<PricingRule | undefined> {
+    const [rule] = await db
+      .update(schema.pricingRules)
+      .set({ ...ruleData, updatedAt: new Date() })
+      .where(eq(schema.pricingRules.id, id))
+      .returning();
+    return rule;
+  }
+
+  async deletePricingRule(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(schema.pricingRules)
+      .where(eq(schema.pricingRules.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getPromoCode(id: number): Promise<PromoCode | undefined> {
+    const [promoCode] = await db.select().from(schema.promoCodes).where(eq(schema.promoCodes.id, id));
+    return promoCode || undefined;
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    const [promoCode] = await db.select().from(schema.promoCodes).where(eq(schema.promoCodes.code, code.toUpperCase()));
+    return promoCode || undefined;
+  }
+
+  async getAllPromoCodes(): Promise<PromoCode[]> {
+    return db.select().from(schema.promoCodes).orderBy(asc(schema.promoCodes.code));
+  }
+
+  async createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode> {
+    const [newPromoCode] = await db
+      .insert(schema.promoCodes)
+      .values({ ...promoCode, code: promoCode.code.toUpperCase() })
+      .returning();
+    return newPromoCode;
+  }
+
+  async updatePromoCode(id: number, promoCodeData: Partial<InsertPromoCode>): Promise<PromoCode | undefined> {
+    const [promoCode] = await db
+      .update(schema.promoCodes)
+      .set(promoCodeData)
+      .where(eq(schema.promoCodes.id, id))
+      .returning();
+    return promoCode;
+  }
+
+  async deletePromoCode(id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(schema.promoCodes)
+      .where(eq(schema.promoCodes.id, id))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async redeemPromoCode(id: number): Promise<boolean> {
+    // Checked and incremented in one statement so concurrent checkouts can't exceed the limit
+    const redeemed = await db
+      .update(schema.promoCodes)
+      .set({ timesUsed: sql`${schema.promoCodes.timesUsed} + 1` })
+      .where(and(
+        eq(schema.promoCodes.id, id),
+        or(isNull(schema.promoCodes.maxUses), lt(schema.promoCodes.timesUsed, schema.promoCodes.maxUses))
+      ))
+      .returning();
+    return redeemed.length > 0;
+  }
+
+  async releasePromoCode(id: number): Promise<void> {
+    await db
+      .update(schema.promoCodes)
+      .set({ timesUsed: sql`greatest(${schema.promoCodes.timesUsed} - 1, 0)` })
+      .where(eq(schema.promoCodes.id, id));
+  }
+
+  async enqueueEmail(email: InsertOutboxEmail): Promise<OutboxEmail | undefined> {
+    // The unique dedupe key stops two requests queueing the same notification
+    const [queued] = await db
+      .insert(schema.emailOutbox)
+      .values(email)
+      .onConflictDoNothing({ target: schema.emailOutbox.dedupeKey })
+      .returning();
+    return queued;
+  }
+
+  async getDueEmails(now: Date, limit: number): Promise<OutboxEmail[]> {
+    return db.select().from(schema.emailOutbox)
+      .where(and(eq(schema.emailOutbox.status, "pending"), lte(schema.emailOutbox.nextAttemptAt, now)))
+      .orderBy(asc(schema.emailOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async markEmailSent(id: number, at: Date): Promise<void> {
+    await db
+      .update(schema.emailOutbox)
+      .set({ status: "sent", sentAt: at, lastError: null, attempts: sql`${schema.emailOutbox.attempts} + 1` })
+      .where(eq(schema.emailOutbox.id, id));
+  }
+
+  async markEmailFailed(id: number, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(schema.emailOutbox)
+      .set({
+        status: nextAttemptAt ? "pending" : "failed",
+        lastError: error,
+        nextAttemptAt,
+        attempts: sql`${schema.emailOutbox.attempts} + 1`
+      })
+      .where(eq(schema.emailOutbox.id, id));
+  }
+
+  async claimStripeEvent(eventId: string, type: string): Promise<boolean> {
+    // The primary key makes concurrent deliveries of the same event race safely
+    const inserted = await db
+      .insert(schema.stripeEvents)
+      .values({ id: eventId, type })
+      .onConflictDoNothing()
+      .returning();
+    return inserted.length > 0;
+  }
+
+  async releaseStripeEvent(eventId: string): Promise<void> {
+    await db.delete(schema.stripeEvents).where(eq(schema.stripeEvents.id, eventId));
+  }
+
+  async getAuditLog(entityType: AuditEntityType, entityId: number): Promise<AuditLogEntry[]> {
+    return db.select().from(schema.auditLog)
+      .where(and(eq(schema.auditLog.entityType, entityType), eq(schema.auditLog.entityId, entityId)))
+      .orderBy(asc(schema.auditLog.createdAt), asc(schema.auditLog.id));
+  }
+
+  async getRecentAuditLog(limit: number, entityType?: AuditEntityType): Promise<AuditLogEntry[]> {
+    return db.select().from(schema.auditLog)
+      .where(entityType ? eq(schema.auditLog.entityType, entityType) : undefined)
+      .orderBy(desc(schema.auditLog.createdAt), desc(schema.auditLog.id))
+      .limit(limit);
+  }
+
   // Initialize sample data for rooms and locations - but only if they don't exist
   async initializeSampleData() {
     // Check if we have any rooms
@@ -736,7 +2268,7 @@ export class DatabaseStorage implements IStorage {
       password: "$2b$10$ccQJwNDq7s.tZRjL4Owpe.481dWkVfnB2zIWENEAjLNsDRuNwUlTm", // "admin123"
       name: "Administrator",
       email: "admin@library.org",
-      isAdmin: true,
+      role: "system_admin",
       createdAt: new Date()
     };
     await this.createUser(adminUser);
@@ -747,7 +2279,6 @@ export class DatabaseStorage implements IStorage {
       password: "$2b$10$ybYRDq/CTx9lEz4JN1t.w.QKgg8zsgxfzCFZ9FCIlV0yUKN0s0YN6", // "user123"
       name: "Regular User",
       email: "user@example.com",
-      isAdmin: false,
       createdAt: new Date()
     };
     await this.createUser(regularUser);
@@ -762,7 +2293,7 @@ export class DatabaseStorage implements IStorage {
       phoneNumber: "704-555-0123",
       description: "The South Boulevard Branch is a state-of-the-art facility offering quiet study spaces, meeting rooms, and advanced technology resources."
     };
-    const createdSouthLocation = await this.createLocation(southLocation);
+    const createdSouthLocation = await this.createLocation(southLocation, sampleDataActor);
 
     const universityLocation: InsertLocation = {
       name: "University Branch",
@@ -773,7 +2304,7 @@ export class DatabaseStorage implements IStorage {
       phoneNumber: "704-555-0456",
       description: "Located near UNC Charlotte, this branch specializes in academic resources and study environments for university students and faculty."
     };
-    const createdUniversityLocation = await this.createLocation(universityLocation);
+    const createdUniversityLocation = await this.createLocation(universityLocation, sampleDataActor);
 
     // Create rooms for South Boulevard
     await this.createRoom({
@@ -783,8 +2314,9 @@ export class DatabaseStorage implements IStorage {
       locationId: createdSouthLocation.id,
       features: ["Whiteboard", "TV with HDMI", "Conference Phone", "WiFi"],
       floor: 2,
-      roomNumber: "201"
-    });
+      roomNumber: "201",
+      roomType: "group"
+    }, sampleDataActor);
 
     await this.createRoom({
       name: "Study Room 1",
@@ -794,7 +2326,7 @@ export class DatabaseStorage implements IStorage {
       features: ["Whiteboard", "WiFi", "Standing Desk"],
       floor: 1,
       roomNumber: "101"
-    });
+    }, sampleDataActor);
 
     await this.createRoom({
       name: "Study Room 2",
@@ -804,7 +2336,7 @@ export class DatabaseStorage implements IStorage {
       features: ["Whiteboard", "WiFi", "Power Outlets"],
       floor: 1,
       roomNumber: "102"
-    });
+    }, sampleDataActor);
 
     await this.createRoom({
       name: "Study Room 3",
@@ -814,7 +2346,7 @@ export class DatabaseStorage implements IStorage {
       features: ["Small Desk", "WiFi", "Quiet Area"],
       floor: 1,
       roomNumber: "103"
-    });
+    }, sampleDataActor);
 
     await this.createRoom({
       name: "Study Room 4",
@@ -824,7 +2356,7 @@ export class DatabaseStorage implements IStorage {
       features: ["Small Desk", "WiFi", "Quiet Area"],
       floor: 1,
       roomNumber: "104"
-    });
+    }, sampleDataActor);
 
     await this.createRoom({
       name: "Study Room 5",
@@ -834,7 +2366,7 @@ export class DatabaseStorage implements IStorage {
       features: ["Small Desk", "WiFi", "Quiet Area", "Window View"],
       floor: 1,
       roomNumber: "105"
-    });
+    }, sampleDataActor);
 
     // Create rooms for University Branch
     await this.createRoom({
@@ -844,8 +2376,9 @@ export class DatabaseStorage implements IStorage {
       locationId: createdUniversityLocation.id,
       features: ["Multiple Whiteboards", "Projector", "Movable Furniture", "WiFi", "Video Conference"],
       floor: 2,
-      roomNumber: "201"
-    });
+      roomNumber: "201",
+      roomType: "group"
+    }, sampleDataActor);
 
     await this.createRoom({
       name: "Quiet Study Room 1",
@@ -855,7 +2388,7 @@ export class DatabaseStorage implements IStorage {
       features: ["Soundproof", "Dimmable Lighting", "WiFi", "Power Outlets"],
       floor: 3,
       roomNumber: "301"
-    });
+    }, sampleDataActor);
 
     await this.createRoom({
       name: "Quiet Study Room 2",
@@ -865,7 +2398,7 @@ export class DatabaseStorage implements IStorage {
       features: ["Soundproof", "Dimmable Lighting", "WiFi", "Power Outlets"],
       floor: 3,
       roomNumber: "302"
-    });
+    }, sampleDataActor);
 
     console.log("Sample data initialization complete");
   }
@@ -874,7 +2407,17 @@ export class DatabaseStorage implements IStorage {
 // Use DatabaseStorage instead of MemStorage
 export const storage = new DatabaseStorage();
 
-// Initialize sample data
-storage.initializeSampleData().catch(err => {
-  console.error("Error initializing sample data:", err);
-});
+// Get the database ready before serving. The double-booking exclusion constraint goes in first and
+// startup fails without it; sample data and account migrations only log their errors.
+export async function prepareStorage() {
+  await storage.ensureReservationConstraints();
+
+  await storage.initializeSampleData().catch(err => {
+    console.error("Error initializing sample data:", err);
+  });
+
+  // Give accounts from before branch roles their system admin role
+  await storage.migrateLegacyAdmins().catch(err => {
+    console.error("Error migrating legacy admin accounts:", err);
+  });
+}
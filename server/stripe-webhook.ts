@@ -0,0 +1,206 @@
+import type Stripe from "stripe";
+import type { Reservation } from "@shared/schema";
+import type { AuditActor } from "@shared/audit";
+import type { IStorage } from "./storage";
+import { ReservationConflictError } from "./errors";
+import type { EmailTemplate } from "./email-templates";
+
+// Storage operations the webhook needs; kept narrow so the handler can be exercised with a fake store
+export type WebhookStorage = Pick<
+  IStorage,
+  "getReservationByPaymentIntent" | "updateReservation" | "claimStripeEvent" | "releaseStripeEvent"
+>;
+
+// Stripe calls the webhook makes itself: refunding payments for bookings that can't keep their room
+export type WebhookPayments = Pick<Stripe, "refunds">;
+
+// Result of handling one event, including what (if anything) to broadcast to WebSocket clients
+// and which email to send the patron
+export interface WebhookOutcome {
+  duplicate: boolean;
+  reservation?: Reservation;
+  broadcastType?: "updated_reservation" | "cancelled_reservation";
+  notification?: { template: EmailTemplate; refundInCents?: number; dedupeKey?: string };
+}
+
+// Thrown when a request to the webhook endpoint is not a genuine, untampered Stripe event
+export class WebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookSignatureError";
+  }
+}
+
+// Verify the Stripe-Signature header against the raw (unparsed) request body
+export function verifyStripeEvent(
+  stripe: Stripe,
+  rawBody: Buffer | string,
+  signature: string | string[] | undefined,
+  secret: string
+): Stripe.Event {
+  if (!signature || Array.isArray(signature)) {
+    throw new WebhookSignatureError("Missing Stripe-Signature header");
+  }
+
+  try {
+    return stripe.webhooks.constructEvent(rawBody, signature, secret);
+  } catch (err) {
+    throw new WebhookSignatureError(err instanceof Error ? err.message : "Invalid signature");
+  }
+}
+
+// Handle a verified event exactly once. If handling fails the claim is released so Stripe's retry is processed.
+export async function processStripeEvent(
+  event: Stripe.Event,
+  store: WebhookStorage,
+  payments: WebhookPayments
+): Promise<WebhookOutcome> {
+  if (!(await store.claimStripeEvent(event.id, event.type))) {
+    return { duplicate: true };
+  }
+
+  try {
+    return { duplicate: false, ...(await applyStripeEvent(event, store, payments)) };
+  } catch (err) {
+    await store.releaseStripeEvent(event.id);
+    throw err;
+  }
+}
+
+async function applyStripeEvent(
+  event: Stripe.Event,
+  store: WebhookStorage,
+  payments: WebhookPayments
+): Promise<Omit<WebhookOutcome, "duplicate">> {
+  // Changes are attributed to the event that caused them
+  const actor: AuditActor = { type: "stripe_webhook", label: event.id };
+
+  switch (event.type) {
+    case "payment_intent.succeeded":
+      return handlePaymentSucceeded(event.data.object, store, payments, actor);
+
+    case "payment_intent.payment_failed": {
+      // The patron can retry with another card on the same PaymentIntent, so the hold is kept
+      // until it expires; only the payment status changes
+      const reservation = await store.getReservationByPaymentIntent(event.data.object.id);
+      if (!reservation || reservation.paymentStatus === "completed") return {};
+      return {
+        reservation: await store.updateReservation(reservation.id, { paymentStatus: "failed" }, actor),
+        broadcastType: "updated_reservation",
+        // Once per PaymentIntent, however many cards the patron tries
+        notification: { template: "payment_failed", dedupeKey: `payment_failed:${reservation.id}:${event.data.object.id}` }
+      };
+    }
+
+    case "payment_intent.canceled": {
+      // Cancelled outside the normal flow (e.g. from the Stripe dashboard): release the room
+      const reservation = await store.getReservationByPaymentIntent(event.data.object.id);
+      if (!reservation || reservation.status !== "pending_payment") return {};
+      return {
+        reservation: await store.updateReservation(reservation.id, { status: "payment_failed", paymentStatus: "failed" }, actor),
+        broadcastType: "cancelled_reservation",
+        notification: { template: "booking_cancelled" }
+      };
+    }
+
+    case "charge.refunded":
+      return handleChargeRefunded(event.data.object, store, actor);
+
+    default:
+      // Other event types are acknowledged so Stripe stops retrying them
+      return {};
+  }
+}
+
+// Give back in full a payment for a booking that no longer has its room. The charge.refunded event that
+// follows finds the booking already refunded.
+async function refundLatePayment(
+  intent: Stripe.PaymentIntent,
+  reservation: Reservation,
+  store: WebhookStorage,
+  payments: WebhookPayments,
+  actor: AuditActor
+) {
+  const refund = await payments.refunds.create(
+    { payment_intent: intent.id, metadata: { reservationId: reservation.id.toString(), refundReason: "late_payment" } },
+    // The same event delivered again must not refund twice
+    { idempotencyKey: `reservation-${reservation.id}-late-payment-refund-${intent.id}` }
+  );
+
+  return {
+    reservation: await store.updateReservation(reservation.id, {
+      paymentStatus: "refunded",
+      refundAmountInCents: refund.amount,
+      stripeRefundId: refund.id,
+      refundedAt: new Date()
+    }, actor),
+    broadcastType: "updated_reservation" as const,
+    notification: { template: "refund_issued" as const, refundInCents: refund.amount }
+  };
+}
+
+// Confirm the booking a PaymentIntent paid for. Also used by the hold sweep for payments whose webhook never arrived.
+export async function handlePaymentSucceeded(
+  intent: Stripe.PaymentIntent,
+  store: WebhookStorage,
+  payments: WebhookPayments,
+  actor: AuditActor
+) {
+  // Only the reservation's current PaymentIntent counts; superseded intents are never attached
+  const reservation = await store.getReservationByPaymentIntent(intent.id);
+  if (!reservation || (reservation.status === "confirmed" && reservation.paymentStatus === "completed")) {
+    return {};
+  }
+
+  // Cancelled or expired bookings keep their status and the payment is refunded
+  if (reservation.status === "cancelled" || reservation.status === "expired") {
+    console.warn(`Payment ${intent.id} succeeded for ${reservation.status} reservation #${reservation.id}; refunding it`);
+    return refundLatePayment(intent, reservation, store, payments, actor);
+  }
+
+  try {
+    return {
+      reservation: await store.updateReservation(reservation.id, { status: "confirmed", paymentStatus: "completed" }, actor),
+      broadcastType: "updated_reservation" as const,
+      notification: { template: "booking_confirmed" as const }
+    };
+  } catch (err) {
+    // A payment_failed hold gave up the room and someone else has booked it since
+    if (err instanceof ReservationConflictError) {
+      console.warn(`Payment ${intent.id} succeeded but reservation #${reservation.id} lost its slot; refunding it`);
+      return refundLatePayment(intent, reservation, store, payments, actor);
+    }
+    throw err;
+  }
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge, store: WebhookStorage, actor: AuditActor) {
+  const paymentIntentId = typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+  if (!paymentIntentId) return {};
+
+  const reservation = await store.getReservationByPaymentIntent(paymentIntentId);
+  if (!reservation) return {};
+
+  // Keyed by the total refunded so far, so a refund we issued when cancelling isn't announced twice
+  const notification = { template: "refund_issued" as const, refundInCents: charge.amount_refunded };
+
+  // A partial refund leaves the booking in place
+  if (!charge.refunded) {
+    return {
+      reservation: await store.updateReservation(reservation.id, { paymentStatus: "partially_refunded" }, actor),
+      broadcastType: "updated_reservation" as const,
+      notification
+    };
+  }
+
+  // A full refund (e.g. issued from the dashboard) also cancels a booking that is still active
+  const cancel = reservation.status === "confirmed" || reservation.status === "pending_payment";
+  return {
+    reservation: await store.updateReservation(reservation.id, {
+      paymentStatus: "refunded",
+      ...(cancel && { status: "cancelled" })
+    }, actor),
+    broadcastType: cancel ? "cancelled_reservation" as const : "updated_reservation" as const,
+    notification
+  };
+}
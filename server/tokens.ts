@@ -0,0 +1,18 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+// Single-use secrets sent in emailed links (guest booking confirmation, password reset, email
+// verification). Only a hash is stored, so a leaked database row can't be turned into a working link.
+
+export const hashVerificationToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export function createVerificationToken(): { token: string; hash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, hash: hashVerificationToken(token) };
+}
+
+export function verificationTokenMatches(token: string, hash: string | null): boolean {
+  if (!hash) return false;
+  const supplied = Buffer.from(hashVerificationToken(token), "hex");
+  const stored = Buffer.from(hash, "hex");
+  return supplied.length === stored.length && timingSafeEqual(supplied, stored);
+}
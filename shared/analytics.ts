@@ -0,0 +1,283 @@
+import { DateTime } from "luxon";
+import { releasedReservationStatuses, type LocationClosure, type Reservation, type Room } from "./schema";
+import { getOpeningWindow, type WeeklyHours } from "./opening-hours";
+
+// Reservation fields the reports read
+export type AnalyticsReservation = Pick<
+  Reservation,
+  "roomId" | "startTime" | "endTime" | "status" | "paymentStatus" | "priceInCents" | "refundAmountInCents"
+>;
+
+export type AnalyticsRoom = Pick<Room, "id" | "name" | "locationId">;
+
+// Opening hours of one branch, used as the denominator of its occupancy rate
+export interface LocationSchedule {
+  locationId: number;
+  hours: WeeklyHours[];
+  closures: Pick<LocationClosure, "closureDate">[];
+}
+
+// Inclusive range of local dates, yyyy-MM-dd
+export interface AnalyticsRange {
+  from: string;
+  to: string;
+}
+
+// Booked hours against opening hours; the rate is null when the room was never open
+export interface Occupancy {
+  bookedHours: number;
+  openHours: number;
+  occupancyRate: number | null;
+}
+
+export interface OccupancyBreakdown extends Occupancy {
+  byDay: (Occupancy & { date: string })[];
+  byHour: (Occupancy & { hour: number })[];
+}
+
+export interface OccupancyReport {
+  rooms: (OccupancyBreakdown & { roomId: number; roomName: string; locationId: number })[];
+  locations: (OccupancyBreakdown & { locationId: number })[];
+}
+
+export interface RevenueByStatus {
+  paymentStatus: string;
+  reservationCount: number;
+  grossInCents: number;
+  refundedInCents: number;
+  netInCents: number;
+}
+
+export interface CancellationStats {
+  totalReservations: number; // Bookings that were made, i.e. not abandoned at checkout
+  cancelled: number;
+  cancellationRate: number | null;
+  attended: number; // Past confirmed bookings
+  noShows: number;
+  noShowRate: number | null; // No-shows out of past bookings that were expected to turn up
+}
+
+export interface HeatmapCell {
+  dayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  hour: number;
+  bookedHours: number;
+  reservationCount: number; // Bookings running at some point during the hour
+}
+
+// Statuses of bookings that were never actually made (the patron didn't pay)
+const abandonedStatuses = ["expired", "payment_failed"];
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const rate = (part: number, whole: number) => (whole > 0 ? round(part / whole, 4) : null);
+
+const occupancy = (bookedMinutes: number, openMinutes: number): Occupancy => ({
+  bookedHours: round(bookedMinutes / 60),
+  openHours: round(openMinutes / 60),
+  occupancyRate: rate(bookedMinutes, openMinutes)
+});
+
+// Every local date in the range
+export function datesInRange(range: AnalyticsRange): string[] {
+  const dates: string[] = [];
+  const last = DateTime.fromISO(range.to);
+  for (let day = DateTime.fromISO(range.from); day <= last; day = day.plus({ days: 1 })) {
+    dates.push(day.toISODate()!);
+  }
+  return dates;
+}
+
+// Reservations starting within the range, in the given zone
+export function reservationsInRange<T extends AnalyticsReservation>(reservations: T[], range: AnalyticsRange, timeZone: string): T[] {
+  return reservations.filter(reservation => {
+    const date = DateTime.fromJSDate(reservation.startTime).setZone(timeZone).toISODate()!;
+    return date >= range.from && date <= range.to;
+  });
+}
+
+// Minutes of [start, end) falling in each local hour, keyed by "yyyy-MM-dd|hour"
+function minutesByHour(startTime: Date, endTime: Date, timeZone: string): Map<string, number> {
+  const minutes = new Map<string, number>();
+  const end = DateTime.fromJSDate(endTime).setZone(timeZone);
+  let cursor = DateTime.fromJSDate(startTime).setZone(timeZone);
+
+  while (cursor < end) {
+    const nextHour = cursor.startOf("hour").plus({ hours: 1 });
+    const sliceEnd = nextHour < end ? nextHour : end;
+    const key = `${cursor.toISODate()}|${cursor.hour}`;
+    minutes.set(key, (minutes.get(key) ?? 0) + sliceEnd.diff(cursor, "minutes").minutes);
+    cursor = sliceEnd;
+  }
+
+  return minutes;
+}
+
+// Open minutes in each hour of the day, for a branch on one date
+function openMinutesByHour(schedule: LocationSchedule | undefined, date: string): number[] {
+  const open = new Array(24).fill(0);
+  const window = getOpeningWindow(schedule?.hours ?? [], schedule?.closures ?? [], date, DateTime.fromISO(date).weekday % 7);
+  if (!window) return open;
+
+  for (let hour = 0; hour < 24; hour++) {
+    const overlap = Math.min(window.closeMinutes, (hour + 1) * 60) - Math.max(window.openMinutes, hour * 60);
+    open[hour] = Math.max(0, overlap);
+  }
+  return open;
+}
+
+// Booked and open minutes for each date, one entry per hour of the day
+interface OccupancyGrid {
+  booked: Map<string, number[]>;
+  open: Map<string, number[]>;
+}
+
+const emptyGrid = (dates: string[]): OccupancyGrid => ({
+  booked: new Map(dates.map(date => [date, new Array(24).fill(0)])),
+  open: new Map(dates.map(date => [date, new Array(24).fill(0)]))
+});
+
+// Add `source` into `target`, e.g. to roll rooms up into their branch
+function addGrid(target: OccupancyGrid, source: OccupancyGrid) {
+  source.booked.forEach((minutes, date) => {
+    minutes.forEach((value, hour) => { target.booked.get(date)![hour] += value; });
+  });
+  source.open.forEach((minutes, date) => {
+    minutes.forEach((value, hour) => { target.open.get(date)![hour] += value; });
+  });
+}
+
+// Totals for the whole range, each day, and each hour of the day
+function breakdown(grid: OccupancyGrid, dates: string[]): OccupancyBreakdown {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  const bookedOn = (date: string) => grid.booked.get(date)!;
+  const openOn = (date: string) => grid.open.get(date)!;
+
+  const byDay = dates.map(date => ({ date, ...occupancy(sum(bookedOn(date)), sum(openOn(date))) }));
+  const byHour = Array.from({ length: 24 }, (_, hour) => ({
+    hour,
+    ...occupancy(sum(dates.map(date => bookedOn(date)[hour])), sum(dates.map(date => openOn(date)[hour])))
+  })).filter(row => row.openHours > 0 || row.bookedHours > 0);
+
+  return {
+    ...occupancy(sum(dates.map(date => sum(bookedOn(date)))), sum(dates.map(date => sum(openOn(date))))),
+    byDay,
+    byHour
+  };
+}
+
+// Occupancy of each room and branch per day and per hour of the day. Only bookings that held
+// their room count; the rate is measured against the branch's opening hours.
+export function occupancyReport(
+  reservations: AnalyticsReservation[],
+  rooms: AnalyticsRoom[],
+  schedules: LocationSchedule[],
+  range: AnalyticsRange,
+  timeZone: string
+): OccupancyReport {
+  const dates = datesInRange(range);
+  const grids = new Map<number, OccupancyGrid>();
+
+  for (const room of rooms) {
+    const grid = emptyGrid(dates);
+    const schedule = schedules.find(s => s.locationId === room.locationId);
+    for (const date of dates) {
+      grid.open.set(date, openMinutesByHour(schedule, date));
+    }
+    grids.set(room.id, grid);
+  }
+
+  for (const reservation of reservationsInRange(reservations, range, timeZone)) {
+    const grid = grids.get(reservation.roomId);
+    if (!grid || releasedReservationStatuses.includes(reservation.status || "")) continue;
+
+    minutesByHour(reservation.startTime, reservation.endTime, timeZone).forEach((minutes, key) => {
+      const [date, hour] = key.split("|");
+      const booked = grid.booked.get(date);
+      if (booked) booked[Number(hour)] += minutes;
+    });
+  }
+
+  const locationGrids = new Map<number, OccupancyGrid>();
+  for (const room of rooms) {
+    if (!locationGrids.has(room.locationId)) {
+      locationGrids.set(room.locationId, emptyGrid(dates));
+    }
+    addGrid(locationGrids.get(room.locationId)!, grids.get(room.id)!);
+  }
+
+  return {
+    rooms: rooms.map(room => ({
+      roomId: room.id,
+      roomName: room.name,
+      locationId: room.locationId,
+      ...breakdown(grids.get(room.id)!, dates)
+    })),
+    locations: Array.from(locationGrids.entries()).map(([locationId, grid]) => ({
+      locationId,
+      ...breakdown(grid, dates)
+    }))
+  };
+}
+
+// Amounts charged per payment status. Refunds are taken off the net amount.
+export function revenueByPaymentStatus(reservations: AnalyticsReservation[]): RevenueByStatus[] {
+  const totals = new Map<string, RevenueByStatus>();
+
+  for (const reservation of reservations) {
+    const paymentStatus = reservation.paymentStatus || "pending";
+    const row = totals.get(paymentStatus) ?? {
+      paymentStatus,
+      reservationCount: 0,
+      grossInCents: 0,
+      refundedInCents: 0,
+      netInCents: 0
+    };
+    const gross = reservation.priceInCents ?? 0;
+    const refunded = reservation.refundAmountInCents ?? 0;
+    row.reservationCount += 1;
+    row.grossInCents += gross;
+    row.refundedInCents += refunded;
+    row.netInCents += gross - refunded;
+    totals.set(paymentStatus, row);
+  }
+
+  return Array.from(totals.values()).sort((a, b) => b.grossInCents - a.grossInCents);
+}
+
+// Share of bookings cancelled, and of past bookings nobody turned up for
+export function cancellationStats(reservations: AnalyticsReservation[], now: Date): CancellationStats {
+  const made = reservations.filter(reservation => !abandonedStatuses.includes(reservation.status || ""));
+  const cancelled = made.filter(reservation => reservation.status === "cancelled").length;
+  const noShows = made.filter(reservation => reservation.status === "no_show").length;
+  const attended = made.filter(reservation => reservation.status === "confirmed" && reservation.startTime <= now).length;
+
+  return {
+    totalReservations: made.length,
+    cancelled,
+    cancellationRate: rate(cancelled, made.length),
+    attended,
+    noShows,
+    noShowRate: rate(noShows, attended + noShows)
+  };
+}
+
+// Booked hours for each day of the week and hour of the day, to show when rooms are busiest
+export function peakHourHeatmap(reservations: AnalyticsReservation[], timeZone: string): HeatmapCell[] {
+  const cells = new Map<string, HeatmapCell>();
+
+  for (const reservation of reservations) {
+    if (releasedReservationStatuses.includes(reservation.status || "")) continue;
+
+    minutesByHour(reservation.startTime, reservation.endTime, timeZone).forEach((minutes, key) => {
+      const [date, hour] = key.split("|");
+      const dayOfWeek = DateTime.fromISO(date).weekday % 7;
+      const cellKey = `${dayOfWeek}|${hour}`;
+      const cell = cells.get(cellKey) ?? { dayOfWeek, hour: Number(hour), bookedHours: 0, reservationCount: 0 };
+      cell.bookedHours = round(cell.bookedHours + minutes / 60);
+      cell.reservationCount += 1;
+      cells.set(cellKey, cell);
+    });
+  }
+
+  return Array.from(cells.values()).sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.hour - b.hour);
+}
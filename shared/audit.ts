@@ -0,0 +1,61 @@
+// Who made a change: a patron, a guest without an account, a member of staff, a background job or a Stripe webhook delivery
+export type AuditActorType = "user" | "guest" | "admin" | "system" | "stripe_webhook";
+
+export interface AuditActor {
+  type: AuditActorType;
+  userId?: number | null;
+  label?: string | null; // Job name for system changes, Stripe event ID for webhooks, email address for guests
+}
+
+export const auditEntityTypes = ["reservation", "room", "location"] as const;
+export type AuditEntityType = typeof auditEntityTypes[number];
+
+// Field-by-field before/after values; dates are stored as ISO strings
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Bookkeeping columns that change on every write and would only add noise, and secrets that must not be copied around
+const ignoredFields = ["updatedAt", "guestVerificationTokenHash"];
+
+const comparable = (value: unknown) => (value instanceof Date ? value.toISOString() : value ?? null);
+
+// Fields that differ between two versions of a row. `before` is null for a new row, `after` for a deleted one.
+export function diffFields(before: object | null, after: object | null): AuditChanges {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const changes: AuditChanges = {};
+
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]));
+  for (const field of fields) {
+    if (ignoredFields.includes(field)) continue;
+    const from = comparable(previous[field]);
+    const to = comparable(next[field]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+// Name a reservation change after the status it moved to, e.g. "cancelled" or "confirmed"
+export function reservationAuditAction(changes: AuditChanges): string {
+  const status = changes.status?.to;
+  return typeof status === "string" ? status : "updated";
+}
+
+// e.g. "Patron #12", "Guest (sam@example.com)", "Staff #1", "System (hold-expiry)", "Stripe webhook (evt_123)"
+export function describeAuditActor(actor: { actorType: string; actorId: number | null; actorLabel: string | null }): string {
+  const suffix = actor.actorLabel ? ` (${actor.actorLabel})` : "";
+  switch (actor.actorType) {
+    case "user":
+      return `Patron #${actor.actorId}${suffix}`;
+    case "guest":
+      return `Guest${suffix}`;
+    case "admin":
+      return `Staff #${actor.actorId}${suffix}`;
+    case "stripe_webhook":
+      return `Stripe webhook${suffix}`;
+    default:
+      return `System${suffix}`;
+  }
+}
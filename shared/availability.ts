@@ -0,0 +1,173 @@
+import { DateTime } from "luxon";
+import { getOpeningWindow, getWeeklyHourRange, type OpeningWindow, type WeeklyHours } from "./opening-hours";
+import type { LocationClosure, Room } from "./schema";
+import type { BlackoutPeriod } from "./blackouts";
+
+// Length of a bookable slot, in minutes, unless the branch or room sets another
+export const SLOT_MINUTES = 60;
+
+// Slot lengths a branch or room can use; each divides an hour so slots line up with the grid's hour columns
+export const SLOT_LENGTHS = [15, 30, 60] as const;
+
+export const isSlotLength = (minutes: number) => (SLOT_LENGTHS as readonly number[]).includes(minutes);
+
+// A room's own slot length, or its branch's
+export const roomSlotMinutes = (
+  room: { slotMinutes?: number | null },
+  location?: { slotMinutes?: number | null } | null
+) => room.slotMinutes || location?.slotMinutes || SLOT_MINUTES;
+
+// Longest setup or cleanup time a room can keep free around its bookings
+export const MAX_BUFFER_MINUTES = 120;
+
+// Turnaround time a room keeps free before and after each booking; never billed
+export interface RoomBuffers {
+  setupBufferMinutes?: number | null;
+  cleanupBufferMinutes?: number | null;
+}
+
+// Existing bookings of the room that overlap this window clash with a booking from startTime to endTime,
+// because one's cleanup or setup would run into the other
+export function conflictWindow(startTime: Date, endTime: Date, buffers: RoomBuffers): { startTime: Date; endTime: Date } {
+  const turnaroundMs = ((buffers.setupBufferMinutes ?? 0) + (buffers.cleanupBufferMinutes ?? 0)) * 60_000;
+  return {
+    startTime: new Date(startTime.getTime() - turnaroundMs),
+    endTime: new Date(endTime.getTime() + turnaroundMs)
+  };
+}
+
+// "buffer" cells are free of bookings but can't be booked, as a booking there would cut into the
+// setup or cleanup time around a neighbouring one; "blackout" cells fall in a maintenance block
+export type SlotStatus = "free" | "busy" | "buffer" | "blackout" | "closed";
+
+// A span of time a room can't be booked, such as an active reservation
+export interface BusyPeriod {
+  roomId: number;
+  startTime: Date;
+  endTime: Date;
+}
+
+// One cell of the booking grid
+export interface AvailabilitySlot {
+  startMinutes: number; // after midnight at the branch
+  startTime: string; // ISO with the branch's UTC offset
+  endTime: string;
+  status: SlotStatus;
+  reason?: string; // why a blackout cell is unavailable
+}
+
+export interface RoomSlots {
+  roomId: number;
+  slotMinutes: number;
+  slots: AvailabilitySlot[];
+}
+
+// Body of GET /api/availability
+export interface BranchAvailability {
+  date: string;
+  locationId: number;
+  timeZone: string;
+  slotMinutes: number; // the branch's slot length; rooms may use a shorter one
+  openingHours: { open: string; close: string } | null;
+  rooms: (Room & { slotMinutes: number; slots: AvailabilitySlot[] })[];
+}
+
+export interface DayAvailabilityInput {
+  date: string; // yyyy-MM-dd at the branch
+  timeZone: string;
+  hours: WeeklyHours[];
+  closures: Pick<LocationClosure, "closureDate">[];
+  rooms: ({ roomId: number; slotMinutes?: number } & RoomBuffers)[];
+  busy: BusyPeriod[];
+  blackouts?: BlackoutPeriod[];
+}
+
+export interface DayAvailability {
+  window: OpeningWindow | null; // null when the branch is closed all day
+  rooms: RoomSlots[];
+}
+
+// The instant a wall-clock time (minutes after midnight, up to 24:00) falls at on a date at the branch
+export function branchMinutesToDateTime(date: string, minutes: number, timeZone: string): DateTime {
+  const day = DateTime.fromISO(date, { zone: timeZone }).startOf("day");
+  return minutes >= 24 * 60
+    ? day.plus({ days: 1 })
+    : day.set({ hour: Math.floor(minutes / 60), minute: minutes % 60 });
+}
+
+// Start of every cell from the week's earliest opening to its latest closing,
+// so the grid keeps the same columns from one day to the next
+export function slotStarts(hours: WeeklyHours[], slotMinutes = SLOT_MINUTES): number[] {
+  const range = getWeeklyHourRange(hours);
+  if (range.length === 0) {
+    return [];
+  }
+
+  const endMinutes = (range[range.length - 1] + 1) * 60;
+  const starts: number[] = [];
+  for (let minutes = range[0] * 60; minutes + slotMinutes <= endMinutes; minutes += slotMinutes) {
+    starts.push(minutes);
+  }
+  return starts;
+}
+
+// Free, busy, buffer, blackout and closed cells for each room on a day, in the room's slot length. Cells outside
+// opening hours (or on a closure date) are closed and open cells in one of the room's blackouts are blackout.
+// Other cells that overlap one of the room's busy periods are busy, and those within its setup and cleanup
+// turnaround are buffer.
+export function computeDayAvailability(input: DayAvailabilityInput): DayAvailability {
+  const dayOfWeek = DateTime.fromISO(input.date).weekday % 7;
+  const window = getOpeningWindow(input.hours, input.closures, input.date, dayOfWeek);
+
+  const cellsOf = (slotMinutes: number) => slotStarts(input.hours, slotMinutes).map(startMinutes => ({
+    startMinutes,
+    start: branchMinutesToDateTime(input.date, startMinutes, input.timeZone),
+    end: branchMinutesToDateTime(input.date, startMinutes + slotMinutes, input.timeZone),
+    isOpen: !!window && startMinutes >= window.openMinutes && startMinutes + slotMinutes <= window.closeMinutes
+  }));
+
+  const overlaps = (period: { startTime: Date; endTime: Date }, cell: { start: DateTime; end: DateTime }) =>
+    period.startTime.getTime() < cell.end.toMillis() && period.endTime.getTime() > cell.start.toMillis();
+
+  const rooms = input.rooms.map(({ roomId, slotMinutes = SLOT_MINUTES, ...buffers }) => {
+    const busy = input.busy.filter(period => period.roomId === roomId);
+    const turnarounds = busy.map(period => conflictWindow(period.startTime, period.endTime, buffers));
+    const blackouts = (input.blackouts ?? []).filter(period => period.roomId === roomId);
+    return {
+      roomId,
+      slotMinutes,
+      slots: cellsOf(slotMinutes).map(cell => {
+        const blackout = cell.isOpen ? blackouts.find(period => overlaps(period, cell)) : undefined;
+        const status: SlotStatus = !cell.isOpen ? "closed"
+          : blackout ? "blackout"
+          : busy.some(period => overlaps(period, cell)) ? "busy"
+          : turnarounds.some(period => overlaps(period, cell)) ? "buffer"
+          : "free";
+        return {
+          startMinutes: cell.startMinutes,
+          startTime: cell.start.toISO()!,
+          endTime: cell.end.toISO()!,
+          status,
+          ...(blackout && { reason: blackout.reason })
+        };
+      })
+    };
+  });
+
+  return { window, rooms };
+}
+
+// Whether a room's cells from startMinutes up to endMinutes are all free
+export function isFreeBetween(slots: Pick<AvailabilitySlot, "startMinutes" | "status">[], startMinutes: number, endMinutes: number, slotMinutes = SLOT_MINUTES): boolean {
+  if (endMinutes <= startMinutes) {
+    return false;
+  }
+
+  for (let minutes = startMinutes; minutes < endMinutes; minutes += slotMinutes) {
+    const slot = slots.find(s => s.startMinutes === minutes);
+    if (!slot || slot.status !== "free") {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,37 @@
+import { DateTime } from "luxon";
+import type { RoomBlackout } from "./schema";
+import { expandRecurrence, parseRRule } from "./recurrence";
+
+// One block of time a blackout takes its room out of use for
+export interface BlackoutPeriod {
+  blackoutId: number;
+  roomId: number;
+  startTime: Date;
+  endTime: Date;
+  reason: string;
+}
+
+type BlackoutSchedule = Pick<RoomBlackout, "id" | "roomId" | "startTime" | "endTime" | "rrule" | "reason">;
+
+// Every block of a blackout. A recurring one repeats at the same wall-clock time at the branch,
+// up to MAX_SERIES_OCCURRENCES times like a reservation series.
+export function blackoutPeriods(blackout: BlackoutSchedule, timeZone: string): BlackoutPeriod[] {
+  const durationMs = blackout.endTime.getTime() - blackout.startTime.getTime();
+  const starts = blackout.rrule
+    ? expandRecurrence(parseRRule(blackout.rrule, timeZone), DateTime.fromJSDate(blackout.startTime).setZone(timeZone))
+        .map(start => start.toJSDate())
+    : [blackout.startTime];
+
+  return starts.map(startTime => ({
+    blackoutId: blackout.id,
+    roomId: blackout.roomId,
+    startTime,
+    endTime: new Date(startTime.getTime() + durationMs),
+    reason: blackout.reason
+  }));
+}
+
+// The first block that overlaps the given time, if any
+export function findBlackoutPeriod(periods: BlackoutPeriod[], startTime: Date, endTime: Date): BlackoutPeriod | undefined {
+  return periods.find(period => period.startTime < endTime && period.endTime > startTime);
+}
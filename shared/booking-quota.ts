@@ -0,0 +1,161 @@
+import { DateTime } from "luxon";
+
+// Fair-use limits on how much a patron can book. A null limit is not enforced.
+export interface BookingQuota {
+  maxHoursPerDay: number | null; // Hours booked on any one day
+  maxHoursPerWeek: number | null; // Hours booked in a Monday-Sunday week
+  maxActiveReservations: number | null; // Upcoming reservations held at the same time
+  maxActivePerRoomType: Record<string, number>; // Upcoming reservations per room type, e.g. { group: 2 }
+}
+
+export const defaultBookingQuota: BookingQuota = {
+  maxHoursPerDay: 4,
+  maxHoursPerWeek: 10,
+  maxActiveReservations: 5,
+  maxActivePerRoomType: { group: 2 }
+};
+
+export type QuotaLimit = "hours_per_day" | "hours_per_week" | "active_reservations" | "room_type";
+
+// A booking counted against the quota: the patron's existing active reservations, or the one being made
+export interface QuotaBooking {
+  startTime: Date;
+  endTime: Date;
+  roomType: string | null;
+}
+
+export interface QuotaViolation {
+  limit: QuotaLimit;
+  allowed: number;
+  used: number; // Already booked before this request (hours or reservations)
+  requested: number;
+  roomType?: string;
+  message: string;
+}
+
+export interface QuotaUsage {
+  limit: number | null;
+  used: number;
+  remaining: number | null; // null when the limit is not enforced
+}
+
+// What a patron can still book today and this week, for the profile page
+export interface QuotaAllowance {
+  hoursToday: QuotaUsage;
+  hoursThisWeek: QuotaUsage;
+  activeReservations: QuotaUsage;
+  roomTypes: (QuotaUsage & { roomType: string })[];
+}
+
+const bookedHours = (booking: QuotaBooking) =>
+  (booking.endTime.getTime() - booking.startTime.getTime()) / (60 * 60 * 1000);
+
+const sumHours = (bookings: QuotaBooking[]) => bookings.reduce((total, booking) => total + bookedHours(booking), 0);
+
+// "1 hour", "2.5 hours"
+const formatHours = (hours: number) => {
+  const rounded = Math.round(hours * 100) / 100;
+  return `${rounded} ${rounded === 1 ? "hour" : "hours"}`;
+};
+
+const usage = (limit: number | null, used: number): QuotaUsage => ({
+  limit,
+  used,
+  remaining: limit === null ? null : Math.max(0, limit - used)
+});
+
+// Bookings that start on the same local day (or week) as `at`
+const startingWithin = (bookings: QuotaBooking[], at: DateTime, unit: "day" | "week", timeZone: string) =>
+  bookings.filter(booking => DateTime.fromJSDate(booking.startTime).setZone(timeZone).hasSame(at, unit));
+
+// Reservations that haven't finished yet
+const upcoming = (bookings: QuotaBooking[], now: Date) => bookings.filter(booking => booking.endTime > now);
+
+// Check a new booking against the quota. `existing` should only hold the patron's reservations that
+// still hold their room. Returns the first limit the booking would exceed, or null when it fits.
+export function findQuotaViolation(
+  quota: BookingQuota,
+  existing: QuotaBooking[],
+  proposed: QuotaBooking,
+  now: Date,
+  timeZone: string
+): QuotaViolation | null {
+  const start = DateTime.fromJSDate(proposed.startTime).setZone(timeZone);
+  const requestedHours = bookedHours(proposed);
+
+  if (quota.maxHoursPerDay !== null) {
+    const used = sumHours(startingWithin(existing, start, "day", timeZone));
+    if (used + requestedHours > quota.maxHoursPerDay) {
+      return {
+        limit: "hours_per_day",
+        allowed: quota.maxHoursPerDay,
+        used,
+        requested: requestedHours,
+        message: `You can book up to ${formatHours(quota.maxHoursPerDay)} per day and already have ${formatHours(used)} booked on ${start.toISODate()}`
+      };
+    }
+  }
+
+  if (quota.maxHoursPerWeek !== null) {
+    const used = sumHours(startingWithin(existing, start, "week", timeZone));
+    if (used + requestedHours > quota.maxHoursPerWeek) {
+      return {
+        limit: "hours_per_week",
+        allowed: quota.maxHoursPerWeek,
+        used,
+        requested: requestedHours,
+        message: `You can book up to ${formatHours(quota.maxHoursPerWeek)} per week and already have ${formatHours(used)} booked in the week of ${start.startOf("week").toISODate()}`
+      };
+    }
+  }
+
+  const active = upcoming(existing, now);
+
+  if (quota.maxActiveReservations !== null && active.length + 1 > quota.maxActiveReservations) {
+    return {
+      limit: "active_reservations",
+      allowed: quota.maxActiveReservations,
+      used: active.length,
+      requested: 1,
+      message: `You can hold up to ${quota.maxActiveReservations} upcoming reservations at a time; cancel one or wait until it has passed to book another`
+    };
+  }
+
+  const roomTypeLimit = proposed.roomType ? quota.maxActivePerRoomType[proposed.roomType] : undefined;
+  if (proposed.roomType && roomTypeLimit !== undefined) {
+    const used = active.filter(booking => booking.roomType === proposed.roomType).length;
+    if (used + 1 > roomTypeLimit) {
+      return {
+        limit: "room_type",
+        allowed: roomTypeLimit,
+        used,
+        requested: 1,
+        roomType: proposed.roomType,
+        message: `You can hold up to ${roomTypeLimit} upcoming ${proposed.roomType} room reservations at a time`
+      };
+    }
+  }
+
+  return null;
+}
+
+// Remaining allowance as of `now`: hours left today and this week, and reservations left to hold
+export function remainingAllowance(
+  quota: BookingQuota,
+  existing: QuotaBooking[],
+  now: Date,
+  timeZone: string
+): QuotaAllowance {
+  const today = DateTime.fromJSDate(now).setZone(timeZone);
+  const active = upcoming(existing, now);
+
+  return {
+    hoursToday: usage(quota.maxHoursPerDay, sumHours(startingWithin(existing, today, "day", timeZone))),
+    hoursThisWeek: usage(quota.maxHoursPerWeek, sumHours(startingWithin(existing, today, "week", timeZone))),
+    activeReservations: usage(quota.maxActiveReservations, active.length),
+    roomTypes: Object.entries(quota.maxActivePerRoomType).map(([roomType, limit]) => ({
+      roomType,
+      ...usage(limit, active.filter(booking => booking.roomType === roomType).length)
+    }))
+  };
+}
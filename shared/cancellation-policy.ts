@@ -0,0 +1,68 @@
+// How much of the amount paid is returned when a patron cancels, based on notice given
+export interface CancellationPolicy {
+  fullRefundHours: number; // Cancel at least this long before the start for a full refund
+  partialRefundHours: number; // ...or at least this long before for a partial refund
+  partialRefundPercent: number; // Share of the payment returned in the partial window
+}
+
+export const defaultCancellationPolicy: CancellationPolicy = {
+  fullRefundHours: 24,
+  partialRefundHours: 2,
+  partialRefundPercent: 50
+};
+
+export type RefundTier = "full" | "partial" | "none" | "not_paid";
+
+export interface RefundQuote {
+  tier: RefundTier;
+  refundPercent: number;
+  refundInCents: number;
+  hoursBeforeStart: number;
+}
+
+// Work out the refund for cancelling a booking at `cancelledAt`. `amountPaidInCents` should be 0
+// when nothing has been charged yet. Staff cancellations (`waivePolicy`) are always refunded in full.
+export function quoteRefund(
+  policy: CancellationPolicy,
+  amountPaidInCents: number,
+  startTime: Date,
+  cancelledAt: Date,
+  waivePolicy = false
+): RefundQuote {
+  const hoursBeforeStart = (startTime.getTime() - cancelledAt.getTime()) / (60 * 60 * 1000);
+
+  if (amountPaidInCents <= 0) {
+    return { tier: "not_paid", refundPercent: 0, refundInCents: 0, hoursBeforeStart };
+  }
+
+  let tier: RefundTier;
+  let refundPercent: number;
+  if (waivePolicy || hoursBeforeStart >= policy.fullRefundHours) {
+    tier = "full";
+    refundPercent = 100;
+  } else if (hoursBeforeStart >= policy.partialRefundHours && policy.partialRefundPercent > 0) {
+    tier = "partial";
+    refundPercent = policy.partialRefundPercent;
+  } else {
+    tier = "none";
+    refundPercent = 0;
+  }
+
+  // Round down so a refund never exceeds the configured share
+  return {
+    tier,
+    refundPercent,
+    refundInCents: Math.floor((amountPaidInCents * refundPercent) / 100),
+    hoursBeforeStart
+  };
+}
+
+// One-line summary for patrons, e.g. "Full refund if cancelled 24+ hours before, 50% if 2+ hours before"
+export function describeCancellationPolicy(policy: CancellationPolicy): string {
+  const parts = [`Full refund if cancelled ${policy.fullRefundHours}+ hours before the start`];
+  if (policy.partialRefundPercent > 0 && policy.partialRefundHours < policy.fullRefundHours) {
+    parts.push(`${policy.partialRefundPercent}% if cancelled ${policy.partialRefundHours}+ hours before`);
+  }
+  parts.push("no refund after that");
+  return parts.join(", ");
+}
@@ -0,0 +1,32 @@
+import type { Reservation } from "./schema";
+
+// Patrons can check in from this many minutes before their booking starts until it ends
+export const CHECK_IN_OPENS_MINUTES = 15;
+
+// Reservation fields needed to decide whether it can be checked in (dates may be ISO strings on the client)
+export type CheckInFields = Pick<Reservation, "status" | "checkedInAt"> & {
+  startTime: Date | string;
+  endTime: Date | string;
+};
+
+// Why a reservation can't be checked in at `now`, or null if it can
+export function findCheckInProblem(reservation: CheckInFields, now: Date = new Date()): string | null {
+  if (reservation.checkedInAt) {
+    return "This reservation has already been checked in";
+  }
+  if (reservation.status === "no_show") {
+    return "This reservation was released because nobody checked in";
+  }
+  if (reservation.status !== "confirmed") {
+    return "Only confirmed reservations can be checked in";
+  }
+
+  const opensAt = new Date(new Date(reservation.startTime).getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000);
+  if (now < opensAt) {
+    return `Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before the reservation starts`;
+  }
+  if (now >= new Date(reservation.endTime)) {
+    return "This reservation has already ended";
+  }
+  return null;
+}
@@ -0,0 +1,169 @@
+import { DateTime } from "luxon";
+
+// One VEVENT; times are instants and are written as local times in the event's zone
+export interface CalendarEvent {
+  uid: string;
+  timeZone?: string; // defaults to the calendar's zone
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  lastModified?: Date | null;
+  url?: string;
+}
+
+export interface CalendarOptions {
+  name: string;
+  timeZone: string; // IANA zone, e.g. America/New_York
+  events: CalendarEvent[];
+  now?: Date; // DTSTAMP; defaults to the current time
+}
+
+const PRODUCT_ID = "-//Library Room Reservations//EN";
+
+// Escape TEXT values (RFC 5545 §3.3.11)
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Fold content lines longer than 75 octets (RFC 5545 §3.1), never splitting a UTF-8 character
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of Array.from(line)) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+const formatUtc = (date: Date) => DateTime.fromJSDate(date).toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'");
+const formatLocal = (date: DateTime) => date.toFormat("yyyyMMdd'T'HHmmss");
+
+// Format a UTC offset in minutes as +HHMM / -HHMM
+const formatOffset = (minutes: number) => {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+};
+
+// Find the instants between `from` and `to` where the zone's UTC offset changes
+function findOffsetTransitions(timeZone: string, from: DateTime, to: DateTime): DateTime[] {
+  const transitions: DateTime[] = [];
+  let day = from.setZone(timeZone).startOf("day");
+
+  while (day < to) {
+    const next = day.plus({ days: 1 });
+    if (next.offset !== day.offset) {
+      // Narrow the change down to the minute
+      let low = day.toMillis();
+      let high = next.toMillis();
+      while (high - low > 60 * 1000) {
+        const mid = low + Math.floor((high - low) / 2);
+        if (DateTime.fromMillis(mid, { zone: timeZone }).offset === day.offset) {
+          low = mid;
+        } else {
+          high = mid;
+        }
+      }
+      transitions.push(DateTime.fromMillis(high, { zone: timeZone }).startOf("minute"));
+    }
+    day = next;
+  }
+
+  return transitions;
+}
+
+// VTIMEZONE covering every year the events touch, with one observance per offset change.
+// Explicit transitions (rather than RRULEs) stay correct even if the zone's rules change.
+export function buildVTimezone(timeZone: string, from: Date, to: Date): string[] {
+  const start = DateTime.fromJSDate(from, { zone: timeZone }).startOf("year");
+  const end = DateTime.fromJSDate(to, { zone: timeZone }).endOf("year");
+  const transitions = findOffsetTransitions(timeZone, start, end);
+  const lines = ["BEGIN:VTIMEZONE", `TZID:${timeZone}`];
+
+  const observance = (at: DateTime, offsetFrom: number) => {
+    const type = at.isInDST ? "DAYLIGHT" : "STANDARD";
+    lines.push(
+      `BEGIN:${type}`,
+      // DTSTART is the wall-clock time the change happens, in the offset being left
+      `DTSTART:${formatLocal(at.toUTC().plus({ minutes: offsetFrom }))}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(at.offset)}`,
+      `TZNAME:${at.offsetNameShort ?? formatOffset(at.offset)}`,
+      `END:${type}`
+    );
+  };
+
+  if (transitions.length === 0) {
+    // No daylight saving in this period: a single observance from the start of the range
+    observance(start, start.offset);
+  } else {
+    transitions.forEach(at => observance(at, at.minus({ minutes: 1 }).offset));
+  }
+
+  lines.push("END:VTIMEZONE");
+  return lines;
+}
+
+// Build a complete VCALENDAR document with CRLF line endings
+export function buildCalendar({ name, timeZone, events, now = new Date() }: CalendarOptions): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${timeZone}`
+  ];
+
+  // Every zone used by an event needs its own VTIMEZONE
+  const zones = Array.from(new Set(events.map(e => e.timeZone ?? timeZone)));
+  for (const zone of zones) {
+    const inZone = events.filter(e => (e.timeZone ?? timeZone) === zone);
+    const from = new Date(Math.min(...inZone.map(e => e.start.getTime())));
+    const to = new Date(Math.max(...inZone.map(e => e.end.getTime())));
+    lines.push(...buildVTimezone(zone, from, to));
+  }
+
+  for (const event of events) {
+    const zone = event.timeZone ?? timeZone;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART;TZID=${zone}:${formatLocal(DateTime.fromJSDate(event.start, { zone }))}`,
+      `DTEND;TZID=${zone}:${formatLocal(DateTime.fromJSDate(event.end, { zone }))}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+    lines.push("TRANSP:OPAQUE", "END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
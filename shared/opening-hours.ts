@@ -0,0 +1,79 @@
+import type { LocationHours, LocationClosure } from "./schema";
+
+// Weekly schedule fields needed to work out opening times
+export type WeeklyHours = Pick<LocationHours, "dayOfWeek" | "openTime" | "closeTime" | "isClosed">;
+
+// Opening window for a single day, in minutes after local midnight
+export interface OpeningWindow {
+  openMinutes: number;
+  closeMinutes: number;
+}
+
+// Used for any location that has no schedule of its own:
+// 9:00am - 9:00pm on weekdays, 9:00am - 5:00pm on weekends
+export const defaultLocationHours: WeeklyHours[] = [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+  dayOfWeek,
+  openTime: "09:00",
+  closeTime: dayOfWeek === 0 || dayOfWeek === 6 ? "17:00" : "21:00",
+  isClosed: false
+}));
+
+// Convert an "HH:mm" string to minutes after midnight
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Convert minutes after midnight back to an "HH:mm" string
+export function minutesToTime(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+// Fall back to the default schedule for locations that have not configured hours
+export function effectiveWeeklyHours(hours: WeeklyHours[]): WeeklyHours[] {
+  return hours.length > 0 ? hours : defaultLocationHours;
+}
+
+// Whole hours spanned by the earliest opening and latest closing of the week,
+// so the booking grid keeps the same columns from one day to the next
+export function getWeeklyHourRange(hours: WeeklyHours[]): number[] {
+  const openDays = effectiveWeeklyHours(hours).filter(h => !h.isClosed && h.openTime && h.closeTime);
+  if (openDays.length === 0) {
+    return [];
+  }
+
+  const firstHour = Math.floor(Math.min(...openDays.map(h => timeToMinutes(h.openTime!))) / 60);
+  const lastHour = Math.ceil(Math.max(...openDays.map(h => timeToMinutes(h.closeTime!))) / 60);
+  return Array.from({ length: lastHour - firstHour }, (_, i) => firstHour + i);
+}
+
+// Find the closure (if any) that applies to a yyyy-MM-dd date
+export function findClosure<T extends Pick<LocationClosure, "closureDate">>(closures: T[], date: string): T | undefined {
+  return closures.find(closure => closure.closureDate === date);
+}
+
+// Work out when a location is open on a given date, or null if it is closed all day
+export function getOpeningWindow(
+  hours: WeeklyHours[],
+  closures: Pick<LocationClosure, "closureDate">[],
+  date: string,
+  dayOfWeek: number
+): OpeningWindow | null {
+  if (findClosure(closures, date)) {
+    return null;
+  }
+
+  const day = effectiveWeeklyHours(hours).find(h => h.dayOfWeek === dayOfWeek);
+  if (!day || day.isClosed || !day.openTime || !day.closeTime) {
+    return null;
+  }
+
+  const openMinutes = timeToMinutes(day.openTime);
+  const closeMinutes = timeToMinutes(day.closeTime);
+  return closeMinutes > openMinutes ? { openMinutes, closeMinutes } : null;
+}
+
+// Check that a booking (minutes after local midnight) falls entirely inside the opening window
+export function isWithinOpeningWindow(window: OpeningWindow | null, startMinutes: number, endMinutes: number): boolean {
+  return !!window && startMinutes >= window.openMinutes && endMinutes <= window.closeMinutes && endMinutes > startMinutes;
+}
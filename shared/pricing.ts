@@ -0,0 +1,209 @@
+import type { DateTime } from "luxon";
+import type { PricingRule, PromoCode } from "./schema";
+import { timeToMinutes } from "./opening-hours";
+
+// Hourly rate charged when no pricing rule covers an hour ($5.00)
+export const DEFAULT_HOURLY_RATE_IN_CENTS = 500;
+
+// Fields of a pricing rule used to price a booking
+export type PricingRuleFields = Pick<
+  PricingRule,
+  | "id"
+  | "name"
+  | "type"
+  | "locationId"
+  | "roomId"
+  | "daysOfWeek"
+  | "startTime"
+  | "endTime"
+  | "hourlyRateInCents"
+  | "discountPercent"
+  | "audience"
+  | "priority"
+  | "isActive"
+>;
+
+// The booking being priced; times must already be in the branch's zone. They're the patron's own time,
+// without the room's setup and cleanup buffers, which are never billed.
+export interface PricingContext {
+  roomId: number;
+  locationId: number;
+  startTime: DateTime;
+  endTime: DateTime;
+  isRegisteredUser: boolean;
+  slotMinutes?: number; // the room's slot length; an hour unless it books in shorter slots
+}
+
+// Consecutive billable time charged at the same rate; hours can be fractional for rooms booked in shorter slots
+export interface PriceLineItem {
+  label: string;
+  ruleId: number | null; // null for the default rate
+  hours: number;
+  unitPriceInCents: number;
+  amountInCents: number;
+}
+
+export interface PriceDiscount {
+  label: string;
+  ruleId: number;
+  percent: number;
+  amountInCents: number; // Subtracted from the subtotal
+}
+
+export interface PricePromo {
+  code: string;
+  promoCodeId: number;
+  amountInCents: number; // Subtracted after any pricing rule discount
+}
+
+export interface PriceQuote {
+  billableHours: number;
+  lineItems: PriceLineItem[];
+  subtotalInCents: number;
+  discount: PriceDiscount | null;
+  promo: PricePromo | null;
+  totalInCents: number;
+}
+
+// Fields of a promo code used to check and apply it
+export type PromoCodeFields = Pick<
+  PromoCode,
+  "id" | "code" | "discountType" | "discountValue" | "maxUses" | "timesUsed" | "expiresAt" | "locationId" | "roomId" | "isActive"
+>;
+
+// Does the rule apply to this room (rules without a room or location apply everywhere)?
+function matchesScope(rule: PricingRuleFields, context: PricingContext): boolean {
+  return (rule.roomId === null || rule.roomId === context.roomId)
+    && (rule.locationId === null || rule.locationId === context.locationId);
+}
+
+// Does the rule's day/time window cover this local time? Windows ending before they start wrap past midnight.
+function matchesWindow(rule: PricingRuleFields, at: DateTime): boolean {
+  if (rule.daysOfWeek?.length && !rule.daysOfWeek.includes(at.weekday % 7)) {
+    return false;
+  }
+  if (!rule.startTime || !rule.endTime) {
+    return true;
+  }
+
+  const minutes = at.hour * 60 + at.minute;
+  const start = timeToMinutes(rule.startTime);
+  const end = timeToMinutes(rule.endTime);
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+// Room rules beat location rules, which beat rules for every branch
+function scopeRank(rule: PricingRuleFields): number {
+  return rule.roomId !== null ? 2 : rule.locationId !== null ? 1 : 0;
+}
+
+// A rule limited to certain days or hours (peak, weekend) beats an all-week rate at the same scope
+function windowRank(rule: PricingRuleFields): number {
+  return rule.daysOfWeek?.length || (rule.startTime && rule.endTime) ? 1 : 0;
+}
+
+// Order rules so the first match wins: explicit priority, then scope, then time window, then oldest
+function compareRules(a: PricingRuleFields, b: PricingRuleFields): number {
+  return (b.priority ?? 0) - (a.priority ?? 0)
+    || scopeRank(b) - scopeRank(a)
+    || windowRank(b) - windowRank(a)
+    || a.id - b.id;
+}
+
+// Price a booking. Time is billed in whole slots of the room (a part slot counts as a full one), each
+// slot at its share of the hourly rate of the best matching rule at its start. At most one discount
+// applies: the largest.
+export function calculatePrice(rules: PricingRuleFields[], context: PricingContext): PriceQuote {
+  const applicable = rules.filter(rule => rule.isActive !== false && matchesScope(rule, context));
+  const rates = applicable.filter(rule => rule.type === "rate" && rule.hourlyRateInCents !== null).sort(compareRules);
+
+  const slotMinutes = context.slotMinutes ?? 60;
+  const durationMinutes = context.endTime.diff(context.startTime, "minutes").minutes;
+  const billableSlots = Math.max(0, Math.ceil(durationMinutes / slotMinutes));
+  const billableHours = (billableSlots * slotMinutes) / 60;
+  const lineItems: PriceLineItem[] = [];
+
+  for (let slot = 0; slot < billableSlots; slot++) {
+    const at = context.startTime.plus({ minutes: slot * slotMinutes });
+    const rule = rates.find(r => matchesWindow(r, at));
+    const ruleId = rule?.id ?? null;
+    const unitPriceInCents = rule ? rule.hourlyRateInCents! : DEFAULT_HOURLY_RATE_IN_CENTS;
+    const slotPriceInCents = Math.round((unitPriceInCents * slotMinutes) / 60);
+
+    const previous = lineItems[lineItems.length - 1];
+    if (previous && previous.ruleId === ruleId) {
+      previous.hours += slotMinutes / 60;
+      previous.amountInCents += slotPriceInCents;
+    } else {
+      lineItems.push({
+        label: rule ? rule.name : "Standard rate",
+        ruleId,
+        hours: slotMinutes / 60,
+        unitPriceInCents,
+        amountInCents: slotPriceInCents
+      });
+    }
+  }
+
+  const subtotalInCents = lineItems.reduce((sum, item) => sum + item.amountInCents, 0);
+
+  const audience = context.isRegisteredUser ? "registered" : "guest";
+  const best = applicable
+    .filter(rule => rule.type === "discount" && (rule.discountPercent ?? 0) > 0)
+    .filter(rule => !rule.audience || rule.audience === "all" || rule.audience === audience)
+    .filter(rule => matchesWindow(rule, context.startTime))
+    .sort((a, b) => b.discountPercent! - a.discountPercent! || compareRules(a, b))[0];
+
+  const discount: PriceDiscount | null = best && subtotalInCents > 0
+    ? {
+        label: best.name,
+        ruleId: best.id,
+        percent: Math.min(best.discountPercent!, 100),
+        amountInCents: Math.round((subtotalInCents * Math.min(best.discountPercent!, 100)) / 100)
+      }
+    : null;
+
+  return {
+    billableHours,
+    lineItems,
+    subtotalInCents,
+    discount,
+    promo: null,
+    totalInCents: subtotalInCents - (discount?.amountInCents ?? 0)
+  };
+}
+
+// Why a promo code can't be used for this booking, or null if it can
+export function findPromoCodeProblem(
+  promo: PromoCodeFields,
+  booking: { roomId: number; locationId: number },
+  now: Date = new Date()
+): string | null {
+  if (promo.isActive === false) {
+    return "This promo code is no longer active";
+  }
+  if (promo.expiresAt && promo.expiresAt <= now) {
+    return "This promo code has expired";
+  }
+  if (promo.maxUses !== null && (promo.timesUsed ?? 0) >= promo.maxUses) {
+    return "This promo code has reached its usage limit";
+  }
+  if ((promo.roomId !== null && promo.roomId !== booking.roomId) || (promo.locationId !== null && promo.locationId !== booking.locationId)) {
+    return "This promo code can't be used for this room";
+  }
+  return null;
+}
+
+// Take a promo code off a quote. Fixed amounts never take the total below zero.
+export function applyPromoCode(quote: PriceQuote, promo: PromoCodeFields): PriceQuote {
+  const beforePromo = quote.subtotalInCents - (quote.discount?.amountInCents ?? 0);
+  const amountInCents = promo.discountType === "percent"
+    ? Math.round((beforePromo * Math.min(promo.discountValue, 100)) / 100)
+    : Math.min(promo.discountValue, beforePromo);
+
+  return {
+    ...quote,
+    promo: { code: promo.code, promoCodeId: promo.id, amountInCents },
+    totalInCents: beforePromo - amountInCents
+  };
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+import type { Reservation, RoomBlackout } from "./schema";
+
+// Most topics one socket may follow at once
+export const MAX_SUBSCRIPTIONS = 20;
+
+// What a socket can follow: a branch's grid on a date (yyyy-MM-dd at the branch), one room,
+// or the signed-in patron's own bookings
+export const realtimeTopicSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("location"),
+    locationId: z.number().int().positive(),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in yyyy-MM-dd format")
+  }),
+  z.object({ kind: z.literal("room"), roomId: z.number().int().positive() }),
+  z.object({ kind: z.literal("my_reservations") })
+]);
+
+export type RealtimeTopic = z.infer<typeof realtimeTopicSchema>;
+
+// Clients only manage their subscriptions; every event comes from the server
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("subscribe"), topic: realtimeTopicSchema }),
+  z.object({ type: z.literal("unsubscribe"), topic: realtimeTopicSchema })
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+export const reservationEventTypes = [
+  "new_reservation",
+  "updated_reservation",
+  "cancelled_reservation",
+  "expired_reservation",
+  "no_show_reservation"
+] as const;
+export type ReservationEventType = typeof reservationEventTypes[number];
+
+export const blackoutEventTypes = ["blackout_added", "blackout_removed"] as const;
+export type BlackoutEventType = typeof blackoutEventTypes[number];
+
+// A booking as subscribers see it. The personal fields are null except for the patron who made it
+// and staff at its branch.
+export interface RealtimeReservation {
+  id: number;
+  roomId: number;
+  reservationDate: string;
+  startTime: string;
+  endTime: string;
+  status: string | null;
+  userId: number | null;
+  guestName: string | null;
+  guestEmail: string | null;
+  purpose: string | null;
+  confirmationCode: string | null;
+}
+
+export interface RealtimeBlackout {
+  id: number;
+  roomId: number;
+  startTime: string;
+  endTime: string;
+  rrule: string | null;
+  reason: string;
+}
+
+export type ReservationEvent = { type: ReservationEventType; data: RealtimeReservation };
+export type BlackoutEvent = { type: BlackoutEventType; data: RealtimeBlackout };
+
+export type ServerMessage =
+  | ReservationEvent
+  | BlackoutEvent
+  | { type: "subscribed" | "unsubscribed"; topic: RealtimeTopic }
+  | { type: "error"; error: string };
+
+export const isReservationEvent = (message: ServerMessage): message is ReservationEvent =>
+  (reservationEventTypes as readonly string[]).includes(message.type);
+
+export const isBlackoutEvent = (message: ServerMessage): message is BlackoutEvent =>
+  (blackoutEventTypes as readonly string[]).includes(message.type);
+
+// What an event is about, to match it against topics
+export interface EventScope {
+  roomId: number;
+  locationId: number;
+  date?: string; // yyyy-MM-dd at the branch; events without one reach every date of the branch
+  userId?: number | null; // patron the event is about
+}
+
+// Stable key for a topic, so subscribing twice is the same as once
+export function topicKey(topic: RealtimeTopic): string {
+  switch (topic.kind) {
+    case "location":
+      return `location:${topic.locationId}:${topic.date}`;
+    case "room":
+      return `room:${topic.roomId}`;
+    case "my_reservations":
+      return "my_reservations";
+  }
+}
+
+// Whether an event belongs to a topic followed by the given user (undefined for anonymous sockets)
+export function topicMatches(topic: RealtimeTopic, scope: EventScope, viewerId?: number): boolean {
+  switch (topic.kind) {
+    case "location":
+      return topic.locationId === scope.locationId && (scope.date === undefined || topic.date === scope.date);
+    case "room":
+      return topic.roomId === scope.roomId;
+    case "my_reservations":
+      return viewerId !== undefined && scope.userId === viewerId;
+  }
+}
+
+// The subscriber's view of a booking; personal fields are dropped unless they may see them
+export function toRealtimeReservation(reservation: Reservation, includePersonal: boolean): RealtimeReservation {
+  return {
+    id: reservation.id,
+    roomId: reservation.roomId,
+    reservationDate: String(reservation.reservationDate).slice(0, 10),
+    startTime: new Date(reservation.startTime).toISOString(),
+    endTime: new Date(reservation.endTime).toISOString(),
+    status: reservation.status,
+    userId: includePersonal ? reservation.userId : null,
+    guestName: includePersonal ? reservation.guestName : null,
+    guestEmail: includePersonal ? reservation.guestEmail : null,
+    purpose: includePersonal ? reservation.purpose : null,
+    confirmationCode: includePersonal ? reservation.confirmationCode : null
+  };
+}
+
+export function toRealtimeBlackout(blackout: RoomBlackout): RealtimeBlackout {
+  return {
+    id: blackout.id,
+    roomId: blackout.roomId,
+    startTime: blackout.startTime.toISOString(),
+    endTime: blackout.endTime.toISOString(),
+    rrule: blackout.rrule,
+    reason: blackout.reason
+  };
+}
@@ -0,0 +1,160 @@
+import { DateTime } from "luxon";
+
+// Supported subset of RFC 5545 recurrence rules
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: DateTime; // Inclusive; compared against each occurrence's start
+  byDay?: number[]; // 0 = Sunday ... 6 = Saturday (WEEKLY only)
+}
+
+// Thrown by parseRRule for rules that are malformed or outside the supported subset
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecurrenceRuleError";
+  }
+}
+
+// Upper bound on occurrences in one series, whatever COUNT/UNTIL say
+export const MAX_SERIES_OCCURRENCES = 52;
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Parse an RRULE string such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10".
+// The "RRULE:" prefix is optional. A date-only UNTIL is read as the end of that day in `zone`.
+// Throws a RecurrenceRuleError describing the first problem found.
+export function parseRRule(rrule: string, zone?: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of rrule.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean)) {
+    const [key, value] = part.split("=");
+    if (!key || value === undefined) {
+      throw new RecurrenceRuleError(`Malformed RRULE part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    throw new RecurrenceRuleError("FREQ must be DAILY, WEEKLY or MONTHLY");
+  }
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1;
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new RecurrenceRuleError("INTERVAL must be a positive integer");
+  }
+
+  if (parts.has("COUNT") && parts.has("UNTIL")) {
+    throw new RecurrenceRuleError("COUNT and UNTIL cannot both be set");
+  }
+  if (!parts.has("COUNT") && !parts.has("UNTIL")) {
+    throw new RecurrenceRuleError("A recurring reservation needs either COUNT or UNTIL");
+  }
+
+  const rule: RecurrenceRule = { freq, interval };
+
+  if (parts.has("COUNT")) {
+    const count = Number(parts.get("COUNT"));
+    if (!Number.isInteger(count) || count < 1) {
+      throw new RecurrenceRuleError("COUNT must be a positive integer");
+    }
+    rule.count = count;
+  }
+
+  if (parts.has("UNTIL")) {
+    const value = parts.get("UNTIL")!;
+    const until = value.includes("T")
+      ? DateTime.fromFormat(value.replace(/Z$/, ""), "yyyyMMdd'T'HHmmss", { zone: value.endsWith("Z") ? "utc" : zone })
+      : DateTime.fromFormat(value, "yyyyMMdd", { zone }).endOf("day");
+    if (!until.isValid) {
+      throw new RecurrenceRuleError("UNTIL must be a date (yyyyMMdd) or date-time (yyyyMMddTHHmmssZ)");
+    }
+    rule.until = until;
+  }
+
+  if (parts.has("BYDAY")) {
+    if (freq !== "WEEKLY") {
+      throw new RecurrenceRuleError("BYDAY is only supported for WEEKLY rules");
+    }
+    const byDay = parts.get("BYDAY")!.split(",").map(code => WEEKDAY_CODES.indexOf(code));
+    if (byDay.some(day => day < 0)) {
+      throw new RecurrenceRuleError("BYDAY must be a list of SU, MO, TU, WE, TH, FR, SA");
+    }
+    rule.byDay = Array.from(new Set(byDay)).sort((a, b) => a - b);
+  }
+
+  return rule;
+}
+
+// Serialize a rule back to its canonical RRULE form (without the "RRULE:" prefix)
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => WEEKDAY_CODES[day]).join(",")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'")}`);
+  return parts.join(";");
+}
+
+// Expand a rule into occurrence start times. `firstStart` is DTSTART in the branch's zone;
+// wall-clock time is preserved across daylight-saving changes.
+export function expandRecurrence(rule: RecurrenceRule, firstStart: DateTime, limit = MAX_SERIES_OCCURRENCES): DateTime[] {
+  const maxOccurrences = Math.min(rule.count ?? limit, limit);
+  const occurrences: DateTime[] = [];
+  const isPastUntil = (occurrence: DateTime) => !!rule.until && occurrence > rule.until;
+
+  // Each period is one step of FREQ × INTERVAL from DTSTART
+  for (let period = 0; occurrences.length < maxOccurrences; period++) {
+    let candidates: DateTime[];
+
+    if (rule.freq === "DAILY") {
+      candidates = [firstStart.plus({ days: period * rule.interval })];
+    } else if (rule.freq === "WEEKLY") {
+      const weekStart = firstStart.plus({ weeks: period * rule.interval });
+      const days = rule.byDay ?? [firstStart.weekday % 7];
+      // Days in the same week as weekStart, Sunday-based, at DTSTART's time of day
+      candidates = days.map(day => weekStart.plus({ days: day - (weekStart.weekday % 7) }));
+    } else {
+      const month = firstStart.plus({ months: period * rule.interval });
+      // Months without DTSTART's day of month (e.g. the 31st) are skipped, as RFC 5545 requires
+      candidates = month.day === firstStart.day ? [month] : [];
+    }
+
+    for (const candidate of candidates) {
+      if (candidate < firstStart) continue;
+      if (isPastUntil(candidate) || occurrences.length >= maxOccurrences) {
+        return occurrences;
+      }
+      occurrences.push(candidate);
+    }
+
+    // Stop runaway loops for UNTIL rules that can never produce another occurrence
+    if (rule.until && candidates.length === 0 && firstStart.plus({ months: period * rule.interval }) > rule.until) {
+      break;
+    }
+  }
+
+  return occurrences;
+}
+
+// Human readable summary, e.g. "Every 2 weeks on Tue, Thu, 10 times"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = rule.freq === "DAILY" ? "day" : rule.freq === "WEEKLY" ? "week" : "month";
+  let description = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay?.length) {
+    description += ` on ${rule.byDay.map(day => WEEKDAY_NAMES[day]).join(", ")}`;
+  }
+  if (rule.count) {
+    description += `, ${rule.count} ${rule.count === 1 ? "time" : "times"}`;
+  }
+  if (rule.until) {
+    description += ` until ${rule.until.toFormat("MMM d, yyyy")}`;
+  }
+
+  return description;
+}
@@ -0,0 +1,68 @@
+// Account-wide roles. Branch staff and managers are patrons with staff assignments at one or more branches.
+export const accountRoles = ["patron", "system_admin"] as const;
+export type AccountRole = typeof accountRoles[number];
+
+// Roles a user can hold at a single branch (locations.id)
+export const branchRoles = ["branch_staff", "branch_manager"] as const;
+export type BranchRole = typeof branchRoles[number];
+
+export type UserRole = AccountRole | BranchRole;
+
+export type Permission =
+  | "manage_reservations" // view, edit, cancel and check in anyone's bookings
+  | "manage_rooms" // create and edit rooms
+  | "manage_branch" // edit the branch, its opening hours and closures
+  | "view_reports" // analytics and audit history
+  | "manage_system"; // add branches, pricing, promo codes and staff assignments
+
+// What each branch role may do at the branches it is assigned to. System admins may do everything everywhere.
+const branchPermissions: Record<BranchRole, Permission[]> = {
+  branch_staff: ["manage_reservations"],
+  branch_manager: ["manage_reservations", "manage_rooms", "manage_branch", "view_reports"]
+};
+
+export interface StaffGrant {
+  locationId: number;
+  role: string;
+}
+
+// The parts of a user that decide what they can access
+export interface AccessProfile {
+  role: string | null;
+  staffAssignments: StaffGrant[];
+}
+
+export const isSystemAdmin = (user: AccessProfile | null | undefined) => user?.role === "system_admin";
+
+// Anyone working at a branch or across the whole system
+export const isStaff = (user: AccessProfile | null | undefined) =>
+  !!user && (isSystemAdmin(user) || user.staffAssignments.length > 0);
+
+const grants = (assignment: StaffGrant, permission: Permission) =>
+  (branchPermissions[assignment.role as BranchRole] ?? []).includes(permission);
+
+// Whether the user has a permission at a branch, or at any branch when locationId is omitted
+export function can(user: AccessProfile | null | undefined, permission: Permission, locationId?: number): boolean {
+  if (!user) return false;
+  if (isSystemAdmin(user)) return true;
+  return user.staffAssignments.some(assignment =>
+    (locationId === undefined || assignment.locationId === locationId) && grants(assignment, permission)
+  );
+}
+
+// Branches where the user has a permission, or "all" for system admins
+export function permittedLocationIds(user: AccessProfile | null | undefined, permission: Permission): number[] | "all" {
+  if (isSystemAdmin(user)) return "all";
+  return Array.from(new Set(
+    (user?.staffAssignments ?? []).filter(assignment => grants(assignment, permission)).map(assignment => assignment.locationId)
+  ));
+}
+
+// Highest role the user holds anywhere, for display
+export function roleLabel(user: AccessProfile | null | undefined): string {
+  if (!user) return "Patron";
+  if (isSystemAdmin(user)) return "System Admin";
+  if (user.staffAssignments.some(assignment => assignment.role === "branch_manager")) return "Branch Manager";
+  if (user.staffAssignments.length > 0) return "Branch Staff";
+  return "Patron";
+}
@@ -0,0 +1,86 @@
+import { isFreeBetween, SLOT_MINUTES, type AvailabilitySlot } from "./availability";
+
+// What a patron asked for; times are minutes after midnight at each room's branch
+export interface SuggestionCriteria {
+  partySize: number;
+  durationMinutes: number;
+  earliestStartMinutes: number;
+  latestEndMinutes: number;
+  preferredStartMinutes?: number; // defaults to the start of the window
+  preferredLocationIds?: number[];
+}
+
+// A room that seats the party and has the requested features, with its slots on the day
+export interface SuggestionCandidate {
+  roomId: number;
+  locationId: number;
+  capacity: number;
+  slots: Pick<AvailabilitySlot, "startMinutes" | "status">[];
+  slotMinutes?: number;
+}
+
+export interface RoomSuggestion {
+  roomId: number;
+  locationId: number;
+  startMinutes: number;
+  endMinutes: number;
+  capacitySlack: number; // seats left empty
+  minutesFromPreferred: number;
+  score: number; // lower is a better fit
+}
+
+// How much each kind of misfit counts against a room: an empty seat costs the same as
+// starting half an hour away from the preferred time, and a branch the patron didn't pick costs three
+const SCORE_PER_EMPTY_SEAT = 1;
+const SCORE_PER_HALF_HOUR_AWAY = 1;
+const SCORE_OUTSIDE_PREFERRED_LOCATIONS = 3;
+
+export function suggestionScore(capacitySlack: number, minutesFromPreferred: number, atPreferredLocation: boolean): number {
+  return capacitySlack * SCORE_PER_EMPTY_SEAT
+    + (minutesFromPreferred / 30) * SCORE_PER_HALF_HOUR_AWAY
+    + (atPreferredLocation ? 0 : SCORE_OUTSIDE_PREFERRED_LOCATIONS);
+}
+
+// The best bookable time in each room, best fit first. Each room is offered once, at the free start
+// nearest the preferred time; ties go to the smaller room, then the earlier start.
+export function suggestRooms(candidates: SuggestionCandidate[], criteria: SuggestionCriteria, limit = 5): RoomSuggestion[] {
+  const preferredStart = criteria.preferredStartMinutes ?? criteria.earliestStartMinutes;
+  const preferredLocations = criteria.preferredLocationIds ?? [];
+
+  const suggestions: RoomSuggestion[] = [];
+  for (const candidate of candidates) {
+    if (candidate.capacity < criteria.partySize) {
+      continue;
+    }
+
+    const slotMinutes = candidate.slotMinutes ?? SLOT_MINUTES;
+    const starts = candidate.slots
+      .map(slot => slot.startMinutes)
+      .filter(start =>
+        start >= criteria.earliestStartMinutes &&
+        start + criteria.durationMinutes <= criteria.latestEndMinutes &&
+        isFreeBetween(candidate.slots, start, start + criteria.durationMinutes, slotMinutes)
+      )
+      .sort((a, b) => Math.abs(a - preferredStart) - Math.abs(b - preferredStart) || a - b);
+    if (starts.length === 0) {
+      continue;
+    }
+
+    const capacitySlack = candidate.capacity - criteria.partySize;
+    const minutesFromPreferred = Math.abs(starts[0] - preferredStart);
+    const atPreferredLocation = preferredLocations.length === 0 || preferredLocations.includes(candidate.locationId);
+    suggestions.push({
+      roomId: candidate.roomId,
+      locationId: candidate.locationId,
+      startMinutes: starts[0],
+      endMinutes: starts[0] + criteria.durationMinutes,
+      capacitySlack,
+      minutesFromPreferred,
+      score: suggestionScore(capacitySlack, minutesFromPreferred, atPreferredLocation)
+    });
+  }
+
+  return suggestions
+    .sort((a, b) => a.score - b.score || a.capacitySlack - b.capacitySlack || a.startMinutes - b.startMinutes)
+    .slice(0, limit);
+}
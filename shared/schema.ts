@@ -1,18 +1,48 @@
-import { pgTable, text, serial, integer, boolean, timestamp, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, jsonb, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AuditChanges } from "./audit";
+import { accountRoles, branchRoles } from "./roles";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "./time-zone";
+import { isSlotLength, MAX_BUFFER_MINUTES, SLOT_LENGTHS, SLOT_MINUTES } from "./availability";
 
-// Users table with admin flag
+// Users table; branch-level roles live in staff_assignments
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name"),
   email: text("email"),
-  isAdmin: boolean("is_admin").default(false),
+  emailVerifiedAt: timestamp("email_verified_at"), // Set when the patron follows the link sent to their email
+  role: text("role").notNull().default("patron"), // patron or system_admin
+  isAdmin: boolean("is_admin").default(false), // superseded by role; only read to migrate existing admins
+  calendarToken: text("calendar_token").unique(), // secret for the patron's .ics subscription feed
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0), // Wrong passwords since the last successful sign-in
+  lockedUntil: timestamp("locked_until"), // Sign-in refused until then after too many wrong passwords
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Single-use links emailed for password resets and email verification. Only a hash of the token is stored.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  purpose: text("purpose").notNull(), // password_reset, email_verification
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email").notNull(), // Address the link was sent to; verification only counts for this address
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Redeemed, or revoked by a later password reset
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Requests counted by the rate limiter when it is shared between app instances through Postgres
+export const rateLimitHits = pgTable("rate_limit_hits", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull(), // Rule and client, e.g. login-ip:203.0.113.7
+  hitAt: timestamp("hit_at").notNull()
+}, (table) => ({
+  keyHitAt: index("rate_limit_hits_key_hit_at").on(table.key, table.hitAt)
+}));
+
 // Locations (library branches)
 export const locations = pgTable("locations", {
   id: serial("id").primaryKey(),
@@ -23,9 +53,41 @@ export const locations = pgTable("locations", {
   zipCode: text("zip_code"),
   phoneNumber: text("phone_number"),
   description: text("description"),
+  timezone: text("timezone").notNull().default(DEFAULT_TIME_ZONE), // IANA zone of the branch's opening hours and bookings
+  slotMinutes: integer("slot_minutes").notNull().default(SLOT_MINUTES), // length of a bookable slot: 15, 30 or 60
   isActive: boolean("is_active").default(true)
 });
 
+// Weekly opening hours per location (times are "HH:mm" in the branch's local time)
+export const locationHours = pgTable("location_hours", {
+  id: serial("id").primaryKey(),
+  locationId: integer("location_id").notNull().references(() => locations.id),
+  dayOfWeek: integer("day_of_week").notNull(), // 0 = Sunday ... 6 = Saturday
+  openTime: text("open_time"),
+  closeTime: text("close_time"),
+  isClosed: boolean("is_closed").default(false)
+});
+
+// One-off full-day closures (holidays, staff training days, etc.)
+export const locationClosures = pgTable("location_closures", {
+  id: serial("id").primaryKey(),
+  locationId: integer("location_id").notNull().references(() => locations.id),
+  closureDate: date("closure_date").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Branch staff and managers: one row per user and branch they work at
+export const staffAssignments = pgTable("staff_assignments", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  locationId: integer("location_id").notNull().references(() => locations.id),
+  role: text("role").notNull(), // branch_staff or branch_manager
+  createdAt: timestamp("created_at").defaultNow()
+}, (table) => ({
+  userLocation: unique("staff_assignments_user_location").on(table.userId, table.locationId)
+}));
+
 // Rooms available for reservation
 export const rooms = pgTable("rooms", {
   id: serial("id").primaryKey(),
@@ -36,10 +98,42 @@ export const rooms = pgTable("rooms", {
   features: text("features").array(),
   floor: integer("floor"),
   roomNumber: text("room_number"),
+  roomType: text("room_type").default("study"), // study, group, conference; booking quotas can limit each type
+  slotMinutes: integer("slot_minutes"), // overrides the branch's slot length when set
+  setupBufferMinutes: integer("setup_buffer_minutes").notNull().default(0), // kept free before each booking
+  cleanupBufferMinutes: integer("cleanup_buffer_minutes").notNull().default(0), // kept free after each booking
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow()
 });
 
+// Time-bounded maintenance blocks (repairs, painting) during which a room can't be booked
+export const roomBlackouts = pgTable("room_blackouts", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().references(() => rooms.id),
+  startTime: timestamp("start_time").notNull(), // First (or only) block
+  endTime: timestamp("end_time").notNull(),
+  rrule: text("rrule"), // Optional RFC 5545 RRULE repeating the block, e.g. FREQ=WEEKLY;BYDAY=MO;COUNT=8
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Recurring reservation series; each occurrence is stored as its own reservation
+export const reservationSeries = pgTable("reservation_series", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().references(() => rooms.id),
+  userId: integer("user_id").references(() => users.id),
+  guestName: text("guest_name"),
+  guestEmail: text("guest_email"),
+  rrule: text("rrule").notNull(), // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=TU;COUNT=10
+  startTime: timestamp("start_time").notNull(), // First occurrence (DTSTART)
+  endTime: timestamp("end_time").notNull(),
+  purpose: text("purpose"),
+  notes: text("notes"),
+  status: text("status").default("active"), // active, cancelled
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at")
+});
+
 // Reservations
 export const reservations = pgTable("reservations", {
   id: serial("id").primaryKey(),
@@ -51,27 +145,125 @@ export const reservations = pgTable("reservations", {
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   purpose: text("purpose"),
-  status: text("status").default("pending_payment"),  // confirmed, cancelled, pending_payment, payment_failed
+  status: text("status").default("pending_payment"),  // confirmed, cancelled, pending_payment, pending_verification, payment_failed, expired, no_show
   confirmationCode: text("confirmation_code"),
+  // Guest bookings are held until the guest follows the link emailed to them; only a hash of that link's token is stored
+  guestVerificationTokenHash: text("guest_verification_token_hash"),
+  guestVerifiedAt: timestamp("guest_verified_at"),
   notes: text("notes"),
+  checkedInAt: timestamp("checked_in_at"), // Set when the patron checks in at the desk or room
   // Payment related fields
   stripePaymentIntentId: text("stripe_payment_intent_id"),
-  paymentStatus: text("payment_status").default("pending"), // pending, completed, failed, refunded
+  paymentStatus: text("payment_status").default("pending"), // pending, completed, failed, not_required, partially_refunded, refunded
   priceInCents: integer("price_in_cents"), // Store amount in cents (e.g., $5.00 = 500)
+  holdExpiresAt: timestamp("hold_expires_at"), // Unpaid (pending_payment) and unverified guest bookings are released after this
+  // Refund issued when the booking was cancelled
+  refundAmountInCents: integer("refund_amount_in_cents"),
+  stripeRefundId: text("stripe_refund_id"),
+  refundedAt: timestamp("refunded_at"),
+  // Promo code applied at checkout and the amount it took off priceInCents
+  promoCodeId: integer("promo_code_id").references(() => promoCodes.id),
+  promoDiscountInCents: integer("promo_discount_in_cents"),
+  // Recurring series fields; an exception is an occurrence that was edited on its own
+  seriesId: integer("series_id").references(() => reservationSeries.id),
+  isSeriesException: boolean("is_series_exception").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at")
 });
 
+// Pricing rules set by admins. Rate rules set the hourly price; discount rules take a percentage off.
+// Rules without a room or location apply to every branch.
+export const pricingRules = pgTable("pricing_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // Shown to patrons as the line item label, e.g. "Weekend rate"
+  type: text("type").notNull(), // rate, discount
+  locationId: integer("location_id").references(() => locations.id),
+  roomId: integer("room_id").references(() => rooms.id),
+  daysOfWeek: integer("days_of_week").array(), // 0 = Sunday ... 6 = Saturday; empty = every day
+  startTime: text("start_time"), // "HH:mm" window in the branch's local time; empty = all day
+  endTime: text("end_time"),
+  hourlyRateInCents: integer("hourly_rate_in_cents"), // Rate rules; 0 makes the room free
+  discountPercent: integer("discount_percent"), // Discount rules
+  audience: text("audience").default("all"), // all, registered, guest
+  priority: integer("priority").default(0), // Higher wins when several rules match
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at")
+});
+
+// Promo codes and fee-waiver vouchers entered at checkout. Codes are stored in upper case.
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  description: text("description"), // Internal note, e.g. which partner the code was issued to
+  discountType: text("discount_type").notNull(), // percent, fixed
+  discountValue: integer("discount_value").notNull(), // Percentage (100 waives the fee) or amount in cents
+  maxUses: integer("max_uses"), // null = unlimited
+  timesUsed: integer("times_used").default(0),
+  expiresAt: timestamp("expires_at"),
+  locationId: integer("location_id").references(() => locations.id), // Limit the code to one branch...
+  roomId: integer("room_id").references(() => rooms.id), // ...or one room
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Stripe webhook events that have already been handled, so replayed deliveries are ignored
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(), // Stripe event ID (evt_...)
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow()
+});
+
+// Outgoing emails. Each is stored before it is sent, so a failed delivery is retried instead of lost.
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  dedupeKey: text("dedupe_key").notNull().unique(), // e.g. booking_confirmed:42; the same notification is only queued once
+  template: text("template").notNull(), // booking_confirmed, payment_failed, booking_cancelled, room_unavailable, refund_issued, booking_reminder, verify_booking, password_reset, verify_email
+  reservationId: integer("reservation_id").references(() => reservations.id), // Null for account emails
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body").notNull(),
+  status: text("status").default("pending"), // pending, sent, failed (gave up after the last retry)
+  attempts: integer("attempts").default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Append-only history of changes to reservations, rooms and locations. Rows are never updated or deleted.
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entityType: text("entity_type").notNull(), // reservation, room, location
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // created, updated, the reservation status it moved to, hours_updated, ...
+  actorType: text("actor_type").notNull(), // user, guest, admin, system, stripe_webhook
+  actorId: integer("actor_id").references(() => users.id),
+  actorLabel: text("actor_label"), // Job name, Stripe event ID or guest email
+  changes: jsonb("changes").$type<AuditChanges>().notNull(),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+// Reservation statuses that no longer hold the room; every other status blocks overlapping bookings
+export const releasedReservationStatuses = ["cancelled", "payment_failed", "expired", "no_show"];
+
+// Unconfirmed bookings that keep the room until holdExpiresAt: unpaid checkouts and guest bookings awaiting email verification
+export const holdStatuses = ["pending_payment", "pending_verification"];
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   name: true,
   email: true,
-  isAdmin: true,
   createdAt: true
+}).extend({
+  role: z.enum(accountRoles).optional()
 });
 
+const slotLengthMessage = `Expected a slot length of ${SLOT_LENGTHS.join(", ")} minutes`;
+
 export const insertLocationSchema = createInsertSchema(locations).pick({
   name: true,
   address: true,
@@ -80,7 +272,52 @@ export const insertLocationSchema = createInsertSchema(locations).pick({
   zipCode: true,
   phoneNumber: true,
   description: true,
+  timezone: true,
+  slotMinutes: true,
   isActive: true
+}).extend({
+  timezone: z.string().refine(isValidTimeZone, "Expected an IANA time zone such as America/Chicago").optional(),
+  slotMinutes: z.number().int().refine(isSlotLength, slotLengthMessage).optional()
+});
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected a time in HH:mm format");
+
+export const insertLocationHoursSchema = createInsertSchema(locationHours, {
+  dayOfWeek: z.number().int().min(0).max(6),
+  openTime: timeOfDay.nullish(),
+  closeTime: timeOfDay.nullish()
+}).pick({
+  locationId: true,
+  dayOfWeek: true,
+  openTime: true,
+  closeTime: true,
+  isClosed: true
+});
+
+export const insertLocationClosureSchema = createInsertSchema(locationClosures, {
+  closureDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in yyyy-MM-dd format")
+}).pick({
+  locationId: true,
+  closureDate: true,
+  reason: true
+});
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens, {
+  purpose: z.enum(["password_reset", "email_verification"])
+}).pick({
+  userId: true,
+  purpose: true,
+  tokenHash: true,
+  email: true,
+  expiresAt: true
+});
+
+export const insertStaffAssignmentSchema = createInsertSchema(staffAssignments, {
+  role: z.enum(branchRoles)
+}).pick({
+  userId: true,
+  locationId: true,
+  role: true
 });
 
 export const insertRoomSchema = createInsertSchema(rooms).pick({
@@ -91,7 +328,25 @@ export const insertRoomSchema = createInsertSchema(rooms).pick({
   features: true,
   floor: true,
   roomNumber: true,
+  roomType: true,
+  slotMinutes: true,
+  setupBufferMinutes: true,
+  cleanupBufferMinutes: true,
   isActive: true
+}).extend({
+  slotMinutes: z.number().int().refine(isSlotLength, slotLengthMessage).nullish(),
+  setupBufferMinutes: z.number().int().min(0).max(MAX_BUFFER_MINUTES).optional(),
+  cleanupBufferMinutes: z.number().int().min(0).max(MAX_BUFFER_MINUTES).optional()
+});
+
+export const insertRoomBlackoutSchema = createInsertSchema(roomBlackouts, {
+  reason: z.string().trim().min(1, "Give a reason for the blackout")
+}).pick({
+  roomId: true,
+  startTime: true,
+  endTime: true,
+  rrule: true,
+  reason: true
 });
 
 export const insertReservationSchema = createInsertSchema(reservations).pick({
@@ -106,10 +361,84 @@ export const insertReservationSchema = createInsertSchema(reservations).pick({
   status: true,
   confirmationCode: true,
   notes: true,
+  guestVerificationTokenHash: true,
+  guestVerifiedAt: true,
   // Include payment fields in the insert schema
   stripePaymentIntentId: true,
   paymentStatus: true,
-  priceInCents: true
+  priceInCents: true,
+  holdExpiresAt: true,
+  refundAmountInCents: true,
+  stripeRefundId: true,
+  refundedAt: true,
+  promoCodeId: true,
+  promoDiscountInCents: true,
+  seriesId: true,
+  isSeriesException: true
+});
+
+export const insertPricingRuleSchema = createInsertSchema(pricingRules, {
+  type: z.enum(["rate", "discount"]),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).nullish(),
+  startTime: timeOfDay.nullish(),
+  endTime: timeOfDay.nullish(),
+  hourlyRateInCents: z.number().int().min(0).nullish(),
+  discountPercent: z.number().int().min(1).max(100).nullish(),
+  audience: z.enum(["all", "registered", "guest"]).optional()
+}).pick({
+  name: true,
+  type: true,
+  locationId: true,
+  roomId: true,
+  daysOfWeek: true,
+  startTime: true,
+  endTime: true,
+  hourlyRateInCents: true,
+  discountPercent: true,
+  audience: true,
+  priority: true,
+  isActive: true
+});
+
+export const insertPromoCodeSchema = createInsertSchema(promoCodes, {
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9_-]{3,32}$/, "Codes are 3-32 letters, digits, dashes or underscores"),
+  discountType: z.enum(["percent", "fixed"]),
+  discountValue: z.number().int().positive(),
+  maxUses: z.number().int().positive().nullish(),
+  expiresAt: z.coerce.date().nullish()
+}).pick({
+  code: true,
+  description: true,
+  discountType: true,
+  discountValue: true,
+  maxUses: true,
+  expiresAt: true,
+  locationId: true,
+  roomId: true,
+  isActive: true
+});
+
+export const insertOutboxEmailSchema = createInsertSchema(emailOutbox).pick({
+  dedupeKey: true,
+  template: true,
+  reservationId: true,
+  toAddress: true,
+  subject: true,
+  textBody: true,
+  htmlBody: true
+});
+
+export const insertReservationSeriesSchema = createInsertSchema(reservationSeries).pick({
+  roomId: true,
+  userId: true,
+  guestName: true,
+  guestEmail: true,
+  rrule: true,
+  startTime: true,
+  endTime: true,
+  purpose: true,
+  notes: true,
+  status: true
 });
 
 // Export types
@@ -119,8 +448,39 @@ export type User = typeof users.$inferSelect;
 export type InsertLocation = z.infer<typeof insertLocationSchema>;
 export type Location = typeof locations.$inferSelect;
 
+export type InsertLocationHours = z.infer<typeof insertLocationHoursSchema>;
+export type LocationHours = typeof locationHours.$inferSelect;
+
+export type InsertLocationClosure = z.infer<typeof insertLocationClosureSchema>;
+export type LocationClosure = typeof locationClosures.$inferSelect;
+
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type AuthToken = typeof authTokens.$inferSelect;
+
+export type InsertStaffAssignment = z.infer<typeof insertStaffAssignmentSchema>;
+export type StaffAssignment = typeof staffAssignments.$inferSelect;
+
 export type InsertRoom = z.infer<typeof insertRoomSchema>;
 export type Room = typeof rooms.$inferSelect;
 
+export type InsertRoomBlackout = z.infer<typeof insertRoomBlackoutSchema>;
+export type RoomBlackout = typeof roomBlackouts.$inferSelect;
+
 export type InsertReservation = z.infer<typeof insertReservationSchema>;
 export type Reservation = typeof reservations.$inferSelect;
+
+export type InsertReservationSeries = z.infer<typeof insertReservationSeriesSchema>;
+export type ReservationSeries = typeof reservationSeries.$inferSelect;
+
+export type InsertPricingRule = z.infer<typeof insertPricingRuleSchema>;
+export type PricingRule = typeof pricingRules.$inferSelect;
+
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type PromoCode = typeof promoCodes.$inferSelect;
+
+export type InsertOutboxEmail = z.infer<typeof insertOutboxEmailSchema>;
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+
+export type StripeEventRecord = typeof stripeEvents.$inferSelect;
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
@@ -0,0 +1,21 @@
+import { DateTime, IANAZone } from "luxon";
+
+// Zone of branches created before each branch had its own, and of anything not tied to a branch
+export const DEFAULT_TIME_ZONE = "America/New_York";
+
+export const isValidTimeZone = (timeZone: string) => IANAZone.isValidZone(timeZone);
+
+// IANA zone a branch's opening hours and bookings are in
+export const locationTimeZone = (location?: { timezone?: string | null } | null) =>
+  location?.timezone || DEFAULT_TIME_ZONE;
+
+// A time sent by a client. Times with a UTC offset are taken as given; times without one are
+// wall-clock times at the branch, e.g. "2026-03-10T14:00:00" is 2pm wherever the room is.
+export const parseBranchTime = (value: string, timeZone: string) => DateTime.fromISO(value, { zone: timeZone });
+
+// The same instant as an ISO string with the branch's UTC offset, e.g. "2026-03-10T14:00:00.000-04:00"
+export const toBranchISO = (date: Date, timeZone: string) => DateTime.fromJSDate(date).setZone(timeZone).toISO()!;
+
+// A time from the API shown in the branch's zone, whatever zone the browser is in
+export const branchDateTime = (value: string | Date, timeZone: string) =>
+  (typeof value === "string" ? DateTime.fromISO(value, { setZone: true }) : DateTime.fromJSDate(value)).setZone(timeZone);
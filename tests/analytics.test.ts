@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  cancellationStats,
+  occupancyReport,
+  peakHourHeatmap,
+  revenueByPaymentStatus,
+  type AnalyticsReservation
+} from '../shared/analytics';
+
+const zone = 'America/New_York';
+const rooms = [
+  { id: 1, name: 'Group Study Room', locationId: 1 },
+  { id: 2, name: 'Study Room 1', locationId: 1 }
+];
+// Open 09:00-17:00 every day
+const schedules = [{
+  locationId: 1,
+  hours: [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, openTime: '09:00', closeTime: '17:00', isClosed: false })),
+  closures: [{ closureDate: '2026-03-11' }]
+}];
+
+// Booking on 2026-03-DD in Eastern time (UTC-4 in mid-March)
+const booking = (roomId: number, day: number, start: string, end: string, fields: Partial<AnalyticsReservation> = {}): AnalyticsReservation => ({
+  roomId,
+  startTime: new Date(`2026-03-${day}T${start}:00-04:00`),
+  endTime: new Date(`2026-03-${day}T${end}:00-04:00`),
+  status: 'confirmed',
+  paymentStatus: 'completed',
+  priceInCents: 1000,
+  refundAmountInCents: null,
+  ...fields
+});
+
+describe('analytics', () => {
+  it('measures occupancy against opening hours per room, branch, day and hour', () => {
+    const report = occupancyReport(
+      [
+        booking(1, 10, '09:30', '11:00'),
+        booking(2, 10, '13:00', '17:00'),
+        booking(1, 12, '09:00', '10:00', { status: 'cancelled' })
+      ],
+      rooms,
+      schedules,
+      { from: '2026-03-10', to: '2026-03-12' },
+      zone
+    );
+
+    const groupRoom = report.rooms.find(room => room.roomId === 1)!;
+    // Open 8 hours on the 10th and 12th; closed on the 11th
+    expect(groupRoom).toMatchObject({ bookedHours: 1.5, openHours: 16, occupancyRate: 0.0938 });
+    expect(groupRoom.byDay.map(day => day.occupancyRate)).toEqual([0.1875, null, 0]);
+    expect(groupRoom.byHour.find(row => row.hour === 9)).toMatchObject({ bookedHours: 0.5, openHours: 2 });
+
+    expect(report.locations).toEqual([expect.objectContaining({ locationId: 1, bookedHours: 5.5, openHours: 32 })]);
+  });
+
+  it('groups revenue by payment status and rates cancellations and no-shows', () => {
+    const reservations = [
+      booking(1, 10, '09:00', '10:00'),
+      booking(1, 10, '10:00', '11:00', { status: 'cancelled', paymentStatus: 'partially_refunded', refundAmountInCents: 500 }),
+      booking(2, 10, '09:00', '10:00', { status: 'no_show' }),
+      booking(2, 10, '11:00', '12:00', { status: 'expired', paymentStatus: 'pending', priceInCents: 500 })
+    ];
+
+    expect(revenueByPaymentStatus(reservations)).toEqual([
+      { paymentStatus: 'completed', reservationCount: 2, grossInCents: 2000, refundedInCents: 0, netInCents: 2000 },
+      { paymentStatus: 'partially_refunded', reservationCount: 1, grossInCents: 1000, refundedInCents: 500, netInCents: 500 },
+      { paymentStatus: 'pending', reservationCount: 1, grossInCents: 500, refundedInCents: 0, netInCents: 500 }
+    ]);
+
+    expect(cancellationStats(reservations, new Date('2026-03-20T00:00:00Z'))).toEqual({
+      totalReservations: 3,
+      cancelled: 1,
+      cancellationRate: 0.3333,
+      attended: 1,
+      noShows: 1,
+      noShowRate: 0.5
+    });
+  });
+
+  it('builds a day-of-week by hour heatmap of booked hours', () => {
+    const cells = peakHourHeatmap([booking(1, 10, '09:30', '11:00'), booking(2, 17, '10:00', '11:00')], zone);
+    expect(cells).toEqual([
+      { dayOfWeek: 2, hour: 9, bookedHours: 0.5, reservationCount: 1 },
+      { dayOfWeek: 2, hour: 10, bookedHours: 2, reservationCount: 2 }
+    ]);
+  });
+});
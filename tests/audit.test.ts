@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { describeAuditActor, diffFields, reservationAuditAction } from '../shared/audit';
+
+describe('audit', () => {
+  it('diffs only the fields that changed, with dates as ISO strings', () => {
+    const before = { id: 1, status: 'pending_payment', notes: null, startTime: new Date('2026-03-10T13:00:00Z'), updatedAt: new Date('2026-03-01T00:00:00Z') };
+    const after = { ...before, status: 'confirmed', startTime: new Date('2026-03-10T14:00:00Z'), updatedAt: new Date('2026-03-02T00:00:00Z') };
+
+    expect(diffFields(before, after)).toEqual({
+      status: { from: 'pending_payment', to: 'confirmed' },
+      startTime: { from: '2026-03-10T13:00:00.000Z', to: '2026-03-10T14:00:00.000Z' }
+    });
+    expect(diffFields(before, { ...before })).toEqual({});
+    expect(diffFields(null, { closureDate: '2026-12-25', reason: undefined })).toEqual({
+      closureDate: { from: null, to: '2026-12-25' }
+    });
+  });
+
+  it('names reservation changes after their new status', () => {
+    expect(reservationAuditAction({ status: { from: 'pending_payment', to: 'confirmed' } })).toBe('confirmed');
+    expect(reservationAuditAction({ notes: { from: null, to: 'Bring a projector' } })).toBe('updated');
+  });
+
+  it('describes who made a change', () => {
+    expect(describeAuditActor({ actorType: 'admin', actorId: 1, actorLabel: null })).toBe('Staff #1');
+    expect(describeAuditActor({ actorType: 'system', actorId: null, actorLabel: 'hold-expiry' })).toBe('System (hold-expiry)');
+    expect(describeAuditActor({ actorType: 'stripe_webhook', actorId: null, actorLabel: 'evt_123' })).toBe('Stripe webhook (evt_123)');
+  });
+});
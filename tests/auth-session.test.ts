@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import http, { type IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { scryptSync } from 'crypto';
+import express from 'express';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import type { User } from '../shared/schema';
+
+// Scrypt hash in the "hash.salt" form auth.ts stores
+const hashed = (password: string, salt = 'fixture-salt') => `${scryptSync(password, salt, 64).toString('hex')}.${salt}`;
+
+const user = {
+  id: 7,
+  username: 'jordan',
+  password: hashed('correct horse'),
+  name: 'Jordan',
+  email: 'jordan@example.com',
+  role: 'patron',
+  isAdmin: false,
+  failedLoginAttempts: 0,
+  lockedUntil: null
+} as unknown as User;
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+vi.mock('../server/storage', () => {
+  const MemoryStore = createMemoryStore(session);
+  return {
+    storage: {
+      sessionStore: new MemoryStore({ checkPeriod: 0 }),
+      getUser: async (id: number) => (id === user.id ? user : undefined),
+      getUserByUsername: async (username: string) => (username === user.username ? user : undefined),
+      getStaffAssignmentsByUser: async () => [{ locationId: 2, role: 'branch_staff' }]
+    }
+  };
+});
+
+const { setupAuth, sessionUser } = await import('../server/auth');
+
+// POST JSON to the test server and return the status and Set-Cookie header
+const post = (port: number, path: string, body: unknown) =>
+  new Promise<{ status: number; cookie: string | undefined }>((resolve, reject) => {
+    const request = http.request(
+      { host: '127.0.0.1', port, path, method: 'POST', headers: { 'Content-Type': 'application/json' } },
+      response => {
+        response.resume();
+        response.on('end', () => resolve({ status: response.statusCode!, cookie: response.headers['set-cookie']?.[0] }));
+      }
+    );
+    request.on('error', reject);
+    request.end(JSON.stringify(body));
+  });
+
+// A WebSocket handshake as the server sees it
+const handshake = (cookie?: string) => ({ url: '/ws', headers: cookie ? { cookie } : {} }) as unknown as IncomingMessage;
+
+describe('WebSocket session authentication', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    setupAuth(app);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  it('reads the user signed in over HTTP from the session cookie', async () => {
+    const login = await post(port, '/api/login', { username: 'jordan', password: 'correct horse' });
+    expect(login.status).toBe(200);
+    expect(login.cookie).toBeDefined();
+
+    const signedIn = await sessionUser(handshake(login.cookie!.split(';')[0]));
+    expect(signedIn).toMatchObject({ id: 7, username: 'jordan', staffAssignments: [{ locationId: 2, role: 'branch_staff' }] });
+  });
+
+  it('treats connections without a valid session as anonymous', async () => {
+    expect(await sessionUser(handshake())).toBeUndefined();
+    expect(await sessionUser(handshake('connect.sid=s%3Aforged.signature'))).toBeUndefined();
+  });
+});
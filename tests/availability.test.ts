@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { computeDayAvailability, conflictWindow, isFreeBetween, slotStarts } from '../shared/availability';
+
+// Open 9-17 on weekdays and 10-14 on Saturdays, closed Sundays
+const hours = [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({
+  dayOfWeek,
+  openTime: dayOfWeek === 6 ? '10:00' : '09:00',
+  closeTime: dayOfWeek === 6 ? '14:00' : '17:00',
+  isClosed: dayOfWeek === 0
+}));
+
+describe('availability', () => {
+  it('keeps the same columns every day of the week', () => {
+    expect(slotStarts(hours)).toEqual([9, 10, 11, 12, 13, 14, 15, 16].map(hour => hour * 60));
+    expect(slotStarts(hours, 30)).toHaveLength(16);
+  });
+
+  it('marks cells busy where a room is booked and closed outside opening hours', () => {
+    // Tuesday 10 March 2026; the booking is 11:00-13:00 in Denver
+    const { window, rooms } = computeDayAvailability({
+      date: '2026-03-10',
+      timeZone: 'America/Denver',
+      hours,
+      closures: [],
+      rooms: [{ roomId: 1 }, { roomId: 2 }],
+      busy: [{ roomId: 1, startTime: new Date('2026-03-10T17:00:00Z'), endTime: new Date('2026-03-10T19:00:00Z') }]
+    });
+
+    expect(window).toEqual({ openMinutes: 540, closeMinutes: 1020 });
+    expect(rooms[0].slots.filter(slot => slot.status === 'busy').map(slot => slot.startTime))
+      .toEqual(['2026-03-10T11:00:00.000-06:00', '2026-03-10T12:00:00.000-06:00']);
+    expect(rooms[1].slots.every(slot => slot.status === 'free')).toBe(true);
+    expect(isFreeBetween(rooms[0].slots, 9 * 60, 11 * 60)).toBe(true);
+    expect(isFreeBetween(rooms[0].slots, 10 * 60, 12 * 60)).toBe(false);
+
+    const saturday = computeDayAvailability({ date: '2026-03-14', timeZone: 'America/Denver', hours, closures: [], rooms: [{ roomId: 1 }], busy: [] });
+    expect(saturday.rooms[0].slots.map(slot => slot.status))
+      .toEqual(['closed', 'free', 'free', 'free', 'free', 'closed', 'closed', 'closed']);
+  });
+
+  it('splits the day into each room\'s own slot length', () => {
+    const { rooms } = computeDayAvailability({
+      date: '2026-03-10',
+      timeZone: 'America/New_York',
+      hours,
+      closures: [],
+      rooms: [{ roomId: 1, slotMinutes: 30 }, { roomId: 2 }],
+      busy: [{ roomId: 1, startTime: new Date('2026-03-10T14:30:00Z'), endTime: new Date('2026-03-10T15:00:00Z') }]
+    });
+
+    expect(rooms[0].slots).toHaveLength(16);
+    expect(rooms[0].slots.filter(slot => slot.status === 'busy').map(slot => slot.startMinutes)).toEqual([10 * 60 + 30]);
+    expect(rooms[1]).toMatchObject({ slotMinutes: 60 });
+    expect(rooms[1].slots).toHaveLength(8);
+    expect(isFreeBetween(rooms[0].slots, 10 * 60, 10 * 60 + 30, 30)).toBe(true);
+    expect(isFreeBetween(rooms[0].slots, 10 * 60, 11 * 60, 30)).toBe(false);
+  });
+
+  it('keeps the room\'s setup and cleanup time around bookings unbookable', () => {
+    // Booked 11:00-12:00 in New York; 15 minutes of setup before and 30 of cleanup after
+    const { rooms } = computeDayAvailability({
+      date: '2026-03-10',
+      timeZone: 'America/New_York',
+      hours,
+      closures: [],
+      rooms: [{ roomId: 1, slotMinutes: 15, setupBufferMinutes: 15, cleanupBufferMinutes: 30 }],
+      busy: [{ roomId: 1, startTime: new Date('2026-03-10T15:00:00Z'), endTime: new Date('2026-03-10T16:00:00Z') }]
+    });
+
+    const statusAt = (minutes: number) => rooms[0].slots.find(slot => slot.startMinutes === minutes)?.status;
+    expect(statusAt(10 * 60)).toBe('free');
+    expect(statusAt(10 * 60 + 15)).toBe('buffer');
+    expect(statusAt(11 * 60)).toBe('busy');
+    expect(statusAt(12 * 60 + 30)).toBe('buffer');
+    expect(statusAt(12 * 60 + 45)).toBe('free');
+    expect(isFreeBetween(rooms[0].slots, 9 * 60, 10 * 60 + 15, 15)).toBe(true);
+    expect(isFreeBetween(rooms[0].slots, 12 * 60 + 30, 13 * 60, 15)).toBe(false);
+  });
+
+  it('widens the conflict window by both buffers on each side', () => {
+    const window = conflictWindow(new Date('2026-03-10T15:00:00Z'), new Date('2026-03-10T16:00:00Z'), { setupBufferMinutes: 15, cleanupBufferMinutes: 30 });
+    expect(window).toEqual({ startTime: new Date('2026-03-10T14:15:00Z'), endTime: new Date('2026-03-10T16:45:00Z') });
+    expect(conflictWindow(new Date('2026-03-10T15:00:00Z'), new Date('2026-03-10T16:00:00Z'), {}))
+      .toEqual({ startTime: new Date('2026-03-10T15:00:00Z'), endTime: new Date('2026-03-10T16:00:00Z') });
+  });
+
+  it('closes every cell on closure dates', () => {
+    const { window, rooms } = computeDayAvailability({
+      date: '2026-12-25',
+      timeZone: 'America/New_York',
+      hours,
+      closures: [{ closureDate: '2026-12-25' }],
+      rooms: [{ roomId: 1 }],
+      busy: []
+    });
+    expect(window).toBeNull();
+    expect(rooms[0].slots.every(slot => slot.status === 'closed')).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { blackoutPeriods, findBlackoutPeriod } from '../shared/blackouts';
+import { computeDayAvailability } from '../shared/availability';
+
+// Painting on Monday 2 March 2026, 9:00-13:00 in New York
+const painting = {
+  id: 1,
+  roomId: 7,
+  startTime: new Date('2026-03-02T14:00:00Z'),
+  endTime: new Date('2026-03-02T18:00:00Z'),
+  rrule: null,
+  reason: 'Painting'
+};
+
+describe('room blackouts', () => {
+  it('repeats a recurring block at the same time at the branch', () => {
+    const periods = blackoutPeriods({ ...painting, rrule: 'FREQ=WEEKLY;COUNT=3' }, 'America/New_York');
+
+    // Daylight saving starts on 8 March, so the later blocks are an hour earlier in UTC
+    expect(periods.map(period => period.startTime.toISOString())).toEqual([
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+      '2026-03-16T13:00:00.000Z'
+    ]);
+    expect(periods[2]).toMatchObject({ blackoutId: 1, roomId: 7, endTime: new Date('2026-03-16T17:00:00Z'), reason: 'Painting' });
+  });
+
+  it('finds the block a booking runs into', () => {
+    const periods = blackoutPeriods(painting, 'America/New_York');
+
+    expect(findBlackoutPeriod(periods, new Date('2026-03-02T17:00:00Z'), new Date('2026-03-02T19:00:00Z'))).toMatchObject({ reason: 'Painting' });
+    expect(findBlackoutPeriod(periods, new Date('2026-03-02T18:00:00Z'), new Date('2026-03-02T19:00:00Z'))).toBeUndefined();
+  });
+
+  it('shows blocked cells as unavailable in the grid', () => {
+    const hours = [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, openTime: '09:00', closeTime: '17:00', isClosed: false }));
+    const { rooms } = computeDayAvailability({
+      date: '2026-03-02',
+      timeZone: 'America/New_York',
+      hours,
+      closures: [],
+      rooms: [{ roomId: 7 }],
+      busy: [],
+      blackouts: blackoutPeriods(painting, 'America/New_York')
+    });
+
+    expect(rooms[0].slots.map(slot => slot.status))
+      .toEqual(['blackout', 'blackout', 'blackout', 'blackout', 'free', 'free', 'free', 'free']);
+    expect(rooms[0].slots[0].reason).toBe('Painting');
+    expect(rooms[0].slots[4].reason).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Reservation, Room } from '../shared/schema';
+
+const room = { id: 3, locationId: 2, name: 'Study Room 3', roomType: 'study' } as Room;
+
+// The patron's existing bookings, as the storage mock returns them
+let reservations: Reservation[] = [];
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+vi.mock('../server/storage', () => ({
+  storage: {
+    getReservationsByUser: async () => reservations,
+    getAllRooms: async () => [room],
+    getRoomTimeZone: async () => 'America/Los_Angeles',
+    getLocation: async () => ({ id: 2, timezone: 'America/Los_Angeles' })
+  },
+  isActiveReservation: (reservation: Reservation) => reservation.status !== 'cancelled'
+}));
+
+const { checkBookingQuota, checkBookingQuotas, getBookingAllowance } = await import('../server/booking-quota');
+
+const now = new Date('2026-03-09T16:00:00Z'); // Monday morning in Los Angeles
+
+// One hour from `start` (UTC)
+const hour = (start: string) => ({ startTime: new Date(start), endTime: new Date(new Date(start).getTime() + 60 * 60 * 1000) });
+
+const reservation = (id: number, start: string) => ({ id, roomId: room.id, status: 'confirmed', ...hour(start) }) as Reservation;
+
+describe('booking quota checks', () => {
+  it('counts the earlier occurrences of a series against the later ones', async () => {
+    reservations = [];
+    const weekly = [10, 17, 24, 31].map(day => hour(`2026-03-${day}T17:00:00Z`))
+      .concat(hour('2026-04-07T17:00:00Z'), hour('2026-04-14T17:00:00Z'));
+
+    const violations = await checkBookingQuotas(7, room, weekly, [], now);
+    expect(violations.slice(0, 5)).toEqual([null, null, null, null, null]);
+    expect(violations[5]).toMatchObject({ limit: 'active_reservations', allowed: 5, used: 5 });
+  });
+
+  it('leaves a reservation being moved out of the count', async () => {
+    reservations = [reservation(1, '2026-03-10T16:00:00Z'), reservation(2, '2026-03-10T17:00:00Z'), reservation(3, '2026-03-10T18:00:00Z')];
+    const moved = hour('2026-03-10T20:00:00Z');
+
+    expect(await checkBookingQuota(7, room, moved.startTime, new Date(moved.endTime.getTime() + 60 * 60 * 1000), [], now))
+      .toMatchObject({ limit: 'hours_per_day', used: 3 });
+    expect(await checkBookingQuota(7, room, moved.startTime, new Date(moved.endTime.getTime() + 60 * 60 * 1000), [3], now)).toBeNull();
+  });
+
+  it('counts the allowance in the branch time zone', async () => {
+    // 11pm Monday in Los Angeles is already Tuesday in New York
+    reservations = [reservation(1, '2026-03-10T06:00:00Z')];
+
+    const allowance = await getBookingAllowance(7, 2, now);
+    expect(allowance.hoursToday).toMatchObject({ used: 1, remaining: 3 });
+  });
+});
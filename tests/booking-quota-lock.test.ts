@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import type { InsertReservation } from '../shared/schema';
+import type { QuotaViolation } from '../shared/booking-quota';
+import type { AuditActor } from '../shared/audit';
+
+// Statements run in the booking transaction, with their parameters
+const executed: { sql: string; params: unknown[] }[] = [];
+const tx = {
+  execute: async (query: SQL) => {
+    const { sql, params } = new PgDialect().sqlToQuery(query);
+    executed.push({ sql, params });
+  }
+};
+
+vi.mock('../server/db', () => ({
+  db: { transaction: async (run: (transaction: typeof tx) => Promise<unknown>) => run(tx) },
+  pool: {}
+}));
+vi.mock('connect-pg-simple', () => ({ default: () => class {} }));
+
+const { DatabaseStorage } = await import('../server/storage');
+const { QuotaExceededError } = await import('../server/errors');
+
+const actor: AuditActor = { type: 'user', userId: 7 };
+
+const booking: InsertReservation = {
+  roomId: 3,
+  userId: 7,
+  guestName: 'Sam',
+  guestEmail: 'sam@example.com',
+  reservationDate: '2026-03-10',
+  startTime: new Date('2026-03-10T10:00:00Z'),
+  endTime: new Date('2026-03-10T11:00:00Z'),
+  status: 'pending_payment'
+};
+
+const violation = { limit: 'hours_per_day', allowed: 4, used: 4, requested: 1, message: 'Daily limit reached' } as QuotaViolation;
+
+describe('booking quota lock', () => {
+  it("checks the quota under the patron's lock and saves nothing over it", async () => {
+    const storage = new DatabaseStorage();
+    vi.spyOn(storage, 'getRoomTimeZone').mockResolvedValue('UTC');
+
+    let lockedWhenChecked = false;
+    const checkQuota = vi.fn(async () => {
+      lockedWhenChecked = executed.length === 1;
+      return violation;
+    });
+
+    const err = await storage.createReservation(booking, actor, checkQuota).catch(e => e);
+    expect(err).toBeInstanceOf(QuotaExceededError);
+    expect(err.violation).toBe(violation);
+
+    expect(lockedWhenChecked).toBe(true);
+    // Only the patron's lock was taken: the room was never locked and nothing was inserted
+    expect(executed).toEqual([{ sql: "SELECT pg_advisory_xact_lock(hashtext('booking_quota'), $1)", params: [7] }]);
+  });
+});
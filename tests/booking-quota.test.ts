@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { defaultBookingQuota, findQuotaViolation, remainingAllowance, type QuotaBooking } from '../shared/booking-quota';
+
+const zone = 'America/New_York';
+const now = new Date('2026-03-09T13:00:00Z'); // Monday morning in New York
+
+// A booking on 2026-03-DD between two whole hours, Eastern time (UTC-4 in March after the switch)
+const booking = (day: number, startHour: number, endHour: number, roomType: string | null = 'study'): QuotaBooking => ({
+  startTime: new Date(`2026-03-${String(day).padStart(2, '0')}T${String(startHour + 4).padStart(2, '0')}:00:00Z`),
+  endTime: new Date(`2026-03-${String(day).padStart(2, '0')}T${String(endHour + 4).padStart(2, '0')}:00:00Z`),
+  roomType
+});
+
+describe('booking quotas', () => {
+  it('limits the hours booked per day and per week', () => {
+    const existing = [booking(10, 9, 12)];
+    expect(findQuotaViolation(defaultBookingQuota, existing, booking(10, 13, 14), now, zone)).toBeNull();
+    expect(findQuotaViolation(defaultBookingQuota, existing, booking(10, 13, 15), now, zone)).toMatchObject({
+      limit: 'hours_per_day', allowed: 4, used: 3, requested: 2
+    });
+
+    const week = [booking(10, 9, 12), booking(11, 9, 12), booking(12, 9, 12)];
+    expect(findQuotaViolation(defaultBookingQuota, week, booking(13, 9, 11), now, zone)).toMatchObject({ limit: 'hours_per_week', used: 9 });
+    // The following Monday starts a new week
+    expect(findQuotaViolation(defaultBookingQuota, week, booking(16, 9, 11), now, zone)).toBeNull();
+  });
+
+  it('limits upcoming reservations overall and per room type', () => {
+    const quota = { ...defaultBookingQuota, maxHoursPerDay: null, maxHoursPerWeek: null };
+    const groups = [booking(10, 9, 10, 'group'), booking(17, 9, 10, 'group')];
+    expect(findQuotaViolation(quota, groups, booking(18, 9, 10, 'group'), now, zone)).toMatchObject({ limit: 'room_type', roomType: 'group', used: 2 });
+    expect(findQuotaViolation(quota, groups, booking(18, 9, 10, 'study'), now, zone)).toBeNull();
+
+    // Bookings that have already finished no longer count
+    const past = [booking(2, 9, 10, 'group'), booking(3, 9, 10, 'group'), booking(4, 9, 10), booking(5, 9, 10), booking(6, 9, 10)];
+    expect(findQuotaViolation(quota, past, booking(18, 9, 10, 'group'), now, zone)).toBeNull();
+
+    const five = [1, 2, 3, 4, 5].map(offset => booking(16 + offset, 9, 10));
+    expect(findQuotaViolation(quota, five, booking(23, 9, 10), now, zone)).toMatchObject({ limit: 'active_reservations', allowed: 5 });
+  });
+
+  it('reports the remaining allowance', () => {
+    const allowance = remainingAllowance(defaultBookingQuota, [booking(9, 14, 16, 'group'), booking(11, 9, 12)], now, zone);
+    expect(allowance.hoursToday).toEqual({ limit: 4, used: 2, remaining: 2 });
+    expect(allowance.hoursThisWeek).toEqual({ limit: 10, used: 5, remaining: 5 });
+    expect(allowance.activeReservations).toEqual({ limit: 5, used: 2, remaining: 3 });
+    expect(allowance.roomTypes).toEqual([{ roomType: 'group', limit: 2, used: 1, remaining: 1 }]);
+  });
+});
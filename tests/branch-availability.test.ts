@@ -0,0 +1,44 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Location, Reservation } from '../shared/schema';
+
+// Auckland is 13 hours ahead of UTC in March, so its days straddle two UTC dates
+const location = { id: 4, name: 'Harbour', timezone: 'Pacific/Auckland', slotMinutes: 60 } as Location;
+
+const reservation = (id: number, start: string, end: string) =>
+  ({ id, roomId: 1, status: 'confirmed', startTime: new Date(start), endTime: new Date(end) }) as Reservation;
+
+const reservations = [
+  reservation(1, '2026-03-09T20:00:00Z', '2026-03-09T21:00:00Z'), // 9-10am on 10 March in Auckland
+  reservation(2, '2026-03-10T20:00:00Z', '2026-03-10T21:00:00Z') // 9-10am on 11 March in Auckland
+];
+
+const getReservationsBetween = vi.fn(async (from: Date, to: Date) =>
+  reservations.filter(r => r.startTime < to && r.endTime > from));
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+vi.mock('../server/storage', () => ({
+  storage: {
+    getRoomsByLocation: async () => [{ id: 1, locationId: 4, name: 'Room 1', capacity: 4, features: [], isActive: true, setupBufferMinutes: 0, cleanupBufferMinutes: 0 }],
+    getLocationHours: async () => [0, 1, 2, 3, 4, 5, 6].map(dayOfWeek => ({ dayOfWeek, openTime: '08:00', closeTime: '18:00', isClosed: false })),
+    getLocationClosures: async () => [],
+    getReservationsBetween,
+    getRoomBlackoutsByLocation: async () => []
+  },
+  isActiveReservation: (r: Reservation) => r.status !== 'cancelled'
+}));
+
+const { loadBranchAvailability } = await import('../server/availability');
+
+describe('branch availability', () => {
+  it('loads the bookings of the branch day, not the server day', async () => {
+    const availability = await loadBranchAvailability(location, '2026-03-10');
+
+    const [from, to] = getReservationsBetween.mock.calls[0];
+    expect(from.getTime()).toBeLessThanOrEqual(new Date('2026-03-09T11:00:00Z').getTime());
+    expect(to.getTime()).toBeGreaterThanOrEqual(new Date('2026-03-10T11:00:00Z').getTime());
+
+    const busy = availability.rooms[0].slots.filter(slot => slot.status === 'busy');
+    expect(busy).toHaveLength(1);
+    expect(busy[0]).toMatchObject({ startTime: '2026-03-10T09:00:00.000+13:00' });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type Stripe from 'stripe';
+import type { Reservation } from '../shared/schema';
+
+const updateReservation = vi.fn(async (id: number, changes: Partial<Reservation>) => ({ ...paidReservation, id, ...changes }));
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+vi.mock('../server/storage', () => ({
+  storage: { updateReservation, releasePromoCode: async () => {} }
+}));
+
+const { cancelWithRefund } = await import('../server/cancellation');
+
+const HOUR = 60 * 60 * 1000;
+const paidReservation = {
+  id: 12,
+  roomId: 1,
+  status: 'confirmed',
+  paymentStatus: 'completed',
+  priceInCents: 2000,
+  stripePaymentIntentId: 'pi_12',
+  startTime: new Date(Date.now() + 72 * HOUR),
+  endTime: new Date(Date.now() + 73 * HOUR),
+  promoCodeId: null
+} as Reservation;
+
+const actor = { type: 'system', label: 'test' } as const;
+
+// Refunds issued so far, as Stripe would list them for the payment intent
+let refunds: Stripe.Refund[] = [];
+const create = vi.fn(async (params: Stripe.RefundCreateParams) => {
+  const refund = { id: `re_${refunds.length + 1}`, amount: params.amount, status: 'succeeded', metadata: params.metadata } as Stripe.Refund;
+  refunds.push(refund);
+  return refund;
+});
+// Status of each PaymentIntent; cancelling one is recorded
+let intents: Record<string, string> = {};
+const cancelIntent = vi.fn(async (id: string) => ({ id, status: 'canceled' }));
+const stripe = {
+  refunds: { create, list: async () => ({ data: refunds }) },
+  paymentIntents: { retrieve: async (id: string) => ({ id, status: intents[id] }), cancel: cancelIntent }
+} as unknown as Stripe;
+
+describe('cancelling with a refund', () => {
+  beforeEach(() => {
+    refunds = [];
+    intents = {};
+    create.mockClear();
+    cancelIntent.mockClear();
+    updateReservation.mockClear();
+  });
+
+  it('keys the refund by its amount', async () => {
+    await cancelWithRefund(stripe, paidReservation, actor);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create.mock.calls[0][0]).toMatchObject({ payment_intent: 'pi_12', amount: 2000 });
+    expect(create.mock.calls[0][1]).toEqual({ idempotencyKey: 'reservation-12-cancellation-refund-2000' });
+    expect(updateReservation.mock.calls[0][1]).toMatchObject({ status: 'cancelled', refundAmountInCents: 2000, stripeRefundId: 're_1' });
+  });
+
+  it('reuses the first refund when a cancellation is retried under a different refund tier', async () => {
+    await cancelWithRefund(stripe, paidReservation, actor);
+    updateReservation.mockClear();
+
+    // By the retry the booking is close enough to only get a partial refund
+    const later = { ...paidReservation, startTime: new Date(Date.now() + 3 * HOUR), endTime: new Date(Date.now() + 4 * HOUR) };
+    await cancelWithRefund(stripe, later, actor);
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(updateReservation.mock.calls[0][1]).toMatchObject({ refundAmountInCents: 2000, stripeRefundId: 're_1', paymentStatus: 'refunded' });
+  });
+
+  it('closes the checkout of a cancelled hold so it can no longer be paid', async () => {
+    const hold = { ...paidReservation, status: 'pending_payment', paymentStatus: 'pending' } as Reservation;
+    intents.pi_12 = 'requires_payment_method';
+
+    await cancelWithRefund(stripe, hold, actor);
+
+    expect(create).not.toHaveBeenCalled();
+    expect(cancelIntent).toHaveBeenCalledWith('pi_12', { cancellation_reason: 'abandoned' });
+    expect(updateReservation.mock.calls[0][1]).toEqual({ status: 'cancelled' });
+  });
+});
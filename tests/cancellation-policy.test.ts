@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { defaultCancellationPolicy, quoteRefund } from '../shared/cancellation-policy';
+
+const start = new Date('2026-03-10T15:00:00Z');
+const hoursBefore = (hours: number) => new Date(start.getTime() - hours * 60 * 60 * 1000);
+
+describe('cancellation policy', () => {
+  it('refunds in full, in part or not at all depending on notice', () => {
+    expect(quoteRefund(defaultCancellationPolicy, 1000, start, hoursBefore(30))).toMatchObject({ tier: 'full', refundInCents: 1000 });
+    expect(quoteRefund(defaultCancellationPolicy, 1000, start, hoursBefore(24))).toMatchObject({ tier: 'full', refundInCents: 1000 });
+    expect(quoteRefund(defaultCancellationPolicy, 1000, start, hoursBefore(5))).toMatchObject({ tier: 'partial', refundInCents: 500 });
+    expect(quoteRefund(defaultCancellationPolicy, 1000, start, hoursBefore(1))).toMatchObject({ tier: 'none', refundInCents: 0 });
+  });
+
+  it('rounds partial refunds down to whole cents', () => {
+    const policy = { ...defaultCancellationPolicy, partialRefundPercent: 33 };
+    expect(quoteRefund(policy, 1000, start, hoursBefore(5)).refundInCents).toBe(330);
+    expect(quoteRefund(policy, 999, start, hoursBefore(5)).refundInCents).toBe(329);
+  });
+
+  it('has nothing to refund for unpaid bookings and refunds staff cancellations in full', () => {
+    expect(quoteRefund(defaultCancellationPolicy, 0, start, hoursBefore(30)).tier).toBe('not_paid');
+    expect(quoteRefund(defaultCancellationPolicy, 1000, start, hoursBefore(1), true)).toMatchObject({ tier: 'full', refundInCents: 1000 });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { CHECK_IN_OPENS_MINUTES, findCheckInProblem } from '../shared/check-in';
+
+const reservation = {
+  status: 'confirmed',
+  checkedInAt: null,
+  startTime: new Date('2026-03-10T15:00:00Z'),
+  endTime: new Date('2026-03-10T17:00:00Z')
+};
+const minutesFromStart = (minutes: number) => new Date(reservation.startTime.getTime() + minutes * 60 * 1000);
+
+describe('check-in window', () => {
+  it('opens shortly before the start and closes when the booking ends', () => {
+    expect(findCheckInProblem(reservation, minutesFromStart(-CHECK_IN_OPENS_MINUTES - 1))).toMatch(/opens/);
+    expect(findCheckInProblem(reservation, minutesFromStart(-CHECK_IN_OPENS_MINUTES))).toBeNull();
+    expect(findCheckInProblem(reservation, minutesFromStart(90))).toBeNull();
+    expect(findCheckInProblem(reservation, minutesFromStart(120))).toMatch(/ended/);
+  });
+
+  it('only accepts confirmed bookings that have not been checked in', () => {
+    const now = minutesFromStart(5);
+    expect(findCheckInProblem({ ...reservation, checkedInAt: now }, now)).toMatch(/already been checked in/);
+    expect(findCheckInProblem({ ...reservation, status: 'no_show' }, now)).toMatch(/released/);
+    expect(findCheckInProblem({ ...reservation, status: 'pending_payment' }, now)).toMatch(/confirmed/);
+    // Dates from the API arrive as ISO strings
+    expect(findCheckInProblem({ ...reservation, startTime: '2026-03-10T15:00:00Z', endTime: '2026-03-10T17:00:00Z' }, now)).toBeNull();
+  });
+});
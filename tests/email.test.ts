@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import net from 'net';
+import type { Reservation } from '../shared/schema';
+import { renderAccountEmail, renderReservationEmail } from '../server/email-templates';
+import { buildMimeMessage, SmtpError, SmtpTransport, type EmailMessage } from '../server/email-transport';
+
+const reservation = {
+  id: 7,
+  roomId: 1,
+  confirmationCode: 'LIB-123456',
+  startTime: new Date('2026-03-10T14:00:00Z'),
+  endTime: new Date('2026-03-10T16:00:00Z')
+} as Reservation;
+
+const context = {
+  recipientName: 'Sam <script>',
+  reservation,
+  roomName: 'Study Room A',
+  locationName: 'Main Branch',
+  timeZone: 'America/New_York',
+  appUrl: 'https://rooms.example.org'
+};
+
+const message: EmailMessage = {
+  from: 'Library <no-reply@library.test>',
+  to: 'patron@example.com',
+  subject: 'Booking confirmed: Café room',
+  text: 'Hello\n.\nBye',
+  html: '<p>Hello</p>'
+};
+
+// Fake SMTP server that replies to each command from a script and records what it received
+const startSmtpServer = (replies: Record<string, string>) => new Promise<{ port: number; received: string[]; close: () => void }>(resolve => {
+  const received: string[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    socket.write('220 smtp.test ready\r\n');
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        received.push(line);
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          }
+          continue;
+        }
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'DATA') inData = true;
+        socket.write(`${replies[verb] ?? ({ DATA: '354 end with .', QUIT: '221 bye' }[verb] ?? '250 ok')}\r\n`);
+        if (verb === 'QUIT') socket.end();
+      }
+    });
+  });
+  server.listen(0, '127.0.0.1', () => {
+    resolve({ port: (server.address() as net.AddressInfo).port, received, close: () => server.close() });
+  });
+});
+
+describe('email', () => {
+  it('renders text and escaped HTML with the booking in the branch timezone', () => {
+    const email = renderReservationEmail('booking_confirmed', context);
+
+    expect(email.subject).toBe('Booking confirmed: Study Room A');
+    expect(email.text).toContain('Time: 10:00 AM - 12:00 PM EDT');
+    expect(email.text).toContain('Confirmation code: LIB-123456');
+    expect(email.text).toContain('https://rooms.example.org/profile');
+    expect(email.html).toContain('Hello Sam &lt;script&gt;,');
+    expect(email.html).not.toContain('<script>');
+
+    const refund = renderReservationEmail('refund_issued', { ...context, refundInCents: 750 });
+    expect(refund.subject).toBe('Refund of $7.50 issued');
+
+    const unavailable = renderReservationEmail('room_unavailable', { ...context, refundInCents: 750, reason: 'Projector repair' });
+    expect(unavailable.text).toContain('taken out of use (Projector repair)');
+    expect(unavailable.text).toContain('A full refund of $7.50');
+  });
+
+  it('links guests to the manage-booking page instead of a profile', () => {
+    const guestContext = { ...context, reservation: { ...reservation, userId: null, guestEmail: 'sam@example.com' } as Reservation };
+
+    const verify = renderReservationEmail('verify_booking', { ...guestContext, verificationToken: 'abc+123' });
+    expect(verify.text).toContain('https://rooms.example.org/manage-booking?code=LIB-123456&token=abc%2B123');
+
+    const confirmed = renderReservationEmail('booking_confirmed', guestContext);
+    expect(confirmed.text).toContain('https://rooms.example.org/manage-booking?code=LIB-123456');
+    expect(confirmed.text).not.toContain('/profile');
+  });
+
+  it('sends account links that say when they expire', () => {
+    const reset = renderAccountEmail('password_reset', {
+      recipientName: 'Sam',
+      username: 'sam',
+      appUrl: 'https://rooms.example.org',
+      token: 'abc_123',
+      expiresInMinutes: 60
+    });
+
+    expect(reset.text).toContain('https://rooms.example.org/auth?reset=abc_123');
+    expect(reset.text).toContain('expires in 1 hour');
+    expect(reset.html).not.toContain('<table');
+  });
+
+  it('builds a multipart message with encoded subject and bodies', () => {
+    const mime = buildMimeMessage(message, new Date('2026-03-10T12:00:00Z'));
+
+    expect(mime).toContain('To: patron@example.com');
+    expect(mime).toContain(`Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`);
+    expect(mime).toContain('Content-Type: multipart/alternative;');
+    expect(mime).toContain(Buffer.from(message.text).toString('base64'));
+    expect(mime).toContain(Buffer.from(message.html).toString('base64'));
+  });
+
+  it('delivers a message over SMTP and reports rejected recipients', async () => {
+    const server = await startSmtpServer({ EHLO: '250-smtp.test\r\n250 AUTH PLAIN', AUTH: '235 accepted' });
+    try {
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, user: 'mailer', password: 'secret' });
+      await transport.send(message);
+
+      expect(server.received).toContain(`AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`);
+      expect(server.received).toContain('MAIL FROM:<no-reply@library.test>');
+      expect(server.received).toContain('RCPT TO:<patron@example.com>');
+      expect(server.received).toContain('QUIT');
+    } finally {
+      server.close();
+    }
+
+    const rejecting = await startSmtpServer({ RCPT: '550 no such user' });
+    try {
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: rejecting.port, secure: false });
+      await expect(transport.send(message)).rejects.toThrow(SmtpError);
+      await expect(transport.send(message)).rejects.toThrow(/550 no such user/);
+    } finally {
+      rejecting.close();
+    }
+  });
+});
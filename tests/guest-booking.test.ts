@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { generateConfirmationCode, guestEmailMatches } from '../server/guest-booking';
+
+describe('guest booking', () => {
+  it('generates unambiguous confirmation codes', () => {
+    const codes = Array.from({ length: 50 }, generateConfirmationCode);
+
+    codes.forEach(code => expect(code).toMatch(/^LIB-[A-HJKMNP-Z2-9]{8}$/));
+    expect(new Set(codes).size).toBe(codes.length);
+  });
+
+  it('matches guest bookings by email, ignoring case, until they are claimed', () => {
+    const guestBooking = { userId: null, guestEmail: 'Sam@Example.com' };
+
+    expect(guestEmailMatches(guestBooking, ' sam@example.com ')).toBe(true);
+    expect(guestEmailMatches(guestBooking, 'alex@example.com')).toBe(false);
+    expect(guestEmailMatches({ ...guestBooking, userId: 4 }, 'sam@example.com')).toBe(false);
+  });
+});
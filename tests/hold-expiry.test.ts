@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type Stripe from 'stripe';
+import type { InsertReservation } from '../shared/schema';
+import type { AuditActor } from '../shared/audit';
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+// The database session store is created on import; these tests run against MemStorage
+vi.mock('connect-pg-simple', () => ({ default: () => class {} }));
+vi.mock('../server/storage', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../server/storage')>();
+  return { ...actual, storage: new actual.MemStorage() };
+});
+
+const { storage } = await import('../server/storage');
+const { expireStaleHolds, PENDING_HOLD_TTL_MINUTES } = await import('../server/hold-expiry');
+
+const actor: AuditActor = { type: 'system', label: 'test' };
+const MINUTE = 60 * 1000;
+
+// Payment intents by id with their status; cancelling one is recorded
+let intents: Record<string, string> = {};
+const cancel = vi.fn(async (id: string) => ({ id, status: 'canceled' }));
+const stripe = {
+  paymentIntents: {
+    retrieve: async (id: string) => ({ id, status: intents[id] }),
+    cancel
+  },
+  refunds: { create: vi.fn() }
+} as unknown as Stripe;
+
+let roomId: number;
+let hour = 0;
+
+// An unpaid hold in its own hour, so holds never conflict with each other
+const hold = (overrides: Partial<InsertReservation> = {}) => {
+  hour++;
+  return storage.createReservation({
+    roomId,
+    userId: null,
+    guestName: 'Sam',
+    guestEmail: 'sam@example.com',
+    reservationDate: '2030-01-01',
+    startTime: new Date(Date.UTC(2030, 0, 1) + hour * 60 * MINUTE),
+    endTime: new Date(Date.UTC(2030, 0, 1) + (hour + 1) * 60 * MINUTE),
+    status: 'pending_payment',
+    ...overrides
+  }, actor);
+};
+
+describe('hold expiry', () => {
+  beforeEach(async () => {
+    intents = {};
+    cancel.mockClear();
+    if (!roomId) {
+      const location = await storage.createLocation({ name: 'Hold Branch', timezone: 'UTC' }, actor);
+      roomId = (await storage.createRoom({ name: 'Hold Room', capacity: 2, locationId: location.id }, actor)).id;
+    }
+  });
+
+  it('releases holds past their deadline and cancels their payment intents', async () => {
+    const now = new Date();
+    const stale = await hold({ holdExpiresAt: new Date(now.getTime() - MINUTE), stripePaymentIntentId: 'pi_stale' });
+    const current = await hold({ holdExpiresAt: new Date(now.getTime() + MINUTE) });
+    intents.pi_stale = 'requires_payment_method';
+
+    const { expired } = await expireStaleHolds(stripe, now);
+    expect(expired.map(r => r.id)).toContain(stale.id);
+    expect(expired.map(r => r.id)).not.toContain(current.id);
+    expect(cancel).toHaveBeenCalledWith('pi_stale', { cancellation_reason: 'abandoned' });
+    expect((await storage.getReservation(stale.id))?.status).toBe('expired');
+    expect((await storage.getReservation(current.id))?.status).toBe('pending_payment');
+  });
+
+  it('confirms holds whose payment went through without a webhook', async () => {
+    const now = new Date();
+    const paid = await hold({ holdExpiresAt: new Date(now.getTime() - MINUTE), stripePaymentIntentId: 'pi_paid' });
+    intents.pi_paid = 'succeeded';
+
+    const { expired, paid: confirmed } = await expireStaleHolds(stripe, now);
+    expect(expired.map(r => r.id)).not.toContain(paid.id);
+    expect(confirmed).toContainEqual(expect.objectContaining({
+      reservation: expect.objectContaining({ id: paid.id }),
+      broadcastType: 'updated_reservation',
+      notification: { template: 'booking_confirmed' }
+    }));
+    expect(cancel).not.toHaveBeenCalled();
+    expect(await storage.getReservation(paid.id)).toMatchObject({ status: 'confirmed', paymentStatus: 'completed' });
+  });
+
+  it('waits another hold period for a payment that is still processing', async () => {
+    const now = new Date();
+    const settling = await hold({ holdExpiresAt: new Date(now.getTime() - MINUTE), stripePaymentIntentId: 'pi_settling' });
+    intents.pi_settling = 'processing';
+
+    const { expired, paid } = await expireStaleHolds(stripe, now);
+    expect(expired.map(r => r.id)).not.toContain(settling.id);
+    expect(paid.map(outcome => outcome.reservation?.id)).not.toContain(settling.id);
+    expect(cancel).not.toHaveBeenCalled();
+
+    const kept = await storage.getReservation(settling.id);
+    expect(kept?.status).toBe('pending_payment');
+    expect(kept?.holdExpiresAt).toEqual(new Date(now.getTime() + PENDING_HOLD_TTL_MINUTES * MINUTE));
+    // Not asked about again until the new deadline
+    expect((await storage.getExpiredHolds(now, now)).map(r => r.id)).not.toContain(settling.id);
+  });
+
+  it('only expires reservations that are still holds', async () => {
+    const now = new Date();
+    const confirmed = await hold({ holdExpiresAt: new Date(now.getTime() - MINUTE), status: 'confirmed' });
+    expect(await storage.expireReservation(confirmed.id, actor)).toBeUndefined();
+
+    // Paid while Stripe was being asked about the intent
+    const racing = await hold({ holdExpiresAt: new Date(now.getTime() - MINUTE), stripePaymentIntentId: 'pi_racing' });
+    intents.pi_racing = 'requires_payment_method';
+    cancel.mockImplementationOnce(async (id: string) => {
+      await storage.updateReservation(racing.id, { status: 'confirmed' }, actor);
+      return { id, status: 'canceled' };
+    });
+
+    const { expired } = await expireStaleHolds(stripe, now);
+    expect(expired.map(r => r.id)).not.toContain(racing.id);
+    expect((await storage.getReservation(racing.id))?.status).toBe('confirmed');
+    expect((await storage.getReservation(confirmed.id))?.status).toBe('confirmed');
+  });
+
+  it('gives back the promo code use of an expired hold', async () => {
+    const now = new Date();
+    const promo = await storage.createPromoCode({ code: 'HOLD10', discountType: 'percent', discountValue: 10, maxUses: 1 });
+    expect(await storage.redeemPromoCode(promo.id)).toBe(true);
+    const withPromo = await hold({ holdExpiresAt: new Date(now.getTime() - MINUTE), promoCodeId: promo.id });
+
+    expect((await expireStaleHolds(stripe, now)).expired.map(r => r.id)).toContain(withPromo.id);
+    expect((await storage.getPromoCode(promo.id))?.timesUsed).toBe(0);
+  });
+
+  it('falls back to the creation time for holds without a deadline', async () => {
+    const legacy = await hold();
+    const created = legacy.createdAt!.getTime();
+    const cutoff = (minutes: number) => new Date(created + minutes * MINUTE);
+
+    // Not yet older than the hold time-to-live
+    expect((await storage.getExpiredHolds(cutoff(PENDING_HOLD_TTL_MINUTES), cutoff(0))).map(r => r.id)).not.toContain(legacy.id);
+    expect((await storage.getExpiredHolds(cutoff(PENDING_HOLD_TTL_MINUTES + 1), cutoff(1))).map(r => r.id)).toContain(legacy.id);
+
+    expect((await expireStaleHolds(stripe, cutoff(PENDING_HOLD_TTL_MINUTES - 1))).expired.map(r => r.id)).not.toContain(legacy.id);
+    expect((await expireStaleHolds(stripe, cutoff(PENDING_HOLD_TTL_MINUTES + 1))).expired.map(r => r.id)).toContain(legacy.id);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildCalendar, buildVTimezone, escapeText, foldLine } from '../shared/icalendar';
+
+const zone = 'America/New_York';
+const now = new Date('2026-03-01T12:00:00Z');
+
+describe('iCalendar', () => {
+  it('writes event times in the zone with a matching VTIMEZONE', () => {
+    const calendar = buildCalendar({
+      name: 'My Room Reservations',
+      timeZone: zone,
+      now,
+      events: [{
+        uid: 'reservation-1@example',
+        // 10:00-11:00 Eastern on either side of the March DST change
+        start: new Date('2026-03-06T15:00:00Z'),
+        end: new Date('2026-03-06T16:00:00Z'),
+        summary: 'Room booking: Study Room A',
+        status: 'CONFIRMED'
+      }, {
+        uid: 'reservation-2@example',
+        start: new Date('2026-03-10T14:00:00Z'),
+        end: new Date('2026-03-10T15:00:00Z'),
+        summary: 'Room booking: Study Room A'
+      }]
+    });
+    const lines = calendar.split('\r\n');
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20260306T100000');
+    expect(lines).toContain('DTSTART;TZID=America/New_York:20260310T100000');
+    expect(lines).toContain('DTSTAMP:20260301T120000Z');
+    expect(lines.filter(line => line === 'BEGIN:VTIMEZONE')).toHaveLength(1);
+  });
+
+  it('lists the daylight saving transitions of the years covered', () => {
+    const lines = buildVTimezone(zone, new Date('2026-06-01T00:00:00Z'), new Date('2026-06-02T00:00:00Z'));
+
+    expect(lines.join('\n')).toContain([
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20260308T020000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'TZNAME:EDT',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20261101T020000',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'TZNAME:EST',
+      'END:STANDARD'
+    ].join('\n'));
+
+    // Zones without daylight saving get a single observance
+    const utc = buildVTimezone('UTC', new Date('2026-06-01T00:00:00Z'), new Date('2026-06-02T00:00:00Z'));
+    expect(utc.filter(line => line.startsWith('BEGIN:STANDARD'))).toHaveLength(1);
+  });
+
+  it('escapes text and folds long lines', () => {
+    expect(escapeText('Study, group; room\\1\nBring laptops')).toBe('Study\\, group\\; room\\\\1\\nBring laptops');
+
+    const folded = foldLine(`DESCRIPTION:${'é'.repeat(60)}`);
+    const encoder = new TextEncoder();
+    for (const line of folded.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.split('\r\n').map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+});
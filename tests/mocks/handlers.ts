@@ -8,6 +8,7 @@ const mockUser: User = {
   password: 'hashedpassword',
   name: 'Test User',
   email: 'test@example.com',
+  role: 'patron',
   isAdmin: false,
   createdAt: new Date(),
 };
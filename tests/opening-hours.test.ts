@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getOpeningWindow,
+  getWeeklyHourRange,
+  isWithinOpeningWindow,
+  timeToMinutes,
+} from '../shared/opening-hours';
+
+// Monday-Friday 10am-6pm, Saturday 10am-2pm, closed Sunday
+const weeklyHours = [
+  { dayOfWeek: 0, openTime: null, closeTime: null, isClosed: true },
+  ...[1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, openTime: '10:00', closeTime: '18:00', isClosed: false })),
+  { dayOfWeek: 6, openTime: '10:00', closeTime: '14:00', isClosed: false },
+];
+
+const closures = [{ closureDate: '2025-12-25' }];
+
+describe('opening hours', () => {
+  it('uses the configured hours for the day of the week', () => {
+    const window = getOpeningWindow(weeklyHours, closures, '2025-12-20', 6);
+    expect(window).toEqual({ openMinutes: timeToMinutes('10:00'), closeMinutes: timeToMinutes('14:00') });
+  });
+
+  it('treats closed days and holiday closures as closed all day', () => {
+    expect(getOpeningWindow(weeklyHours, closures, '2025-12-21', 0)).toBeNull();
+    expect(getOpeningWindow(weeklyHours, closures, '2025-12-25', 4)).toBeNull();
+  });
+
+  it('falls back to the default schedule when a location has no hours', () => {
+    expect(getOpeningWindow([], [], '2025-12-22', 1)).toEqual({ openMinutes: 540, closeMinutes: 1260 });
+    expect(getOpeningWindow([], [], '2025-12-20', 6)).toEqual({ openMinutes: 540, closeMinutes: 1020 });
+  });
+
+  it('only accepts bookings that fit entirely inside the window', () => {
+    const window = { openMinutes: 600, closeMinutes: 840 };
+    expect(isWithinOpeningWindow(window, 600, 720)).toBe(true);
+    expect(isWithinOpeningWindow(window, 780, 900)).toBe(false);
+    expect(isWithinOpeningWindow(window, 540, 660)).toBe(false);
+    expect(isWithinOpeningWindow(null, 600, 660)).toBe(false);
+  });
+
+  it('spans the grid from the earliest opening to the latest closing', () => {
+    expect(getWeeklyHourRange(weeklyHours)).toEqual([10, 11, 12, 13, 14, 15, 16, 17]);
+    expect(getWeeklyHourRange([])).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+  });
+});
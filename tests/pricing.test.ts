@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import {
+  applyPromoCode,
+  calculatePrice,
+  DEFAULT_HOURLY_RATE_IN_CENTS,
+  findPromoCodeProblem,
+  type PricingRuleFields,
+  type PromoCodeFields
+} from '../shared/pricing';
+
+const zone = 'America/New_York';
+
+const rule = (overrides: Partial<PricingRuleFields>): PricingRuleFields => ({
+  id: 1,
+  name: 'Rule',
+  type: 'rate',
+  locationId: null,
+  roomId: null,
+  daysOfWeek: null,
+  startTime: null,
+  endTime: null,
+  hourlyRateInCents: null,
+  discountPercent: null,
+  audience: 'all',
+  priority: 0,
+  isActive: true,
+  ...overrides
+});
+
+const promo = (overrides: Partial<PromoCodeFields>): PromoCodeFields => ({
+  id: 1,
+  code: 'PARTNER',
+  discountType: 'percent',
+  discountValue: 100,
+  maxUses: null,
+  timesUsed: 0,
+  expiresAt: null,
+  locationId: null,
+  roomId: null,
+  isActive: true,
+  ...overrides
+});
+
+// Tuesday 2026-03-10 unless a date is given
+const booking = (start: string, end: string, overrides: { date?: string; roomId?: number; isRegisteredUser?: boolean } = {}) => ({
+  roomId: overrides.roomId ?? 1,
+  locationId: 1,
+  startTime: DateTime.fromISO(`${overrides.date ?? '2026-03-10'}T${start}`, { zone }),
+  endTime: DateTime.fromISO(`${overrides.date ?? '2026-03-10'}T${end}`, { zone }),
+  isRegisteredUser: overrides.isRegisteredUser ?? true
+});
+
+describe('pricing rules', () => {
+  it('falls back to the standard rate and bills part hours as whole hours', () => {
+    const quote = calculatePrice([], booking('10:00', '11:30'));
+    expect(quote.billableHours).toBe(2);
+    expect(quote.totalInCents).toBe(2 * DEFAULT_HOURLY_RATE_IN_CENTS);
+    expect(quote.lineItems).toEqual([
+      { label: 'Standard rate', ruleId: null, hours: 2, unitPriceInCents: 500, amountInCents: 1000 }
+    ]);
+  });
+
+  it('bills rooms with shorter slots by the slot', () => {
+    const rules = [rule({ id: 3, name: 'Evening peak', startTime: '17:00', endTime: '20:00', hourlyRateInCents: 900 })];
+    const quote = calculatePrice(rules, { ...booking('16:30', '17:40'), slotMinutes: 30 });
+    expect(quote.billableHours).toBe(1.5);
+    expect(quote.lineItems.map(item => [item.label, item.hours, item.amountInCents])).toEqual([
+      ['Standard rate', 0.5, 250],
+      ['Evening peak', 1, 900]
+    ]);
+  });
+
+  it('prefers room rates over location rates and itemizes peak hours separately', () => {
+    const rules = [
+      rule({ id: 1, name: 'Branch rate', locationId: 1, hourlyRateInCents: 400 }),
+      rule({ id: 2, name: 'Room rate', roomId: 1, hourlyRateInCents: 600 }),
+      rule({ id: 3, name: 'Evening peak', roomId: 1, startTime: '17:00', endTime: '20:00', hourlyRateInCents: 900 })
+    ];
+
+    const quote = calculatePrice(rules, booking('15:00', '18:00'));
+    expect(quote.lineItems.map(item => [item.label, item.hours, item.amountInCents])).toEqual([
+      ['Room rate', 2, 1200],
+      ['Evening peak', 1, 900]
+    ]);
+    expect(quote.totalInCents).toBe(2100);
+
+    // Another room at the same branch only gets the branch rate
+    expect(calculatePrice(rules, booking('15:00', '16:00', { roomId: 2 })).totalInCents).toBe(400);
+  });
+
+  it('applies weekend rates and free rooms', () => {
+    const rules = [
+      rule({ id: 1, name: 'Weekend rate', daysOfWeek: [0, 6], hourlyRateInCents: 300 }),
+      rule({ id: 2, name: 'Community room', roomId: 2, hourlyRateInCents: 0 })
+    ];
+
+    expect(calculatePrice(rules, booking('10:00', '12:00', { date: '2026-03-14' })).totalInCents).toBe(600);
+    expect(calculatePrice(rules, booking('10:00', '12:00')).totalInCents).toBe(1000);
+    expect(calculatePrice(rules, booking('10:00', '12:00', { roomId: 2 })).totalInCents).toBe(0);
+  });
+
+  it('applies the largest discount for the patron type', () => {
+    const rules = [
+      rule({ id: 1, name: 'Member discount', type: 'discount', discountPercent: 20, audience: 'registered' }),
+      rule({ id: 2, name: 'Open day', type: 'discount', discountPercent: 10 }),
+      rule({ id: 3, name: 'Disabled', type: 'discount', discountPercent: 90, isActive: false })
+    ];
+
+    const member = calculatePrice(rules, booking('10:00', '12:00'));
+    expect(member.discount).toMatchObject({ ruleId: 1, amountInCents: 200 });
+    expect(member.totalInCents).toBe(800);
+
+    const guest = calculatePrice(rules, booking('10:00', '12:00', { isRegisteredUser: false }));
+    expect(guest.discount).toMatchObject({ ruleId: 2, amountInCents: 100 });
+    expect(guest.totalInCents).toBe(900);
+  });
+
+  it('takes promo codes off the discounted price without going below zero', () => {
+    const rules = [rule({ id: 1, name: 'Member discount', type: 'discount', discountPercent: 20 })];
+    const quote = calculatePrice(rules, booking('10:00', '12:00'));
+
+    expect(applyPromoCode(quote, promo({ discountType: 'percent', discountValue: 25 }))).toMatchObject({
+      promo: { code: 'PARTNER', amountInCents: 200 },
+      totalInCents: 600
+    });
+    expect(applyPromoCode(quote, promo({ discountType: 'fixed', discountValue: 5000 })).totalInCents).toBe(0);
+    expect(applyPromoCode(quote, promo({})).totalInCents).toBe(0);
+  });
+
+  it('rejects promo codes that are expired, used up or for another room', () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const room = { roomId: 1, locationId: 1 };
+
+    expect(findPromoCodeProblem(promo({}), room, now)).toBeNull();
+    expect(findPromoCodeProblem(promo({ expiresAt: new Date('2026-03-01T00:00:00Z') }), room, now)).toMatch(/expired/);
+    expect(findPromoCodeProblem(promo({ maxUses: 5, timesUsed: 5 }), room, now)).toMatch(/usage limit/);
+    expect(findPromoCodeProblem(promo({ locationId: 2 }), room, now)).toMatch(/this room/);
+    expect(findPromoCodeProblem(promo({ isActive: false }), room, now)).toMatch(/no longer active/);
+  });
+});
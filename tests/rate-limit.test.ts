@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import type { Request, Response } from 'express';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import type { SQL } from 'drizzle-orm';
+import { MemoryRateLimitStore, PostgresRateLimitStore, rateLimit } from '../server/rate-limit';
+import { lockoutMinutes } from '../server/account-lockout';
+
+const MINUTE = 60 * 1000;
+const at = (minutes: number) => new Date(Date.UTC(2026, 2, 10, 12, 0) + minutes * MINUTE);
+
+// Just enough of an Express response to see what the middleware sent
+const createResponse = () => {
+  const sent: { status?: number; headers: Record<string, string>; body?: unknown } = { headers: {} };
+  const res = {
+    set(name: string, value: string) { sent.headers[name] = value; return this; },
+    status(code: number) { sent.status = code; return this; },
+    json(body: unknown) { sent.body = body; return this; }
+  };
+  return { res: res as unknown as Response, sent };
+};
+
+describe('rate limiting', () => {
+  it('slides the window instead of resetting it', async () => {
+    const store = new MemoryRateLimitStore();
+    const hit = (minutes: number) => store.hit('login-ip:1.2.3.4', 3, 10 * MINUTE, at(minutes));
+
+    expect(await hit(0)).toMatchObject({ allowed: true, remaining: 2 });
+    await hit(4);
+    await hit(8);
+    expect(await hit(9)).toEqual({ allowed: false, remaining: 0, retryAfterMs: MINUTE });
+    // The first hit has left the window, but the refused one was never counted
+    expect(await hit(10)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(await hit(11)).toEqual({ allowed: false, remaining: 0, retryAfterMs: 3 * MINUTE });
+    expect(await store.hit('login-ip:5.6.7.8', 3, 10 * MINUTE, at(11))).toMatchObject({ allowed: true });
+  });
+
+  it('sweeps away keys whose hits have all left the window', async () => {
+    const store = new MemoryRateLimitStore();
+    for (let i = 0; i < 100; i++) {
+      await store.hit(`login-user:nobody-${i}`, 5, 10 * MINUTE, at(0));
+    }
+    await store.hit('login-user:sam', 5, 10 * MINUTE, at(5));
+    expect(store.size).toBe(101);
+
+    store.sweep(at(10));
+    expect(store.size).toBe(1);
+    store.sweep(at(15));
+    expect(store.size).toBe(0);
+  });
+
+  it('sweeps away every stored hit older than the longest window', async () => {
+    // Just enough of the database to see which delete the sweep runs
+    const deletes: { table: unknown; where: SQL }[] = [];
+    const database = {
+      delete: (table: unknown) => ({ where: async (where: SQL) => { deletes.push({ table, where }); } })
+    };
+    const store = new PostgresRateLimitStore(database as unknown as ConstructorParameters<typeof PostgresRateLimitStore>[0], 60 * MINUTE);
+
+    await store.sweep(at(90));
+    expect(deletes).toHaveLength(1);
+    const { sql, params } = new PgDialect().sqlToQuery(deletes[0].where);
+    expect(sql).toBe('"rate_limit_hits"."hit_at" < $1');
+    expect(params).toEqual([at(30).toISOString()]);
+  });
+
+  it('answers 429 with Retry-After once any rule is exceeded', async () => {
+    const limiter = rateLimit(new MemoryRateLimitStore(),
+      { name: 'ip', limit: 5, windowMs: MINUTE, key: req => req.ip, message: 'Too many from this network' },
+      { name: 'user', limit: 1, windowMs: MINUTE, key: req => req.body.username, message: 'Too many for this account' }
+    );
+    const send = async (username?: string) => {
+      const { res, sent } = createResponse();
+      let passed = false;
+      await limiter({ ip: '1.2.3.4', body: { username } } as Request, res, () => { passed = true; });
+      return { passed, sent };
+    };
+
+    expect((await send('sam')).passed).toBe(true);
+    const refused = await send('sam');
+    expect(refused.passed).toBe(false);
+    expect(refused.sent).toMatchObject({
+      status: 429,
+      headers: { 'Retry-After': '60' },
+      body: { error: 'Too many for this account', retryAfterSeconds: 60 }
+    });
+    // Requests without a username are only limited by address
+    expect((await send()).passed).toBe(true);
+  });
+
+  it('locks accounts for exponentially longer after repeated failures', () => {
+    expect([4, 5, 6, 7, 8, 12].map(failures => lockoutMinutes(failures, 5, 1, 60))).toEqual([0, 1, 2, 4, 8, 60]);
+  });
+});
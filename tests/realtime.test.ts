@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import type { Reservation } from '../shared/schema';
+import { clientMessageSchema, toRealtimeReservation, topicKey, topicMatches } from '../shared/realtime';
+
+const reservation = {
+  id: 9,
+  roomId: 3,
+  userId: 42,
+  guestName: null,
+  guestEmail: null,
+  reservationDate: '2026-03-10',
+  startTime: new Date('2026-03-10T15:00:00Z'),
+  endTime: new Date('2026-03-10T17:00:00Z'),
+  purpose: 'Thesis defence rehearsal',
+  status: 'confirmed',
+  confirmationCode: 'LIB-123456'
+} as Reservation;
+
+const scope = { roomId: 3, locationId: 1, date: '2026-03-10', userId: 42 };
+
+describe('realtime protocol', () => {
+  it('only accepts subscription requests from clients', () => {
+    expect(clientMessageSchema.safeParse({ type: 'subscribe', topic: { kind: 'location', locationId: 1, date: '2026-03-10' } }).success).toBe(true);
+    expect(clientMessageSchema.safeParse({ type: 'reservation_update', reservation }).success).toBe(false);
+    expect(clientMessageSchema.safeParse({ type: 'subscribe', topic: { kind: 'location', locationId: 1, date: 'tomorrow' } }).success).toBe(false);
+  });
+
+  it('matches events to the topics that cover them', () => {
+    expect(topicMatches({ kind: 'location', locationId: 1, date: '2026-03-10' }, scope)).toBe(true);
+    expect(topicMatches({ kind: 'location', locationId: 1, date: '2026-03-11' }, scope)).toBe(false);
+    expect(topicMatches({ kind: 'location', locationId: 1, date: '2026-03-11' }, { roomId: 3, locationId: 1 })).toBe(true);
+    expect(topicMatches({ kind: 'room', roomId: 3 }, scope)).toBe(true);
+    expect(topicMatches({ kind: 'my_reservations' }, scope, 42)).toBe(true);
+    expect(topicMatches({ kind: 'my_reservations' }, scope, 7)).toBe(false);
+    expect(topicMatches({ kind: 'my_reservations' }, scope)).toBe(false);
+    expect(topicKey({ kind: 'location', locationId: 1, date: '2026-03-10' })).toBe('location:1:2026-03-10');
+  });
+
+  it('hides who a booking is for from everyone but its owner and staff', () => {
+    expect(toRealtimeReservation(reservation, false)).toEqual({
+      id: 9,
+      roomId: 3,
+      reservationDate: '2026-03-10',
+      startTime: '2026-03-10T15:00:00.000Z',
+      endTime: '2026-03-10T17:00:00.000Z',
+      status: 'confirmed',
+      userId: null,
+      guestName: null,
+      guestEmail: null,
+      purpose: null,
+      confirmationCode: null
+    });
+    expect(toRealtimeReservation(reservation, true)).toMatchObject({ userId: 42, purpose: 'Thesis defence rehearsal', confirmationCode: 'LIB-123456' });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { DateTime } from 'luxon';
+import { expandRecurrence, formatRRule, parseRRule } from '../shared/recurrence';
+
+const zone = 'America/New_York';
+const at = (iso: string) => DateTime.fromISO(iso, { zone });
+const dates = (occurrences: DateTime[]) => occurrences.map(o => o.toFormat("yyyy-MM-dd HH:mm"));
+
+describe('recurrence rules', () => {
+  it('expands weekly rules on several days, keeping the local time across DST', () => {
+    const rule = parseRRule('RRULE:FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4', zone);
+    // Tuesday Oct 28 2025; clocks go back on Nov 2
+    expect(dates(expandRecurrence(rule, at('2025-10-28T14:00')))).toEqual([
+      '2025-10-28 14:00', '2025-10-30 14:00', '2025-11-04 14:00', '2025-11-06 14:00',
+    ]);
+  });
+
+  it('stops at an inclusive UNTIL date', () => {
+    const rule = parseRRule('FREQ=DAILY;INTERVAL=2;UNTIL=20251207', zone);
+    expect(dates(expandRecurrence(rule, at('2025-12-01T09:00')))).toEqual([
+      '2025-12-01 09:00', '2025-12-03 09:00', '2025-12-05 09:00', '2025-12-07 09:00',
+    ]);
+  });
+
+  it('skips months that do not have the start day', () => {
+    const rule = parseRRule('FREQ=MONTHLY;COUNT=3', zone);
+    expect(dates(expandRecurrence(rule, at('2026-01-31T10:00')))).toEqual([
+      '2026-01-31 10:00', '2026-03-31 10:00', '2026-05-31 10:00',
+    ]);
+  });
+
+  it('caps the number of occurrences', () => {
+    const rule = parseRRule('FREQ=DAILY;COUNT=500', zone);
+    expect(expandRecurrence(rule, at('2026-01-01T10:00'))).toHaveLength(52);
+  });
+
+  it('rejects unbounded or unsupported rules and round-trips valid ones', () => {
+    expect(() => parseRRule('FREQ=WEEKLY')).toThrow(/COUNT or UNTIL/);
+    expect(() => parseRRule('FREQ=YEARLY;COUNT=2')).toThrow(/FREQ/);
+    expect(() => parseRRule('FREQ=DAILY;BYDAY=MO;COUNT=2')).toThrow(/BYDAY/);
+    expect(formatRRule(parseRRule('freq=weekly;byday=th,tu;interval=2;count=6'))).toBe(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=6'
+    );
+  });
+});
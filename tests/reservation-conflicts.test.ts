@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { InsertReservation } from '../shared/schema';
+import type { AuditActor } from '../shared/audit';
+
+vi.mock('../server/db', () => ({ db: {}, pool: {} }));
+// The database session store is created on import; these tests only use MemStorage
+vi.mock('connect-pg-simple', () => ({ default: () => class {} }));
+
+const { MemStorage } = await import('../server/storage');
+const { conflictResponse, ReservationConflictError } = await import('../server/errors');
+
+const actor: AuditActor = { type: 'system', label: 'test' };
+
+// A booking of `roomId` on 10 March 2026 between two UTC times
+const booking = (roomId: number, start: string, end: string, status = 'confirmed'): InsertReservation => ({
+  roomId,
+  userId: null,
+  guestName: 'Sam',
+  guestEmail: 'sam@example.com',
+  reservationDate: '2026-03-10',
+  startTime: new Date(`2026-03-10T${start}:00Z`),
+  endTime: new Date(`2026-03-10T${end}:00Z`),
+  status
+});
+
+describe('reservation conflicts', () => {
+  let storage: InstanceType<typeof MemStorage>;
+  let roomId: number;
+  let bufferedRoomId: number;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    const location = await storage.createLocation({ name: 'Test Branch', timezone: 'UTC' }, actor);
+    roomId = (await storage.createRoom({ name: 'Room', capacity: 4, locationId: location.id }, actor)).id;
+    bufferedRoomId = (await storage.createRoom({ name: 'Buffered', capacity: 4, locationId: location.id, cleanupBufferMinutes: 15 }, actor)).id;
+  });
+
+  it('finds active bookings that overlap the requested time', async () => {
+    const existing = await storage.createReservation(booking(roomId, '10:00', '11:00'), actor);
+
+    expect(await storage.getConflictingReservations(roomId, new Date('2026-03-10T10:30:00Z'), new Date('2026-03-10T11:30:00Z')))
+      .toEqual([existing]);
+    // Back-to-back bookings don't overlap, and the booking being edited doesn't conflict with itself
+    expect(await storage.getConflictingReservations(roomId, new Date('2026-03-10T11:00:00Z'), new Date('2026-03-10T12:00:00Z'))).toEqual([]);
+    expect(await storage.getConflictingReservations(roomId, new Date('2026-03-10T10:00:00Z'), new Date('2026-03-10T11:00:00Z'), existing.id)).toEqual([]);
+  });
+
+  it('ignores released bookings and keeps the room buffers free', async () => {
+    await storage.createReservation(booking(roomId, '10:00', '11:00', 'cancelled'), actor);
+    expect(await storage.getConflictingReservations(roomId, new Date('2026-03-10T10:00:00Z'), new Date('2026-03-10T11:00:00Z'))).toEqual([]);
+
+    await storage.createReservation(booking(bufferedRoomId, '10:00', '11:00'), actor);
+    expect(await storage.getConflictingReservations(bufferedRoomId, new Date('2026-03-10T11:00:00Z'), new Date('2026-03-10T12:00:00Z'))).toHaveLength(1);
+    expect(await storage.getConflictingReservations(bufferedRoomId, new Date('2026-03-10T11:15:00Z'), new Date('2026-03-10T12:00:00Z'))).toEqual([]);
+  });
+
+  it('rejects an overlapping booking with the 409 body naming the blocking booking', async () => {
+    await storage.createReservation(booking(roomId, '10:00', '11:00'), actor);
+
+    const err = await storage.createReservation(booking(roomId, '10:30', '11:30'), actor).catch(e => e);
+    expect(err).toBeInstanceOf(ReservationConflictError);
+    expect(conflictResponse(err)).toEqual({
+      error: 'This room is already reserved for part of the requested time',
+      conflict: {
+        roomId,
+        startTime: new Date('2026-03-10T10:00:00Z'),
+        endTime: new Date('2026-03-10T11:00:00Z')
+      }
+    });
+  });
+});
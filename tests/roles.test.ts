@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { can, isStaff, permittedLocationIds, roleLabel } from '../shared/roles';
+
+const patron = { role: 'patron', staffAssignments: [] };
+const southStaff = { role: 'patron', staffAssignments: [{ locationId: 1, role: 'branch_staff' }] };
+const universityManager = { role: 'patron', staffAssignments: [{ locationId: 2, role: 'branch_manager' }] };
+const admin = { role: 'system_admin', staffAssignments: [] };
+
+describe('roles', () => {
+  it('limits branch staff and managers to their own branches', () => {
+    expect(can(southStaff, 'manage_reservations', 1)).toBe(true);
+    expect(can(southStaff, 'manage_reservations', 2)).toBe(false);
+    expect(can(southStaff, 'manage_rooms', 1)).toBe(false);
+
+    expect(can(universityManager, 'manage_rooms', 2)).toBe(true);
+    expect(can(universityManager, 'manage_branch', 1)).toBe(false);
+    expect(can(universityManager, 'manage_system')).toBe(false);
+
+    expect(can(patron, 'manage_reservations')).toBe(false);
+    expect(can(admin, 'manage_system')).toBe(true);
+    expect(can(admin, 'manage_rooms', 99)).toBe(true);
+  });
+
+  it('lists the branches a permission applies to', () => {
+    expect(permittedLocationIds(universityManager, 'view_reports')).toEqual([2]);
+    expect(permittedLocationIds(southStaff, 'view_reports')).toEqual([]);
+    expect(permittedLocationIds(admin, 'view_reports')).toBe('all');
+  });
+
+  it('labels the highest role held', () => {
+    expect([patron, southStaff, universityManager, admin].map(roleLabel))
+      .toEqual(['Patron', 'Branch Staff', 'Branch Manager', 'System Admin']);
+    expect([patron, southStaff, admin].map(isStaff)).toEqual([false, true, true]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { suggestRooms } from '../shared/room-suggestions';
+
+// Hourly slots from 9:00 to 17:00, busy at the given hours
+const slots = (...busyHours: number[]) =>
+  [9, 10, 11, 12, 13, 14, 15, 16].map(hour => ({
+    startMinutes: hour * 60,
+    status: busyHours.includes(hour) ? 'busy' as const : 'free' as const
+  }));
+
+const afternoon = { partySize: 6, durationMinutes: 120, earliestStartMinutes: 13 * 60, latestEndMinutes: 17 * 60 };
+
+describe('room suggestions', () => {
+  it('prefers the room that fits the group best', () => {
+    const suggestions = suggestRooms([
+      { roomId: 1, locationId: 1, capacity: 12, slots: slots() },
+      { roomId: 2, locationId: 1, capacity: 6, slots: slots() },
+      { roomId: 3, locationId: 1, capacity: 4, slots: slots() }
+    ], afternoon);
+
+    expect(suggestions.map(s => s.roomId)).toEqual([2, 1]);
+    expect(suggestions[0]).toMatchObject({ startMinutes: 13 * 60, endMinutes: 15 * 60, capacitySlack: 0 });
+  });
+
+  it('offers the free start nearest the preferred time', () => {
+    const [suggestion] = suggestRooms(
+      [{ roomId: 1, locationId: 1, capacity: 6, slots: slots(14) }],
+      { ...afternoon, preferredStartMinutes: 14 * 60 }
+    );
+    expect(suggestion).toMatchObject({ startMinutes: 15 * 60, minutesFromPreferred: 60 });
+
+    expect(suggestRooms([{ roomId: 1, locationId: 1, capacity: 6, slots: slots(14, 15) }], afternoon)).toEqual([]);
+  });
+
+  it('ranks rooms at the preferred branches first', () => {
+    const suggestions = suggestRooms([
+      { roomId: 1, locationId: 1, capacity: 6, slots: slots() },
+      { roomId: 2, locationId: 2, capacity: 7, slots: slots() }
+    ], { ...afternoon, preferredLocationIds: [2] }, 1);
+
+    expect(suggestions.map(s => s.roomId)).toEqual([2]);
+  });
+});
@@ -21,7 +21,9 @@ vi.mock('@/hooks/use-auth', () => {
         username: 'testuser',
         name: 'Test User',
         email: 'test@example.com',
+        role: 'patron',
         isAdmin: false,
+        staffAssignments: [],
       },
       isLoading: false,
       error: null,
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+import type { Reservation } from '../shared/schema';
+import { processStripeEvent, verifyStripeEvent, WebhookSignatureError, type WebhookPayments, type WebhookStorage } from '../server/stripe-webhook';
+
+const stripe = new Stripe('sk_test_fixture');
+const secret = 'whsec_test_fixture';
+
+// Read a fixture and sign it the way Stripe would
+const signedFixture = (name: string) => {
+  const payload = fs.readFileSync(path.resolve(__dirname, 'fixtures/stripe', `${name}.json`), 'utf8');
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+  return { payload, signature };
+};
+
+// In-memory stand-in for the storage methods the webhook uses
+const createStore = (reservation: Partial<Reservation>) => {
+  const reservations = new Map<number, Reservation>([[1, { id: 1, roomId: 1, ...reservation } as Reservation]]);
+  const events = new Set<string>();
+  const store: WebhookStorage = {
+    getReservationByPaymentIntent: async (id) => Array.from(reservations.values()).find(r => r.stripePaymentIntentId === id),
+    updateReservation: async (id, data) => {
+      const updated = { ...reservations.get(id)!, ...data } as Reservation;
+      reservations.set(id, updated);
+      return updated;
+    },
+    claimStripeEvent: async (id) => !events.has(id) && !!events.add(id),
+    releaseStripeEvent: async (id) => { events.delete(id); },
+  };
+  return { store, reservations };
+};
+
+// Refunds the webhook issues, recorded instead of sent to Stripe
+const createRefund = vi.fn(async (params: Stripe.RefundCreateParams) => ({ id: 're_late', amount: 1000, metadata: params.metadata }) as Stripe.Refund);
+const payments = { refunds: { create: createRefund } } as unknown as WebhookPayments;
+
+describe('Stripe webhook', () => {
+  let pending: ReturnType<typeof createStore>;
+
+  beforeEach(() => {
+    pending = createStore({ status: 'pending_payment', paymentStatus: 'pending', stripePaymentIntentId: 'pi_test_reservation_1' });
+    createRefund.mockClear();
+  });
+
+  it('rejects payloads that were not signed with the webhook secret', () => {
+    const { payload, signature } = signedFixture('payment_intent.succeeded');
+    expect(() => verifyStripeEvent(stripe, payload, signature, 'whsec_other')).toThrow(WebhookSignatureError);
+    expect(() => verifyStripeEvent(stripe, payload.replace('1000', '1'), signature, secret)).toThrow(WebhookSignatureError);
+    expect(() => verifyStripeEvent(stripe, payload, undefined, secret)).toThrow(/Missing/);
+  });
+
+  it('confirms the reservation when the payment succeeds and ignores replays', async () => {
+    const { payload, signature } = signedFixture('payment_intent.succeeded');
+    const event = verifyStripeEvent(stripe, payload, signature, secret);
+
+    const first = await processStripeEvent(event, pending.store, payments);
+    expect(first).toMatchObject({ duplicate: false, broadcastType: 'updated_reservation' });
+    expect(pending.reservations.get(1)).toMatchObject({ status: 'confirmed', paymentStatus: 'completed' });
+
+    expect(await processStripeEvent(event, pending.store, payments)).toEqual({ duplicate: true });
+  });
+
+  it('keeps the hold after a declined card but releases it when the intent is cancelled', async () => {
+    const failed = signedFixture('payment_intent.payment_failed');
+    await processStripeEvent(verifyStripeEvent(stripe, failed.payload, failed.signature, secret), pending.store, payments);
+    expect(pending.reservations.get(1)).toMatchObject({ status: 'pending_payment', paymentStatus: 'failed' });
+
+    const canceled = signedFixture('payment_intent.canceled');
+    const outcome = await processStripeEvent(verifyStripeEvent(stripe, canceled.payload, canceled.signature, secret), pending.store, payments);
+    expect(outcome.broadcastType).toBe('cancelled_reservation');
+    expect(pending.reservations.get(1)).toMatchObject({ status: 'payment_failed', paymentStatus: 'failed' });
+  });
+
+  it('cancels a confirmed booking on a full refund', async () => {
+    const confirmed = createStore({ status: 'confirmed', paymentStatus: 'completed', stripePaymentIntentId: 'pi_test_reservation_1' });
+    const { payload, signature } = signedFixture('charge.refunded');
+    await processStripeEvent(verifyStripeEvent(stripe, payload, signature, secret), confirmed.store, payments);
+    expect(confirmed.reservations.get(1)).toMatchObject({ status: 'cancelled', paymentStatus: 'refunded' });
+  });
+
+  it('refunds a payment that arrives after the booking was cancelled', async () => {
+    const cancelled = createStore({ status: 'cancelled', paymentStatus: 'pending', stripePaymentIntentId: 'pi_test_reservation_1' });
+    const { payload, signature } = signedFixture('payment_intent.succeeded');
+    const outcome = await processStripeEvent(verifyStripeEvent(stripe, payload, signature, secret), cancelled.store, payments);
+
+    expect(createRefund).toHaveBeenCalledWith(
+      expect.objectContaining({ payment_intent: 'pi_test_reservation_1' }),
+      { idempotencyKey: 'reservation-1-late-payment-refund-pi_test_reservation_1' }
+    );
+    expect(cancelled.reservations.get(1)).toMatchObject({ status: 'cancelled', paymentStatus: 'refunded', stripeRefundId: 're_late' });
+    expect(outcome.notification).toMatchObject({ template: 'refund_issued', refundInCents: 1000 });
+  });
+
+  it('releases the event claim when handling fails so the retry is processed', async () => {
+    const { payload, signature } = signedFixture('payment_intent.succeeded');
+    const event = verifyStripeEvent(stripe, payload, signature, secret);
+    const failingStore = { ...pending.store, updateReservation: async () => { throw new Error('database unavailable'); } };
+
+    await expect(processStripeEvent(event, failingStore, payments)).rejects.toThrow('database unavailable');
+    expect(await processStripeEvent(event, pending.store, payments)).toMatchObject({ duplicate: false });
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { branchDateTime, isValidTimeZone, locationTimeZone, parseBranchTime, toBranchISO } from '../shared/time-zone';
+
+describe('time zones', () => {
+  it('reads times without an offset as wall-clock times at the branch', () => {
+    expect(parseBranchTime('2026-03-10T14:00:00', 'America/Denver').toUTC().toISO()).toBe('2026-03-10T20:00:00.000Z');
+    expect(parseBranchTime('2026-03-10T14:00:00', 'America/New_York').toUTC().toISO()).toBe('2026-03-10T18:00:00.000Z');
+    // A time that already carries an offset means the same instant at any branch
+    expect(parseBranchTime('2026-03-10T14:00:00-05:00', 'America/Denver').toUTC().toISO()).toBe('2026-03-10T19:00:00.000Z');
+  });
+
+  it('sends times with the branch offset and shows them at the branch', () => {
+    const start = new Date('2026-07-01T16:30:00Z');
+    expect(toBranchISO(start, 'America/Los_Angeles')).toBe('2026-07-01T09:30:00.000-07:00');
+    expect(branchDateTime('2026-07-01T16:30:00.000Z', 'America/Chicago').toFormat('h:mm a')).toBe('11:30 AM');
+    expect(branchDateTime(toBranchISO(start, 'America/Chicago'), 'America/Chicago').toFormat('h:mm a')).toBe('11:30 AM');
+  });
+
+  it('falls back to Eastern time for branches without a zone', () => {
+    expect(locationTimeZone({ timezone: 'America/Phoenix' })).toBe('America/Phoenix');
+    expect(locationTimeZone(undefined)).toBe('America/New_York');
+    expect(isValidTimeZone('America/Chicago')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { createVerificationToken, hashVerificationToken, verificationTokenMatches } from '../server/tokens';
+
+describe('tokens', () => {
+  it('only accepts the token whose hash was stored', () => {
+    const { token, hash } = createVerificationToken();
+
+    expect(hash).not.toContain(token);
+    expect(hashVerificationToken(token)).toBe(hash);
+    expect(verificationTokenMatches(token, hash)).toBe(true);
+    expect(verificationTokenMatches(createVerificationToken().token, hash)).toBe(false);
+    expect(verificationTokenMatches(token, null)).toBe(false);
+  });
+});